@@ -56,6 +56,8 @@ module.exports = {
     
     // Error handling
     'no-empty': 'error',
+    // Playwright fixtures without dependencies must still destructure their first argument: async ({}, use) => ...
+    'no-empty-pattern': ['error', { allowObjectPatternsAsParameters: true }],
     'no-promise-executor-return': 'error',
   },
   env: {
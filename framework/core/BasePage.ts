@@ -1,10 +1,24 @@
-import { Page, Locator, expect, TestInfo, FileChooser, Frame } from '@playwright/test';
+import { Page, Locator, expect, test, TestInfo, FileChooser, Frame, Request } from '@playwright/test';
 import { Logger } from '../utils/Logger';
-import { ScreenshotHelper } from '../utils/ScreenshotHelper';
+import { BreakpointSweepOptions, IgnoreRect, IgnoreTarget, ScreenshotHelper, describeVisualResult } from '../utils/ScreenshotHelper';
+import { BreakpointConfig } from '../utils/ProfileConfig';
+import { VisualCompareResult } from '../utils/VisualComparator';
+import { VisualDiffSettings } from '../utils/VisualDiff';
+import { getProfile, getProfileName } from '../utils/ProfileContext';
+import { healingCache, orderCandidates } from '../utils/HealingCache';
+import { suggestSelectors } from '../utils/SelectorSuggester';
+import { DEFAULT_FINGERPRINT_THRESHOLD, captureFingerprint, findByFingerprint } from '../utils/ElementFingerprint';
+import { redactor } from '../utils/Redactor';
+import { Har, buildHar, withoutPostData } from '../utils/HarBuilder';
+import { MockCall, MockResponse, MockRouteOptions, NetworkMocker } from '../utils/NetworkMocker';
+import { LocatorDescriptor, isLocatorDescriptor } from '../utils/LocatorRegistry';
+import { frameLocatorFor, hasFrameChain, hasShadowSegment, locateInFrames } from '../utils/FrameSelector';
+import { SoftAssertions } from '../utils/SoftAssertions';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
-type SelectorDefinition = string | Locator | Array<string | Locator>;
+type SelectorDefinition = string | Locator | LocatorDescriptor | Array<string | Locator>;
 
 export interface ConsoleLogEntry {
   type: 'log' | 'debug' | 'info' | 'warning' | 'error';
@@ -26,12 +40,38 @@ export interface NetworkRequestEntry {
   responseHeaders?: Record<string, string>;
   requestBody?: string | object;
   responseBody?: string | object;
+  /** Set when `responseBody` is the base64 of a binary body (images, fonts, ...) */
+  responseBodyEncoding?: 'base64';
   timestamp: Date;
   duration?: number;
   resourceType?: string;
+  /** Browser timing marks (ms relative to the request start), used for HAR export */
+  timing?: ReturnType<Request['timing']>;
+}
+
+export interface HarReplayOptions {
+  /** Only requests whose URL matches are served from the HAR (glob or regex); default: all */
+  urlFilter?: string | RegExp;
+  /** What to do with matching requests that are not in the HAR: abort them (default) or send them to the network */
+  notFound?: 'abort' | 'fallback';
+  /**
+   * Also match POST requests on their body (Playwright's default). Off by default because bodies
+   * that change per run (timestamps, nonces) or were redacted on export would never match.
+   */
+  matchPostData?: boolean;
+}
+
+export interface HarExportOptions {
+  /**
+   * Mask credentials in URLs, headers and bodies (default). Turn off to record a fixture for
+   * replayFromHar(): redacted URLs and responses cannot be replayed. The file then holds the
+   * session's tokens, so record against test accounts only.
+   */
+  redact?: boolean;
 }
 
 type PageAriaRole = Parameters<Page['getByRole']>[0];
+type LocatorOptions = Parameters<Page['locator']>[1];
 type NetworkRequestSummary = {
   total: number;
   successful: number;
@@ -50,14 +90,20 @@ export abstract class BasePage {
   private networkRequests: NetworkRequestEntry[] = [];
   private isCapturingConsole: boolean = false;
   private isCapturingNetwork: boolean = false;
+  /** Selector suggestions per healed locator key, computed once per worker */
+  private static readonly healingSuggestions = new Map<string, string[]>();
+  /** Locators (profile and key) whose element fingerprint was already taken in this worker */
+  private static readonly fingerprintedLocators = new Set<string>();
 
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
     this.page = page;
     this.url = url;
-    this.logger = new Logger(this.constructor.name);
+    // Page objects log under their class name; a 'BasePage' level override applies to all of them
+    this.logger = new Logger(this.constructor.name, undefined, ['BasePage']);
     if (testInfo) {
       this.screenshotHelper = new ScreenshotHelper(page, testInfo);
     }
+    SoftAssertions.current?.usePage(page);
   }
   
   /**
@@ -121,11 +167,22 @@ export abstract class BasePage {
     return this.page.getByTestId(testId);
   }
 
-  /** Generic wrapper for page.locator(cssOrOtherSelector) */
+  /**
+   * Generic wrapper for page.locator(cssOrOtherSelector). Frame chains
+   * ('frame[name=pay] >> input') and shadow hosts ('shadow=payment-form >> input') are resolved
+   * inside the frames and shadow roots, and a named locator resolves to its
+   * primary selector inside its frame (no auto-healing, use getLocator() for that).
+   */
   protected locator(
-    selector: Parameters<Page['locator']>[0],
-    options?: Parameters<Page['locator']>[1]
+    selector: Parameters<Page['locator']>[0] | LocatorDescriptor,
+    options?: LocatorOptions
   ): Locator {
+    if (isLocatorDescriptor(selector)) {
+      return this.locateCandidate(selector.candidates[0], selector).filter(options);
+    }
+    if (hasFrameChain(selector) || hasShadowSegment(selector)) {
+      return locateInFrames(this.page, selector).filter(options);
+    }
     return this.page.locator(selector as any, options as any);
   }
 
@@ -139,22 +196,37 @@ export abstract class BasePage {
   
   /**
    * Get locator for the specified selector
-   * @param selector The selector string or locator object
+   * @param selector The selector string, locator object, candidate array or named locator (defineLocators).
+   *   Selector strings may cross frames: 'frame[name=pay] >> frame#card >> input[name=cvv]'
    * @returns Locator object
    */
   protected async getLocator(selector: SelectorDefinition): Promise<Locator> {
     if (Array.isArray(selector)) {
       return await this.resolveAutoHealingSelector(selector);
     }
+    if (isLocatorDescriptor(selector)) {
+      if (selector.candidates.length > 1) {
+        return await this.resolveAutoHealingSelector(selector.candidates, selector);
+      }
+      return this.locateCandidate(selector.candidates[0], selector);
+    }
     if (typeof selector === 'string') {
-      return this.page.locator(selector);
+      return locateInFrames(this.page, selector);
     }
     return selector;
   }
+
+  /**
+   * Locator for one selector string: inside the named locator's frame (if any), following frame chains
+   */
+  private locateCandidate(selector: string, descriptor?: LocatorDescriptor): Locator {
+    const root = descriptor?.frame ? frameLocatorFor(this.page, descriptor.frame) : this.page;
+    return locateInFrames(root, selector);
+  }
   /** Apply a temporary red highlight by saving previous inline style in dataset._prevStyle. */
   protected async highlight(locator: Locator): Promise<void> {
     // Check if element highlighting is enabled
-    const shouldHighlight = (global as any).selectedProfile?.elementHighlight;
+    const shouldHighlight = getProfile().elementHighlight;
     
     if (!shouldHighlight) {
       return; // Skip highlighting if disabled
@@ -175,7 +247,7 @@ export abstract class BasePage {
   /** Restore previous inline style saved by `highlight`. Safe to call anytime. */
   protected async unhighlight(locator: Locator): Promise<void> {
     // Check if element highlighting is enabled
-    const shouldHighlight = (global as any).selectedProfile?.elementHighlight;
+    const shouldHighlight = getProfile().elementHighlight;
     
     if (!shouldHighlight) {
       return; // Skip unhighlighting if disabled
@@ -440,7 +512,11 @@ export abstract class BasePage {
     const locator = await this.getLocator(selector);
     await this.highlight(locator);
     try {
-      await expect(locator, message).toBeVisible();
+      if (this.isSoft(false)) {
+        await this.softExpect(`${this.describeSelector(selector)} is visible`, locator, message, assertion => assertion.toBeVisible());
+      } else {
+        await expect(locator, message).toBeVisible();
+      }
       if (this.page) await this.page.waitForTimeout(120);
     } finally {
       await this.unhighlight(locator);
@@ -508,6 +584,7 @@ export abstract class BasePage {
 
   /**
    * Click on an element inside an iframe
+   * @deprecated Use a frame chain selector with the regular action, e.g. `click('iframe#payment >> button#pay')`
    * @param iframeSelector Selector for the iframe element, or frame name, or URL pattern
    * @param elementSelector Selector for the element inside the iframe
    * @param timeout Optional timeout in milliseconds (default: 5000ms)
@@ -539,6 +616,7 @@ export abstract class BasePage {
 
   /**
    * Fill an input field inside an iframe
+   * @deprecated Use a frame chain selector with the regular action, e.g. `fill('iframe#payment >> input[name=cvv]', value)`
    * @param iframeSelector Selector for the iframe element, or frame name, or URL pattern
    * @param elementSelector Selector for the input element inside the iframe
    * @param value The value to fill
@@ -571,6 +649,7 @@ export abstract class BasePage {
 
   /**
    * Wait for element to be visible inside an iframe
+   * @deprecated Use a frame chain selector with the regular action, e.g. `waitForVisible('iframe#payment >> .status')`
    * @param iframeSelector Selector for the iframe element, or frame name, or URL pattern
    * @param elementSelector Selector for the element inside the iframe
    * @param timeout Optional timeout in milliseconds (default: 5000ms)
@@ -597,6 +676,7 @@ export abstract class BasePage {
 
   /**
    * Upload file(s) via button click inside an iframe that opens a file dialog
+   * @deprecated Use a frame chain selector with the regular action, e.g. `uploadFileViaButton('iframe#upload >> button', filePath)`
    * Use this method when clicking a button inside an iframe opens Windows file manager or file chooser dialog
    * @param iframeSelector Selector for the iframe element, or frame name, or URL pattern
    * @param buttonSelector Selector for the button inside the iframe that triggers the file dialog
@@ -796,16 +876,23 @@ export abstract class BasePage {
 
   /**
    * Perform a visual comparison against a stored baseline image.
-   * On first run (no baseline), the current screenshot becomes the baseline and the check passes.
+   * On first run (no baseline), the current screenshot becomes the baseline and the check passes;
+   * in strict mode (profile visual.strict, on in CI) the check fails instead.
+   * Review failures with `npm run visual-baselines -- list` and approve or reject them there.
    *
    * @param name Logical name of the screenshot (e.g. 'google-home')
    * @param threshold Allowed difference (default 1% of pixels)
    * @param thresholdType 'percent' (0–1) or absolute 'pixel' count
+   * @param ignore Dynamic content to leave out (selectors, locators or `{ x, y, width, height }`);
+   *   saved with the baseline and reused when omitted, `[]` clears the saved regions
+   * @param comparison Diff algorithm and its tolerances for this page, over the profile `visual` defaults
    */
   async compareScreenshot(
     name: string,
     threshold: number = 0.01,
-    thresholdType: 'percent' | 'pixel' = 'percent'
+    thresholdType: 'percent' | 'pixel' = 'percent',
+    ignore?: Array<SelectorDefinition | IgnoreRect>,
+    comparison: VisualDiffSettings = {}
   ): Promise<void> {
     if (!this.screenshotHelper) {
       this.logger.warn('ScreenshotHelper not initialized; visual comparison skipped');
@@ -813,31 +900,29 @@ export abstract class BasePage {
     }
 
     const result = await this.screenshotHelper.compareWithBaseline(name, {
+      ...comparison,
       threshold,
-      thresholdType
+      thresholdType,
+      ...(ignore ? { ignore: await this.resolveIgnoreTargets(ignore) } : {})
     });
 
     // If baseline was just created, diffPixels will be zero and passed=true
-    this.logger.info(
-      `Visual compare for "${name}" – diffPixels: ${result.diffPixels}, diffRatio: ${
-        result.diffRatio * 100
-      }%, passed: ${result.passed}`
-    );
+    this.logger.info(`Visual compare for ${describeVisualResult(name, result)}`);
 
-    expect(
-      result.passed,
-      `Visual comparison failed for "${name}". See baseline: ${result.baselinePath}, actual: ${result.actualPath}, diff: ${result.diffPath}`
-    ).toBe(true);
+    expect(result.passed, this.visualFailureMessage('Visual comparison', name, result)).toBe(true);
   }
 
   /**
    * Perform a visual comparison for a specific element/locator against a baseline image.
+   * Rectangles in `ignore` are relative to the element's top left corner.
    */
   async compareElementScreenshot(
     selector: SelectorDefinition,
     name: string,
     threshold: number = 0.01,
-    thresholdType: 'percent' | 'pixel' = 'percent'
+    thresholdType: 'percent' | 'pixel' = 'percent',
+    ignore?: Array<SelectorDefinition | IgnoreRect>,
+    comparison: VisualDiffSettings = {}
   ): Promise<void> {
     if (!this.screenshotHelper) {
       this.logger.warn('ScreenshotHelper not initialized; element visual comparison skipped');
@@ -846,20 +931,78 @@ export abstract class BasePage {
 
     const locator = await this.getLocator(selector);
     const result = await this.screenshotHelper.compareElementWithBaseline(locator, name, {
+      ...comparison,
       threshold,
-      thresholdType
+      thresholdType,
+      ...(ignore ? { ignore: await this.resolveIgnoreTargets(ignore) } : {})
     });
 
-    this.logger.info(
-      `Element visual compare for "${name}" – diffPixels: ${result.diffPixels}, diffRatio: ${
-        result.diffRatio * 100
-      }%, passed: ${result.passed}`
-    );
+    this.logger.info(`Element visual compare for ${describeVisualResult(name, result)}`);
+
+    expect(result.passed, this.visualFailureMessage('Element visual comparison', name, result)).toBe(true);
+  }
+
+  /**
+   * Compare the page at every breakpoint against that width's baseline, and check the layout there
+   * (horizontal overflow, overlapping elements) when enabled in the options or profile `visual.layoutChecks`.
+   * Every breakpoint is checked before failing, so one run reports all of them.
+   *
+   * @param name Logical name of the screenshot; each breakpoint gets its own baseline (`home-mobile`)
+   * @param breakpoints Widths or `{ name, width, height, device }`; default: the profile `visual.breakpoints`
+   * @param options Comparison settings for every breakpoint, plus `compare`, `overflow` and `overlap`
+   *
+   * @example
+   * await homePage.sweepBreakpoints('home', [375, { name: 'tablet', device: 'iPad Mini' }, 1280], { overflow: true });
+   */
+  async sweepBreakpoints(
+    name: string,
+    breakpoints?: Array<number | BreakpointConfig>,
+    options: BreakpointSweepOptions = {}
+  ): Promise<void> {
+    if (!this.screenshotHelper) {
+      this.logger.warn('ScreenshotHelper not initialized; breakpoint sweep skipped');
+      return;
+    }
 
-    expect(
-      result.passed,
-      `Element visual comparison failed for "${name}". See baseline: ${result.baselinePath}, actual: ${result.actualPath}, diff: ${result.diffPath}`
-    ).toBe(true);
+    const results = await this.screenshotHelper.sweepBreakpoints(name, breakpoints, options);
+    const failures: string[] = [];
+    results.forEach(result => {
+      const at = `${result.breakpoint} (${result.viewport.width}x${result.viewport.height})`;
+      if (result.comparison) {
+        this.logger.info(`Visual compare at ${at} for ${describeVisualResult(name, result.comparison)}`);
+        if (!result.comparison.passed) {
+          failures.push(`${at}: ${this.visualFailureMessage('Visual comparison', `${name}-${result.breakpoint}`, result.comparison)}`);
+        }
+      }
+      result.layoutIssues.forEach(issue => failures.push(`${at}: ${issue}`));
+    });
+
+    expect(failures, `Breakpoint sweep failed for "${name}":\n${failures.join('\n')}`).toEqual([]);
+  }
+
+  /**
+   * Ignore targets for ScreenshotHelper: selector definitions become locators (with healing), rectangles stay
+   */
+  private resolveIgnoreTargets(ignore: Array<SelectorDefinition | IgnoreRect>): Promise<IgnoreTarget[]> {
+    return Promise.all(ignore.map(target => {
+      const isRect = typeof target === 'object' && !Array.isArray(target) && 'width' in target && 'height' in target;
+      return isRect ? target as IgnoreRect : this.getLocator(target as SelectorDefinition);
+    }));
+  }
+
+  private visualFailureMessage(check: string, name: string, result: VisualCompareResult): string {
+    if (result.status === 'missing') {
+      const id = result.id ?? path.basename(result.baselinePath, '.png');
+      const keys = result.baselineKeys ?? [];
+      const lookedIn = keys.length > 1 ? ` (also looked under ${keys.slice(1).map(key => key || 'baseline/').join(', ')})` : '';
+      return `${check} failed for "${name}": no baseline for key ${keys[0] || '(none)'} at ${result.baselinePath}${lookedIn}, strict mode. ` +
+        `Review ${result.actualPath} and approve it with \`npm run visual-baselines -- approve ${id}\`, or run with UPDATE_BASELINES=true`;
+    }
+    if (result.fallbackKey !== undefined) {
+      return `${check} failed for "${name}" against the ${result.fallbackKey || 'unkeyed'} baseline (no ${result.baselineKeys?.[0]} baseline yet). ` +
+        `See baseline: ${result.baselinePath}, actual: ${result.actualPath}, diff: ${result.diffPath}`;
+    }
+    return `${check} failed for "${name}". See baseline: ${result.baselinePath}, actual: ${result.actualPath}, diff: ${result.diffPath}`;
   }
 
   /**
@@ -888,13 +1031,40 @@ export abstract class BasePage {
     return new Promise((resolve) => { setTimeout(resolve, timeout); });
   }
 
+  /**
+   * Whether a check is soft: asked for with `softAssert`, or running inside a softly() block
+   */
+  private isSoft(softAssert: boolean): boolean {
+    return softAssert || (SoftAssertions.current?.isCollecting() ?? false);
+  }
+
+  /**
+   * Soft assertion: recorded by the test's SoftAssertions collector (screenshot now, summary table at
+   * the end of the test) or, outside BaseTest, a plain expect.soft
+   * @returns true when the assertion passed
+   */
+  private async softExpect<T>(
+    description: string,
+    actual: T,
+    message: string | undefined,
+    matcher: (assertion: ReturnType<typeof expect<T>>) => unknown
+  ): Promise<boolean> {
+    const collector = SoftAssertions.current;
+    if (!collector) {
+      const failuresBefore = test.info().errors.length;
+      await matcher(expect.soft(actual, message));
+      return test.info().errors.length === failuresBefore;
+    }
+    return collector.check(description, () => matcher(expect(actual, message)), this.page);
+  }
+
   /**
    * Verify page title
    */
   async verifyTitle(expectedTitle: string, softAssert: boolean = false): Promise<void> {
     const actualTitle = await this.getTitle();
-    if (softAssert) {
-      expect.soft(actualTitle).toBe(expectedTitle);
+    if (this.isSoft(softAssert)) {
+      await this.softExpect(`page title is "${expectedTitle}"`, actualTitle, undefined, assertion => assertion.toBe(expectedTitle));
     } else {
       expect(actualTitle).toBe(expectedTitle);
     }
@@ -919,11 +1089,13 @@ export abstract class BasePage {
    * @returns True if text matches, false otherwise
    */
   async getTextAndCompare(selector: SelectorDefinition, expectedText: string, exactMatch: boolean = true, softAssert: boolean = false): Promise<boolean> {
+    const description = `text of ${this.describeSelector(selector)}`;
+    const soft = this.isSoft(softAssert);
     if (expectedText === undefined || expectedText === null) {
       const msg = `Expected text is undefined or null for selector: ${this.describeSelector(selector)}`;
       this.logger.error(msg);
-      if (softAssert) {
-        expect.soft(expectedText as any, msg).toBeDefined();
+      if (soft) {
+        await this.softExpect(description, expectedText as any, msg, assertion => assertion.toBeDefined());
         return false;
       }
       throw new Error(msg);
@@ -933,11 +1105,16 @@ export abstract class BasePage {
     try {
       actualText = await this.getText(selector);
     } catch (error) {
-      if (softAssert) {
+      if (soft) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         // Using null as actual value to indicate failure to retrieve text
         // This will fail the soft assertion
-        expect.soft(null, `Failed to get text from element: ${this.describeSelector(selector)}. Error: ${errorMessage}`).toBe(expectedText);
+        await this.softExpect(
+          description,
+          null,
+          `Failed to get text from element: ${this.describeSelector(selector)}. Error: ${errorMessage}`,
+          assertion => assertion.toBe(expectedText)
+        );
         this.logger.error(`Soft assertion failed: Could not get text from element. ${errorMessage}`);
         return false;
       }
@@ -960,11 +1137,21 @@ export abstract class BasePage {
       isMatch = normalizedActual.includes(normalizedExpected);
     }
     
-    if (softAssert) {
+    if (soft) {
       if (exactMatch) {
-        expect.soft(normalizedActual, `Text mismatch! Expected: "${normalizedExpected}", Actual: "${normalizedActual}"`).toBe(normalizedExpected);
+        await this.softExpect(
+          description,
+          normalizedActual,
+          `Text mismatch! Expected: "${normalizedExpected}", Actual: "${normalizedActual}"`,
+          assertion => assertion.toBe(normalizedExpected)
+        );
       } else {
-        expect.soft(normalizedActual, `Text mismatch! Expected "${normalizedActual}" to contain "${normalizedExpected}"`).toContain(normalizedExpected);
+        await this.softExpect(
+          description,
+          normalizedActual,
+          `Text mismatch! Expected "${normalizedActual}" to contain "${normalizedExpected}"`,
+          assertion => assertion.toContain(normalizedExpected)
+        );
       }
     }
 
@@ -978,13 +1165,12 @@ export abstract class BasePage {
     exactMatch: boolean = true,
     softAssert: boolean = false
   ): Promise<boolean> {
-    await Promise.resolve();
-
+    const soft = this.isSoft(softAssert);
     if (expectedText === undefined || expectedText === null) {
       const msg = 'Expected text is undefined or null';
       this.logger.error(msg);
-      if (softAssert) {
-        expect.soft(expectedText as any, msg).toBeDefined();
+      if (soft) {
+        await this.softExpect('text value', expectedText as any, msg, assertion => assertion.toBeDefined());
         return false;
       }
       throw new Error(msg);
@@ -1001,15 +1187,21 @@ export abstract class BasePage {
       ? normalizedActual === normalizedExpected
       : normalizedActual.includes(normalizedExpected);
 
-    if (softAssert) {
+    if (soft) {
       if (exactMatch) {
-        expect.soft(normalizedActual, `Text mismatch! Expected: "${normalizedExpected}", Actual: "${normalizedActual}"`).toBe(
-          normalizedExpected
+        await this.softExpect(
+          `text value "${normalizedExpected}"`,
+          normalizedActual,
+          `Text mismatch! Expected: "${normalizedExpected}", Actual: "${normalizedActual}"`,
+          assertion => assertion.toBe(normalizedExpected)
         );
       } else {
-        expect
-          .soft(normalizedActual, `Text mismatch! Expected "${normalizedActual}" to contain "${normalizedExpected}"`)
-          .toContain(normalizedExpected);
+        await this.softExpect(
+          `text value contains "${normalizedExpected}"`,
+          normalizedActual,
+          `Text mismatch! Expected "${normalizedActual}" to contain "${normalizedExpected}"`,
+          assertion => assertion.toContain(normalizedExpected)
+        );
       }
     } else if (exactMatch) {
       expect(normalizedActual, `Text mismatch! Expected: "${normalizedExpected}", Actual: "${normalizedActual}"`).toBe(
@@ -1046,7 +1238,15 @@ export abstract class BasePage {
     this.logger.info(`Expected: "${expectedText}"`);
     this.logger.info(`Actual: "${actualText}"`);
     
-    if (exactMatch) {
+    if (this.isSoft(false)) {
+      const passed = await this.softExpect(
+        `text of ${this.describeSelector(selector)}`,
+        actualText,
+        undefined,
+        assertion => (exactMatch ? assertion.toBe(expectedText) : assertion.toContain(expectedText))
+      );
+      if (!passed) return;
+    } else if (exactMatch) {
       expect(actualText).toBe(expectedText);
     } else {
       expect(actualText).toContain(expectedText);
@@ -1469,7 +1669,100 @@ export abstract class BasePage {
     await this.page.keyboard.insertText(text);
   }
 
+  /**
+   * Record that a fallback candidate replaced the primary selector, for the healing cache and report
+   */
+  private async recordHealing(
+    key: string,
+    pageName: string,
+    profileName: string,
+    selectors: Array<string | Locator>,
+    matched: string | Locator,
+    locator: Locator
+  ): Promise<void> {
+    let suggestions = BasePage.healingSuggestions.get(key);
+    if (!suggestions) {
+      suggestions = await suggestSelectors(this.page, locator);
+      BasePage.healingSuggestions.set(key, suggestions);
+    }
+    healingCache.recordHealing({
+      key,
+      profile: profileName,
+      page: pageName,
+      candidates: selectors.map(candidate => this.describeSelector(candidate)),
+      matched: this.describeSelector(matched),
+      suggestions
+    });
+  }
+
+  /**
+   * Store the fingerprint of the element a locator resolved to (once per locator and worker)
+   */
+  private async rememberFingerprint(key: string, profileName: string, locator: Locator): Promise<void> {
+    const id = `${profileName}\u0000${key}`;
+    if (BasePage.fingerprintedLocators.has(id)) return;
+    BasePage.fingerprintedLocators.add(id);
+
+    const fingerprint = await captureFingerprint(locator);
+    if (fingerprint) {
+      healingCache.recordFingerprint({ key, profile: profileName, fingerprint });
+    }
+  }
+
+  /**
+   * Last resort when no candidate matches: the page element that best matches the stored fingerprint
+   */
+  private async healByFingerprint(
+    key: string,
+    pageName: string,
+    profileName: string,
+    selectors: Array<string | Locator>,
+    threshold: number
+  ): Promise<Locator | undefined> {
+    const fingerprint = healingCache.getFingerprint(profileName, key);
+    if (!fingerprint) {
+      this.logger.debug(`Fingerprint healing: no fingerprint stored for ${key}`);
+      return undefined;
+    }
+
+    const result = await findByFingerprint(this.page, fingerprint, threshold);
+    if (!result.match) {
+      this.logger.warn(`Fingerprint healing found no element for ${key}: ${result.reason}`);
+      return undefined;
+    }
+
+    const { selector, score, breakdown } = result.match;
+    this.logger.warn(
+      'Auto-healing: every candidate failed, using the element matching the stored fingerprint ' +
+      `(score ${score.toFixed(2)}, threshold ${threshold}): ${selector}. Update the locator: ${key}`
+    );
+    const locator = this.page.locator(selector);
+    let suggestions = BasePage.healingSuggestions.get(key);
+    if (!suggestions) {
+      suggestions = await suggestSelectors(this.page, locator);
+      BasePage.healingSuggestions.set(key, suggestions);
+    }
+    healingCache.recordHealing({
+      key,
+      profile: profileName,
+      page: pageName,
+      candidates: selectors.map(candidate => this.describeSelector(candidate)),
+      matched: selector,
+      suggestions,
+      fingerprint: {
+        score,
+        threshold,
+        breakdown,
+        candidates: result.candidates.map(candidate => ({ selector: candidate.selector, score: candidate.score }))
+      }
+    });
+    return locator;
+  }
+
   private describeSelector(selector: SelectorDefinition): string {
+    if (isLocatorDescriptor(selector)) {
+      return selector.name;
+    }
     if (Array.isArray(selector)) {
       return selector.map(item => this.describeSelector(item)).join(' | ');
     }
@@ -1483,13 +1776,33 @@ export abstract class BasePage {
     }
   }
 
-  private async resolveAutoHealingSelector(selectors: Array<string | Locator>): Promise<Locator> {
+  /**
+   * Try each candidate in turn. Named locators are healed, cached and reported under their logical
+   * name and resolved inside their frame.
+   */
+  private async resolveAutoHealingSelector(selectors: Array<string | Locator>, descriptor?: LocatorDescriptor): Promise<Locator> {
     const failureMessages: string[] = [];
+    const key = descriptor ? descriptor.name : this.describeSelector(selectors);
+    const pageName = descriptor ? descriptor.page : this.constructor.name;
+    const profileName = getProfileName();
+    const autoHealing = getProfile().autoHealing;
+    // Fingerprints are only taken and searched in the main frame
+    const fingerprinting = Boolean(autoHealing?.fingerprint) && !descriptor?.frame &&
+      !selectors.some(candidate => typeof candidate === 'string' && hasFrameChain(candidate));
+
+    // The selector that won the last healing goes first, so a broken primary does not cost its timeout again
+    const preferred = healingCache.getPreferredSelector(profileName, key);
+    const preferredCandidate = selectors.find(candidate => this.describeSelector(candidate) === preferred);
+    const orderedSelectors = orderCandidates(selectors, preferredCandidate);
+    if (preferredCandidate) {
+      this.logger.debug(`Auto-healing cache: trying ${preferred} first`);
+    }
 
     let fallbackLocator: Locator | null = null;
+    let matched: { candidate: string | Locator; locator: Locator } | undefined;
 
-    for (const candidate of selectors) {
-      const locator = typeof candidate === 'string' ? this.page.locator(candidate) : candidate;
+    for (const candidate of orderedSelectors) {
+      const locator = typeof candidate === 'string' ? this.locateCandidate(candidate, descriptor) : candidate;
       try {
         const count = await locator.count();
         if (count === 0) {
@@ -1509,17 +1822,44 @@ export abstract class BasePage {
         }
 
         if (isVisible) {
-          this.logger.info(`Auto-healing matched selector (visible): ${this.describeSelector(candidate)}`);
+          this.logger.info(`Auto-healing matched selector (visible): ${this.describeSelector(candidate)}${descriptor ? ` for ${key}` : ''}`);
         } else {
-          this.logger.info(`Auto-healing matched selector (not yet visible): ${this.describeSelector(candidate)}`);
+          this.logger.info(`Auto-healing matched selector (not yet visible): ${this.describeSelector(candidate)}${descriptor ? ` for ${key}` : ''}`);
         }
-        return locator;
+        matched = { candidate, locator };
+        break;
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         failureMessages.push(`Error using selector ${this.describeSelector(candidate)}: ${message}`);
       }
     }
 
+    if (matched) {
+      if (matched.candidate !== selectors[0]) {
+        await this.recordHealing(key, pageName, profileName, selectors, matched.candidate, matched.locator);
+      } else if (preferred !== undefined) {
+        // The cached selector no longer matches but the primary does again: forget the healed selector
+        healingCache.recordRecovery({ key, profile: profileName });
+      }
+      if (fingerprinting) {
+        await this.rememberFingerprint(key, profileName, matched.locator);
+      }
+      return matched.locator;
+    }
+
+    if (autoHealing && fingerprinting) {
+      const healed = await this.healByFingerprint(
+        key,
+        pageName,
+        profileName,
+        selectors,
+        autoHealing.threshold ?? DEFAULT_FINGERPRINT_THRESHOLD
+      );
+      if (healed) {
+        return healed;
+      }
+    }
+
     if (fallbackLocator) {
       const fallbackDescription = this.describeSelector(fallbackLocator);
       this.logger.warn(
@@ -1528,7 +1868,7 @@ export abstract class BasePage {
       return fallbackLocator;
     }
 
-    const errorMessage = `Auto-healing failed. Tried selectors: ${failureMessages.join(' | ')}`;
+    const errorMessage = `Auto-healing failed${descriptor ? ` for ${key}` : ''}. Tried selectors: ${failureMessages.join(' | ')}`;
     this.logger.error(errorMessage);
     throw new Error(errorMessage);
   }
@@ -1551,7 +1891,7 @@ export abstract class BasePage {
       const type = msg.type() as 'log' | 'debug' | 'info' | 'warning' | 'error';
       
       if (logLevels.includes(type)) {
-        const text = msg.text();
+        const text = redactor.redact(msg.text());
         const location = msg.location();
         
         const logEntry: ConsoleLogEntry = {
@@ -1681,6 +2021,8 @@ export abstract class BasePage {
         // Ignore errors when reading request body
       }
 
+      // Entries are stored as sent and received (HAR replay and schema checks need the real values);
+      // the getters and every export hand out redacted copies
       const requestEntry: NetworkRequestEntry = {
         url,
         method,
@@ -1691,7 +2033,7 @@ export abstract class BasePage {
       };
 
       this.networkRequests.push(requestEntry);
-      this.logger.debug(`[Network Request] ${method} ${url}`);
+      this.logger.debug(`[Network Request] ${method} ${redactor.redact(url)}`);
     });
 
     this.page.on('response', async (response) => {
@@ -1700,8 +2042,8 @@ export abstract class BasePage {
       const status = response.status();
       const statusText = response.statusText();
 
-      // Find matching request entry
-      const requestEntry = this.networkRequests.find(req => req.url === url && req.method === method);
+      // Find the oldest matching request still waiting for its response
+      const requestEntry = this.networkRequests.find(req => req.url === url && req.method === method && req.status === undefined);
       
       if (requestEntry) {
         const startTime = requestEntry.timestamp.getTime();
@@ -1711,21 +2053,27 @@ export abstract class BasePage {
         requestEntry.statusText = statusText;
         requestEntry.responseHeaders = response.headers();
 
-        // Try to get response body for non-binary content
+        // JSON and text bodies are kept as such, anything else as base64
         try {
           const contentType = response.headers()['content-type'] || '';
           if (contentType.includes('application/json')) {
             requestEntry.responseBody = await response.json();
           } else if (contentType.includes('text/')) {
             requestEntry.responseBody = await response.text();
+          } else {
+            requestEntry.responseBody = (await response.body()).toString('base64');
+            requestEntry.responseBodyEncoding = 'base64';
           }
         } catch {
-          // Ignore errors when reading response body (may be binary or too large)
+          // Ignore errors when reading response body (redirects and aborted requests have none)
         }
+        requestEntry.timing = response.request().timing();
 
         // Log response
         const statusEmoji = status >= 200 && status < 300 ? '✅' : status >= 400 ? '❌' : '⚠️';
-        this.logger.info(`[Network Response] ${statusEmoji} ${method} ${url} - ${status} ${statusText} (${requestEntry.duration}ms)`);
+        this.logger.info(
+          `[Network Response] ${statusEmoji} ${method} ${redactor.redact(url)} - ${status} ${statusText} (${requestEntry.duration}ms)`
+        );
       }
     });
 
@@ -1750,13 +2098,13 @@ export abstract class BasePage {
   }
 
   /**
-   * Get all captured network requests
+   * Get all captured network requests (credentials redacted)
    * @param filterByStatus Optional filter by HTTP status code
    * @param filterByMethod Optional filter by HTTP method
    * @returns Array of network request entries
    */
   getNetworkRequests(filterByStatus?: number, filterByMethod?: string): NetworkRequestEntry[] {
-    let filtered = [...this.networkRequests];
+    let filtered = this.networkRequests.map(req => this.redactNetworkRequest(req));
 
     if (filterByStatus !== undefined) {
       filtered = filtered.filter(req => req.status === filterByStatus);
@@ -1774,7 +2122,7 @@ export abstract class BasePage {
    * @returns Array of failed network request entries
    */
   getFailedNetworkRequests(): NetworkRequestEntry[] {
-    return this.networkRequests.filter(req => req.status !== undefined && req.status >= 400);
+    return this.getNetworkRequests().filter(req => req.status !== undefined && req.status >= 400);
   }
 
   /**
@@ -1782,7 +2130,7 @@ export abstract class BasePage {
    * @returns Array of successful network request entries
    */
   getSuccessfulNetworkRequests(): NetworkRequestEntry[] {
-    return this.networkRequests.filter(req => req.status !== undefined && req.status >= 200 && req.status < 300);
+    return this.getNetworkRequests().filter(req => req.status !== undefined && req.status >= 200 && req.status < 300);
   }
 
   /**
@@ -1792,7 +2140,15 @@ export abstract class BasePage {
    */
   getNetworkRequestsByUrl(urlPattern: string | RegExp): NetworkRequestEntry[] {
     const pattern = typeof urlPattern === 'string' ? new RegExp(urlPattern) : urlPattern;
-    return this.networkRequests.filter(req => pattern.test(req.url));
+    return this.getNetworkRequests().filter(req => pattern.test(req.url));
+  }
+
+  /**
+   * Captured network requests as sent and received, without redaction. For assertions only
+   * (NetworkMatchers validates bodies against these): never log or save them.
+   */
+  getUnredactedNetworkRequests(): NetworkRequestEntry[] {
+    return [...this.networkRequests];
   }
 
   /**
@@ -1833,6 +2189,20 @@ export abstract class BasePage {
     };
   }
 
+  /**
+   * Copy of a captured entry with credentials masked in the URL, headers and bodies
+   */
+  private redactNetworkRequest(entry: NetworkRequestEntry): NetworkRequestEntry {
+    return {
+      ...entry,
+      url: redactor.redact(entry.url),
+      requestHeaders: entry.requestHeaders && redactor.redactHeaders(entry.requestHeaders),
+      responseHeaders: entry.responseHeaders && redactor.redactHeaders(entry.responseHeaders),
+      requestBody: redactor.redactValue(entry.requestBody),
+      responseBody: entry.responseBodyEncoding === 'base64' ? entry.responseBody : redactor.redactValue(entry.responseBody)
+    };
+  }
+
   /**
    * Ensure log directory exists
    */
@@ -1897,7 +2267,7 @@ export abstract class BasePage {
     });
 
     try {
-      await fs.promises.writeFile(filePath, content, 'utf8');
+      await fs.promises.writeFile(filePath, redactor.redact(content), 'utf8');
       this.logger.info(`Console logs saved to: ${filePath}`);
       return filePath;
     } catch (error) {
@@ -1939,7 +2309,7 @@ export abstract class BasePage {
     }
 
     try {
-      await fs.promises.writeFile(filePath, content, 'utf8');
+      await fs.promises.writeFile(filePath, redactor.redact(content), 'utf8');
       this.logger.info(`Console errors saved to: ${filePath}`);
       return filePath;
     } catch (error) {
@@ -2004,7 +2374,9 @@ export abstract class BasePage {
           });
         }
         
-        if (req.responseBody) {
+        if (req.responseBody && req.responseBodyEncoding === 'base64') {
+          content += `    Response Body: (binary, ${Buffer.byteLength(req.responseBody as string, 'base64')} bytes)\n`;
+        } else if (req.responseBody) {
           const bodyStr = typeof req.responseBody === 'string' 
             ? req.responseBody 
             : JSON.stringify(req.responseBody, null, 2);
@@ -2031,7 +2403,7 @@ export abstract class BasePage {
     });
 
     try {
-      await fs.promises.writeFile(filePath, content, 'utf8');
+      await fs.promises.writeFile(filePath, redactor.redact(content), 'utf8');
       this.logger.info(`Network requests saved to: ${filePath}`);
       return filePath;
     } catch (error) {
@@ -2080,7 +2452,7 @@ export abstract class BasePage {
     }
 
     try {
-      await fs.promises.writeFile(filePath, content, 'utf8');
+      await fs.promises.writeFile(filePath, redactor.redact(content), 'utf8');
       this.logger.info(`Failed network requests saved to: ${filePath}`);
       return filePath;
     } catch (error) {
@@ -2089,6 +2461,144 @@ export abstract class BasePage {
     }
   }
 
+  /**
+   * Captured network requests as a HAR 1.2 log (requests without a response are left out)
+   * @param options Redaction of the exported copy (on by default)
+   */
+  getNetworkRequestsAsHar(options: HarExportOptions = {}): Har {
+    return buildHar(options.redact === false ? this.getUnredactedNetworkRequests() : this.getNetworkRequests());
+  }
+
+  /**
+   * Save captured network requests as a HAR 1.2 file in the log folder.
+   * The file can be opened in browser dev tools; save it with `redact: false` to replay it with replayFromHar().
+   * @param fileName Optional custom file name (default: auto-generated)
+   * @param options Redaction of the exported copy (on by default)
+   * @returns Path to the saved file
+   *
+   * @example
+   * await this.saveNetworkRequestsToHar('payment.har', { redact: false }); // fixture for replayFromHar()
+   */
+  async saveNetworkRequestsToHar(fileName?: string, options: HarExportOptions = {}): Promise<string> {
+    this.ensureLogDirectory();
+    const logDir = path.join(process.cwd(), 'log');
+    const file = fileName || this.generateLogFileName('network-requests', 'har');
+    const filePath = path.join(logDir, file);
+
+    const har = this.getNetworkRequestsAsHar(options);
+    try {
+      await fs.promises.writeFile(filePath, JSON.stringify(har, null, 2), 'utf8');
+      this.logger.info(`Network requests saved as HAR (${har.log.entries.length} entries) to: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      this.logger.error(`Failed to save network requests as HAR: ${filePath}`, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serve network requests from a recorded HAR file instead of the network, e.g. to stub
+   * third-party services (payment, OTP) with a session recorded against preprod.
+   * Call before the page makes the requests. Requests are matched on URL and method (and POST body with `matchPostData`).
+   * @param harFile Path to the HAR file (relative paths are resolved from the project root)
+   * @param options URL filter and the behaviour for requests missing from the HAR
+   *
+   * @example
+   * await checkoutPage.replayFromHar('test/fixtures/payment.har', { urlFilter: /payments\.example\.com/, notFound: 'fallback' });
+   */
+  async replayFromHar(harFile: string, options: HarReplayOptions = {}): Promise<void> {
+    const filePath = path.resolve(process.cwd(), harFile);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`HAR file not found: ${filePath}`);
+    }
+    const notFound = options.notFound ?? 'abort';
+    if (options.matchPostData) {
+      await this.page.routeFromHAR(filePath, { url: options.urlFilter, notFound });
+    } else {
+      const harPath = this.writeHarWithoutPostData(filePath);
+      try {
+        // The HAR is read when the route is set up, so the temporary copy can go right after
+        await this.page.routeFromHAR(harPath, { url: options.urlFilter, notFound });
+      } finally {
+        fs.rmSync(path.dirname(harPath), { recursive: true, force: true });
+      }
+    }
+    this.logger.info(
+      `Replaying network from HAR: ${filePath}${options.urlFilter ? ` (URL: ${options.urlFilter})` : ''}, not found: ${notFound}`
+    );
+  }
+
+  /**
+   * Stub requests matching a URL glob or regex (see NetworkMocker.mockRoute).
+   * With an array of responses, each call gets the next one and the last one is repeated.
+   * Mocks are shared by every page object on the same page and removed at test end.
+   * @returns The mock name, for expectMockCalled()
+   *
+   * @example
+   * await this.mockRoute(/\/analytics\//, { status: 204 });
+   * await this.mockRoute('https://cdn.example.com/config.js', { abort: 'failed' }, { name: 'cdnConfig' });
+   */
+  mockRoute(url: string | RegExp, response?: MockResponse | MockResponse[], options?: MockRouteOptions): Promise<string> {
+    return NetworkMocker.forPage(this.page).mockRoute(url, response, options);
+  }
+
+  /**
+   * Stub a JSON API under a name; responses default to status 200 and `application/json`,
+   * with the body from `json` or a `jsonFile` in test/data.
+   *
+   * @example
+   * await this.mockApi('verifyOtp', /\/api\/otp\/verify$/, { jsonFile: 'mocks/otpValid.json', delay: 300 }, { method: 'POST' });
+   */
+  mockApi(
+    name: string,
+    url: string | RegExp,
+    response?: MockResponse | MockResponse[],
+    options?: Omit<MockRouteOptions, 'name'>
+  ): Promise<string> {
+    return NetworkMocker.forPage(this.page).mockApi(name, url, response, options);
+  }
+
+  /**
+   * Assert that a mock was called exactly `times` times (at least once when omitted), waiting up to `timeout` ms
+   */
+  async expectMockCalled(name: string, times?: number, timeout?: number): Promise<void> {
+    await NetworkMocker.forPage(this.page).expectMockCalled(name, times, timeout);
+  }
+
+  /**
+   * Requests intercepted by a mock so far
+   */
+  getMockCalls(name: string): MockCall[] {
+    return NetworkMocker.forPage(this.page).getMockCalls(name);
+  }
+
+  /**
+   * Remove every mock registered on this page
+   */
+  async clearMocks(): Promise<void> {
+    await NetworkMocker.forPage(this.page).clearMocks();
+  }
+
+  /**
+   * Write a copy of the HAR without request bodies to a temporary folder (removed by the caller).
+   * Bodies stored in files next to the HAR (`_file`) are referenced by absolute path in the copy.
+   */
+  private writeHarWithoutPostData(filePath: string): string {
+    let har: Har;
+    try {
+      har = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Invalid HAR file ${filePath}: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(har?.log?.entries)) {
+      throw new Error(`Invalid HAR file ${filePath}: missing log.entries`);
+    }
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-replay-'));
+    const tempPath = path.join(tempDir, path.basename(filePath));
+    fs.writeFileSync(tempPath, JSON.stringify(withoutPostData(har, path.dirname(filePath))), 'utf8');
+    return tempPath;
+  }
+
   /**
    * Save all captured data (console logs and network requests) to files
    * @param prefix Optional prefix for file names
@@ -2099,6 +2609,7 @@ export abstract class BasePage {
     consoleErrors: string;
     networkRequests: string;
     failedRequests: string;
+    networkHar: string;
   }> {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').split('.')[0];
     const filePrefix = prefix ? `${prefix}_${timestamp}` : timestamp;
@@ -2107,6 +2618,7 @@ export abstract class BasePage {
     const consoleErrors = await this.saveConsoleErrorsToFile(`console-errors_${filePrefix}.txt`);
     const networkRequests = await this.saveNetworkRequestsToFile(`network-requests_${filePrefix}.txt`);
     const failedRequests = await this.saveFailedNetworkRequestsToFile(`network-errors_${filePrefix}.txt`);
+    const networkHar = await this.saveNetworkRequestsToHar(`network-requests_${filePrefix}.har`);
 
     this.logger.info('All captured data saved to log folder');
     
@@ -2114,7 +2626,8 @@ export abstract class BasePage {
       consoleLogs,
       consoleErrors,
       networkRequests,
-      failedRequests
+      failedRequests,
+      networkHar
     };
   }
 }
@@ -1,14 +1,105 @@
-import { test as base, Page, BrowserContext } from '@playwright/test';
+import { test as base, expect as baseExpect, Page, BrowserContext } from '@playwright/test';
 import { Logger } from '../utils/Logger';
 import { ScreenshotHelper } from '../utils/ScreenshotHelper';
+import { NetworkMocker } from '../utils/NetworkMocker';
+import { networkMatchers } from '../utils/NetworkMatchers';
+import { ConsoleErrorMonitor, resolveConsoleErrorsConfig } from '../utils/ConsoleErrorMonitor';
+import { HEALING_ATTACHMENT, healingCache } from '../utils/HealingCache';
+import { SoftAssertions } from '../utils/SoftAssertions';
+import { logManager } from '../utils/LogManager';
+import { ProfileOptions, getProfile, getProfileName } from '../utils/ProfileContext';
+import { allure } from 'allure-playwright';
 import * as fs from 'fs';
 
 export interface TestFixtures {
   logger: Logger;
   screenshotHelper: ScreenshotHelper;
+  networkMock: NetworkMocker;
+  profileLabel: void;
+  testLog: void;
+  healingEvents: void;
+  softAssertions: SoftAssertions;
 }
 
-export const test = base.extend<TestFixtures>({
+export const test = base.extend<TestFixtures & ProfileOptions>({
+  // Resolved environment profile; set per project through `use.profile` in playwright.config.ts
+  profile: [async ({}, use) => {
+    await use(getProfile());
+  }, { option: true }],
+
+  // Structured logging: profile `logging` settings, test context (id, worker, retry, profile, step) on
+  // every log record, and the test's JSON-lines log file attached to the report
+  testLog: [async ({ profile }, use, testInfo) => {
+    logManager.configure(profile.logging);
+    const logFile = logManager.startTest(testInfo, getProfileName(testInfo));
+    try {
+      await use();
+    } finally {
+      logManager.endTest();
+    }
+    if (logFile && fs.existsSync(logFile) && fs.statSync(logFile).size > 0) {
+      await testInfo.attach('test-log', { path: logFile, contentType: 'text/plain' });
+    }
+  }, { auto: true }],
+
+  // Tag every test with the profile it runs against (report annotation and Allure `environment` label)
+  profileLabel: [async ({}, use, testInfo) => {
+    const profileName = getProfileName(testInfo);
+    testInfo.annotations.push({ type: 'profile', description: profileName });
+    await allure.label('environment', profileName);
+    await use();
+  }, { auto: true }],
+
+  // Profile `consoleErrors`: record the browser console and fail ('fail') or annotate ('warn') the test
+  // when console errors or uncaught page exceptions are not in the allow-list. Wraps the browser
+  // context, so tests that never use a browser (API-only tests) do not start one
+  context: async ({ context, profile }, use, testInfo) => {
+    const config = resolveConsoleErrorsConfig(profile.consoleErrors);
+    if (config.mode === 'off') {
+      await use(context);
+      return;
+    }
+
+    const monitor = new ConsoleErrorMonitor(config);
+    monitor.attach(context);
+    await use(context);
+
+    if (monitor.getEntries().length > 0) {
+      await testInfo.attach('browser-console', { body: monitor.formatLog(), contentType: 'text/plain' });
+    }
+    const unexpected = monitor.getUnexpectedErrors();
+    if (unexpected.length === 0) return;
+
+    const message = monitor.formatUnexpectedErrors();
+    testInfo.annotations.push({ type: 'console-errors', description: `${unexpected.length} unexpected console error(s)` });
+    // A test that already failed keeps its own error; the annotation and attachment explain the rest
+    if (config.mode === 'fail' && testInfo.status === testInfo.expectedStatus) {
+      throw new Error(message);
+    }
+    new Logger(testInfo.title).warn(message);
+  },
+
+  // Hand the locators healed during the test to HealingReporter (healing cache and report)
+  healingEvents: [async ({}, use, testInfo) => {
+    healingCache.takePending();
+    await use();
+    const pending = healingCache.takePending();
+    if (pending.events.length > 0 || pending.fingerprints.length > 0 || pending.recovered.length > 0) {
+      await testInfo.attach(HEALING_ATTACHMENT, { body: JSON.stringify(pending, null, 2), contentType: 'application/json' });
+    }
+  }, { auto: true }],
+
+  // Collects the failures of softly() blocks and soft page object checks; fails the test at the end
+  softAssertions: [async ({}, use, testInfo) => {
+    const collector = SoftAssertions.start(testInfo);
+    try {
+      await use(collector);
+    } finally {
+      collector.stop();
+    }
+    await collector.finish();
+  }, { auto: true }],
+
   logger: async ({}, use, testInfo) => {
     const logger = new Logger(testInfo.title);
     logger.info(`Starting test: ${testInfo.title}`);
@@ -27,6 +118,38 @@ export const test = base.extend<TestFixtures>({
     const screenshotHelper = new ScreenshotHelper(page, testInfo);
     await use(screenshotHelper);
   },
+
+  // Request mocks for the test's page (shared with its page objects), removed when the test ends
+  networkMock: async ({ page }, use) => {
+    const mocker = NetworkMocker.forPage(page);
+    await use(mocker);
+    await mocker.clearMocks();
+  },
 });
 
-export { expect } from '@playwright/test';
+// Playwright's expect plus the network matchers (toHaveMadeRequest, toHaveNoFailedRequests, ...)
+export const expect = baseExpect.extend(networkMatchers);
+
+function currentSoftAssertions(): SoftAssertions {
+  const collector = SoftAssertions.current;
+  if (!collector) {
+    throw new Error('softly() and check() need a test from framework/core/BaseTest');
+  }
+  return collector;
+}
+
+/**
+ * Run a block with soft page object checks: failures are collected (with a screenshot) and reported
+ * together when the test ends, instead of stopping the test
+ */
+export function softly(block: () => Promise<void> | void): Promise<void> {
+  return currentSoftAssertions().softly(block);
+}
+
+/**
+ * Run one assertion softly, e.g. `await check('badge count', () => expect(badge).toHaveText('1'))`
+ * @returns true when the assertion passed
+ */
+export function check(description: string, assertion: () => unknown, page?: Page): Promise<boolean> {
+  return currentSoftAssertions().check(description, assertion, page);
+}
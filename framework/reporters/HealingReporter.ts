@@ -0,0 +1,203 @@
+import { Reporter, FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  FingerprintRecord,
+  HEALING_ATTACHMENT,
+  HealingAttachment,
+  HealingCache,
+  HealingEvent,
+  RecoveredLocator
+} from '../utils/HealingCache';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Collects the locators healed during the run (attachment `auto-healing`, added by BaseTest),
+ * updates the healing cache so the winning selectors are tried right after the primary next run (and
+ * stores the element fingerprints; locators whose primary matched again are dropped), and writes
+ * healing-report/healing-report.json and .html listing the locators whose primary selector failed,
+ * with the fingerprint evidence for locators healed by fingerprint.
+ *
+ * Options: `outputFolder` (default 'healing-report').
+ */
+
+interface HealingReporterOptions {
+  outputFolder?: string;
+}
+
+export interface HealedLocator {
+  profile: string;
+  page: string;
+  key: string;
+  primary: string;
+  matched: string;
+  candidates: string[];
+  suggestions: string[];
+  /** Times the locator was healed across the run */
+  count: number;
+  tests: string[];
+  /** Evidence of the last fingerprint match, when no candidate matched */
+  fingerprint?: HealingEvent['fingerprint'];
+}
+
+export interface HealingReport {
+  generatedAt: string;
+  cacheFile: string;
+  locators: HealedLocator[];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+class HealingReporter implements Reporter {
+  private readonly outputFolder: string;
+  private readonly events: HealingEvent[] = [];
+  private readonly fingerprints: FingerprintRecord[] = [];
+  private readonly recovered: RecoveredLocator[] = [];
+  private readonly locators = new Map<string, HealedLocator>();
+
+  constructor(options: HealingReporterOptions = {}) {
+    this.outputFolder = path.resolve(options.outputFolder ?? 'healing-report');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    result.attachments
+      .filter(attachment => attachment.name === HEALING_ATTACHMENT && attachment.body)
+      .forEach(attachment => {
+        let data: HealingAttachment;
+        try {
+          data = JSON.parse(attachment.body?.toString('utf8') ?? '{}');
+        } catch (error) {
+          console.warn(`HealingReporter: Ignoring unreadable healing data of "${test.title}": ${(error as Error).message}`);
+          return;
+        }
+        (data.events ?? []).forEach(event => this.addEvent(event, test.titlePath().slice(1).join(' › ')));
+        this.fingerprints.push(...(data.fingerprints ?? []));
+        this.recovered.push(...(data.recovered ?? []));
+      });
+  }
+
+  onEnd(_result: FullResult) {
+    const cache = new HealingCache();
+    if (this.events.length > 0 || this.fingerprints.length > 0 || this.recovered.length > 0) {
+      cache.merge(this.events, this.fingerprints, new Date(), this.recovered);
+      cache.save();
+    }
+
+    const report: HealingReport = {
+      generatedAt: new Date().toISOString(),
+      cacheFile: path.relative(process.cwd(), cache.getFilePath()),
+      locators: Array.from(this.locators.values()).sort(
+        (a, b) => a.profile.localeCompare(b.profile) || a.page.localeCompare(b.page) || b.count - a.count
+      )
+    };
+
+    fs.mkdirSync(this.outputFolder, { recursive: true });
+    fs.writeFileSync(path.join(this.outputFolder, 'healing-report.json'), JSON.stringify(report, null, 2) + '\n', 'utf8');
+    fs.writeFileSync(path.join(this.outputFolder, 'healing-report.html'), this.generateHtml(report), 'utf8');
+
+    if (report.locators.length > 0) {
+      console.log(
+        `🩹 ${report.locators.length} locator(s) needed auto-healing; fix their primary selector. ` +
+        `Report: ${path.relative(process.cwd(), path.join(this.outputFolder, 'healing-report.html'))}`
+      );
+    }
+  }
+
+  private addEvent(event: HealingEvent, testTitle: string) {
+    this.events.push(event);
+    const id = `${event.profile}\u0000${event.key}`;
+    const existing = this.locators.get(id);
+    if (existing) {
+      existing.count += event.count;
+      existing.matched = event.matched;
+      existing.fingerprint = event.fingerprint;
+      if (existing.suggestions.length === 0) existing.suggestions = event.suggestions;
+      if (!existing.tests.includes(testTitle)) existing.tests.push(testTitle);
+      return;
+    }
+    this.locators.set(id, {
+      profile: event.profile,
+      page: event.page,
+      key: event.key,
+      primary: event.candidates[0],
+      matched: event.matched,
+      candidates: event.candidates,
+      suggestions: event.suggestions,
+      count: event.count,
+      tests: [testTitle],
+      fingerprint: event.fingerprint
+    });
+  }
+
+  private fingerprintEvidence(locator: HealedLocator): string {
+    if (!locator.fingerprint) return '';
+    const { score, threshold, breakdown, candidates } = locator.fingerprint;
+    const properties = Object.entries(breakdown)
+      .map(([property, value]) => `${escapeHtml(property)} ${Math.round((value ?? 0) * 100)}%`)
+      .join(', ');
+    const others = candidates
+      .slice(1)
+      .map(candidate => `<li>${candidate.score.toFixed(2)} ${escapeHtml(candidate.selector)}</li>`)
+      .join('');
+    return `
+            <div class="evidence">Fingerprint match: score ${score.toFixed(2)} (threshold ${threshold})<br>${properties}
+              ${others ? `<details><summary>Other candidates</summary><ul>${others}</ul></details>` : ''}
+            </div>`;
+  }
+
+  private generateHtml(report: HealingReport): string {
+    const code = (value: string) => `<code>${escapeHtml(value)}</code>`;
+    const rows = report.locators
+      .map(locator => `
+        <tr>
+          <td>${escapeHtml(locator.profile)}</td>
+          <td>${escapeHtml(locator.page)}</td>
+          <td class="failed">${code(locator.primary)}</td>
+          <td class="healed">${code(locator.matched)}${this.fingerprintEvidence(locator)}</td>
+          <td>${locator.suggestions.length > 0 ? locator.suggestions.map(code).join('<br>') : '<em>none</em>'}</td>
+          <td>${locator.count}</td>
+          <td>${locator.tests.map(escapeHtml).join('<br>')}</td>
+        </tr>`)
+      .join('');
+
+    const body = report.locators.length > 0
+      ? `
+      <p>${report.locators.length} locator(s) had a failing primary selector and were healed with another candidate.
+      Update the locator files: move the healed selector (or a suggested one) to the first position.</p>
+      <table>
+        <tr>
+          <th>Profile</th><th>Page</th><th>Primary selector (failed)</th><th>Healed with</th>
+          <th>Suggested selectors</th><th>Healings</th><th>Tests</th>
+        </tr>${rows}
+      </table>`
+      : '<p>✅ No locator needed healing in this run.</p>';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Auto-healing report</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; color: #333; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+    th { background-color: #f2f2f2; }
+    code { font-family: Consolas, monospace; word-break: break-all; }
+    .failed code { color: #c62828; }
+    .healed code { color: #2e7d32; }
+    .meta { color: #777; font-size: 12px; }
+    .evidence { margin-top: 6px; color: #e65100; font-size: 12px; }
+  </style>
+</head>
+<body>
+  <h2>🩹 Auto-healing report</h2>
+  <p class="meta">Generated ${escapeHtml(report.generatedAt)} · healing cache: ${escapeHtml(report.cacheFile)}</p>
+  ${body}
+</body>
+</html>
+`;
+  }
+}
+
+export default HealingReporter;
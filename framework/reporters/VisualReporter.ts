@@ -0,0 +1,283 @@
+import { Reporter, FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import {
+  VISUAL_COMPARISON_ATTACHMENT,
+  VISUAL_DECISIONS_FILE,
+  VisualBaselines,
+  VisualResultRecord
+} from '../utils/VisualBaselines';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Collects the visual comparisons of the run (attachment `visual-comparison`, added by ScreenshotHelper)
+ * and writes visual-report/index.html (plus visual-report.json): baseline, actual and diff of every
+ * comparison side by side, with a slider and an onion-skin overlay, the diff ratio and score. Checks
+ * still pending from earlier runs are listed too. The page works offline from the file system; its
+ * approve/reject buttons save visual-decisions.json, applied with
+ * `npm run visual-baselines -- apply [file]`.
+ *
+ * Options: `outputFolder` (default 'visual-report').
+ */
+
+interface VisualReporterOptions {
+  outputFolder?: string;
+}
+
+export interface VisualReportEntry extends VisualResultRecord {
+  /** Full test title (file › describe › test) */
+  title: string;
+  /** Whether the check waits for review (failed, or no baseline in strict mode) */
+  pending: boolean;
+  /** Pending from an earlier run: the test did not compare this screenshot in this run */
+  earlierRun: boolean;
+}
+
+export interface VisualReport {
+  generatedAt: string;
+  screenshotsFolder: string;
+  entries: VisualReportEntry[];
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+class VisualReporter implements Reporter {
+  private readonly outputFolder: string;
+  private readonly store = new VisualBaselines();
+  private readonly entries = new Map<string, VisualReportEntry>();
+
+  constructor(options: VisualReporterOptions = {}) {
+    this.outputFolder = path.resolve(options.outputFolder ?? 'visual-report');
+  }
+
+  onTestEnd(test: TestCase, result: TestResult) {
+    result.attachments
+      .filter(attachment => attachment.name === VISUAL_COMPARISON_ATTACHMENT && attachment.body)
+      .forEach(attachment => {
+        let record: VisualResultRecord;
+        try {
+          record = JSON.parse(attachment.body?.toString('utf8') ?? '{}');
+        } catch (error) {
+          console.warn(`VisualReporter: Ignoring unreadable comparison of "${test.title}": ${(error as Error).message}`);
+          return;
+        }
+        // A retry replaces the comparison of the earlier attempt
+        this.entries.set(record.id, {
+          ...record,
+          title: test.titlePath().slice(1).join(' › '),
+          pending: record.status === 'failed' || record.status === 'missing',
+          earlierRun: false
+        });
+      });
+  }
+
+  onEnd(_result: FullResult) {
+    this.store.listPending()
+      .filter(record => !this.entries.has(record.id))
+      .forEach(record => this.entries.set(record.id, { ...record, title: record.test, pending: true, earlierRun: true }));
+
+    const report: VisualReport = {
+      generatedAt: new Date().toISOString(),
+      screenshotsFolder: path.relative(process.cwd(), this.store.rootDir),
+      entries: Array.from(this.entries.values()).sort(
+        (a, b) => Number(b.pending) - Number(a.pending) || a.title.localeCompare(b.title) || a.name.localeCompare(b.name)
+      )
+    };
+
+    fs.mkdirSync(this.outputFolder, { recursive: true });
+    fs.writeFileSync(path.join(this.outputFolder, 'visual-report.json'), JSON.stringify(report, null, 2) + '\n', 'utf8');
+    fs.writeFileSync(path.join(this.outputFolder, 'index.html'), this.generateHtml(report), 'utf8');
+
+    if (report.entries.length > 0) {
+      const pending = report.entries.filter(entry => entry.pending).length;
+      console.log(
+        `🖼️  ${report.entries.length} visual comparison(s), ${pending} waiting for review. ` +
+        `Report: ${path.relative(process.cwd(), path.join(this.outputFolder, 'index.html'))}`
+      );
+    }
+  }
+
+  /**
+   * Image path relative to the report, so the page works from the file system
+   */
+  private imageUrl(relativeToScreenshots: string | undefined): string | undefined {
+    if (!relativeToScreenshots) return undefined;
+    const file = path.join(this.store.rootDir, relativeToScreenshots);
+    if (!fs.existsSync(file)) return undefined;
+    return path.relative(this.outputFolder, file).split(path.sep).map(encodeURIComponent).join('/');
+  }
+
+  private generateEntry(entry: VisualReportEntry): string {
+    const baseline = this.imageUrl(entry.fallback ?? entry.baseline);
+    const actual = this.imageUrl(entry.actual);
+    const diff = this.imageUrl(entry.diff);
+    const image = (label: string, url: string | undefined) => `
+          <figure><figcaption>${label}</figcaption>${url ? `<a href="${url}" target="_blank"><img src="${url}" alt="${label}"></a>` : '<div class="none">not available</div>'}</figure>`;
+    const score = entry.score !== undefined ? ` · ${escapeHtml(entry.algorithm ?? '')} score ${entry.score.toFixed(4)}` : '';
+    const fallback = entry.fallback ? ` · compared with the fallback <code>${escapeHtml(entry.fallback)}</code>` : '';
+    const compare = baseline && actual
+      ? `
+        <div class="overlay" data-mode="slider" hidden>
+          <img src="${baseline}" alt="baseline"><div class="top"><img src="${actual}" alt="actual"></div>
+        </div>
+        <input class="range" type="range" min="0" max="100" value="50" hidden>`
+      : '';
+    // Approving needs the actual image; rejecting only drops the pending check
+    const buttons = entry.pending
+      ? `
+        <div class="decide">
+          <button data-decision="approve"${actual ? '' : ' disabled'}>✅ Approve</button><button data-decision="reject">❌ Reject</button>
+          <span class="decision"></span>
+        </div>`
+      : '';
+
+    return `
+      <section class="entry ${entry.status}${entry.pending ? ' pending' : ''}" data-id="${escapeHtml(entry.id)}">
+        <h3><span class="badge ${entry.status}">${entry.status}</span> ${escapeHtml(entry.name)}</h3>
+        <p class="meta">${escapeHtml(entry.title)} · ${escapeHtml(entry.project)} · ${(entry.diffRatio * 100).toFixed(3)}% differ (${entry.diffPixels} px)${score}${fallback}
+          ${entry.earlierRun ? ' · <strong>pending from an earlier run</strong>' : ''} · <code>${escapeHtml(entry.id)}</code></p>
+        <div class="modes">
+          <button data-mode="side" class="active">Side by side</button>${compare ? '<button data-mode="slider">Slider</button><button data-mode="onion">Onion skin</button>' : ''}
+        </div>
+        <div class="side">${image('Baseline', baseline)}${image('Actual', actual)}${image('Diff', diff)}
+        </div>${compare}${buttons}
+      </section>`;
+  }
+
+  private generateHtml(report: VisualReport): string {
+    const pending = report.entries.filter(entry => entry.pending).length;
+    const body = report.entries.length > 0
+      ? report.entries.map(entry => this.generateEntry(entry)).join('')
+      : '<p>No visual comparison ran and none is waiting for review.</p>';
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Visual comparison report</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 20px; color: #333; }
+    .toolbar { position: sticky; top: 0; background: #fff; padding: 8px 0; border-bottom: 1px solid #ddd; z-index: 2; }
+    .entry { border: 1px solid #ddd; border-radius: 4px; margin: 16px 0; padding: 12px; }
+    .entry.pending { border-color: #e65100; }
+    .meta { color: #777; font-size: 12px; }
+    .badge { font-size: 12px; padding: 2px 6px; border-radius: 3px; color: #fff; background: #2e7d32; }
+    .badge.failed, .badge.missing { background: #c62828; }
+    .badge.created, .badge.updated { background: #1565c0; }
+    .side { display: flex; gap: 12px; }
+    figure { flex: 1; margin: 0; min-width: 0; }
+    figcaption { font-size: 12px; font-weight: bold; margin-bottom: 4px; }
+    figure img { max-width: 100%; border: 1px solid #eee; }
+    .none { color: #999; font-style: italic; padding: 20px; border: 1px dashed #ccc; }
+    .overlay { position: relative; display: inline-block; border: 1px solid #eee; max-width: 100%; }
+    .overlay img { display: block; max-width: 100%; }
+    .overlay .top { position: absolute; top: 0; left: 0; height: 100%; width: 100%; overflow: hidden; }
+    .overlay[data-mode="slider"] .top { border-right: 2px solid #e65100; }
+    .overlay .top img { max-width: none; }
+    .range { display: block; width: 100%; margin: 8px 0; }
+    .modes button, .decide button, .toolbar button { margin: 8px 6px 8px 0; cursor: pointer; }
+    .modes button.active { font-weight: bold; }
+    .decision { font-weight: bold; }
+    .hide-passed .entry:not(.pending) { display: none; }
+    code { font-family: Consolas, monospace; }
+  </style>
+</head>
+<body>
+  <h2>🖼️ Visual comparison report</h2>
+  <p class="meta">Generated ${escapeHtml(report.generatedAt)} · ${report.entries.length} comparison(s), ${pending} waiting for review ·
+    images in ${escapeHtml(report.screenshotsFolder)}</p>
+  <div class="toolbar">
+    <label><input type="checkbox" id="only-pending"> Only checks waiting for review</label>
+    <button id="save">💾 Save decisions (<span id="count">0</span>)</button>
+    <span class="meta">Then run <code>npm run visual-baselines -- apply &lt;path to ${VISUAL_DECISIONS_FILE}&gt;</code></span>
+  </div>
+  ${body}
+  <script>
+    (function () {
+      var storageKey = 'visual-decisions:${escapeHtml(report.generatedAt)}';
+      var decisions = JSON.parse(localStorage.getItem(storageKey) || '{}');
+
+      function render() {
+        document.querySelectorAll('.entry').forEach(function (entry) {
+          var label = entry.querySelector('.decision');
+          var decision = decisions[entry.dataset.id];
+          if (label) label.textContent = decision ? '→ ' + decision : '';
+        });
+        document.getElementById('count').textContent = Object.keys(decisions).length;
+        localStorage.setItem(storageKey, JSON.stringify(decisions));
+      }
+
+      function setMode(entry, mode) {
+        var overlay = entry.querySelector('.overlay');
+        var range = entry.querySelector('.range');
+        entry.querySelectorAll('.modes button').forEach(function (button) {
+          button.classList.toggle('active', button.dataset.mode === mode);
+        });
+        entry.querySelector('.side').hidden = mode !== 'side';
+        if (!overlay) return;
+        overlay.hidden = range.hidden = mode === 'side';
+        overlay.dataset.mode = mode;
+        range.value = 50;
+        update(entry);
+      }
+
+      // Slider: the actual image covers the baseline up to the handle; onion skin: it fades in over it
+      function update(entry) {
+        var overlay = entry.querySelector('.overlay');
+        var top = overlay.querySelector('.top');
+        var value = entry.querySelector('.range').value;
+        top.querySelector('img').style.width = overlay.querySelector('img').clientWidth + 'px';
+        top.style.width = overlay.dataset.mode === 'slider' ? value + '%' : '100%';
+        top.style.opacity = overlay.dataset.mode === 'onion' ? value / 100 : 1;
+      }
+
+      document.querySelectorAll('.entry').forEach(function (entry) {
+        entry.querySelectorAll('.modes button').forEach(function (button) {
+          button.addEventListener('click', function () { setMode(entry, button.dataset.mode); });
+        });
+        var range = entry.querySelector('.range');
+        if (range) range.addEventListener('input', function () { update(entry); });
+        entry.querySelectorAll('.decide button').forEach(function (button) {
+          button.addEventListener('click', function () {
+            var id = entry.dataset.id;
+            if (decisions[id] === button.dataset.decision) delete decisions[id];
+            else decisions[id] = button.dataset.decision;
+            render();
+          });
+        });
+      });
+
+      document.getElementById('only-pending').addEventListener('change', function (event) {
+        document.body.classList.toggle('hide-passed', event.target.checked);
+      });
+
+      document.getElementById('save').addEventListener('click', function () {
+        var content = JSON.stringify({
+          report: '${escapeHtml(report.generatedAt)}',
+          decisions: Object.keys(decisions).map(function (id) { return { id: id, decision: decisions[id] }; })
+        }, null, 2);
+        // Chromium can write the file where the user picks; other browsers download it
+        if (window.showSaveFilePicker) {
+          window.showSaveFilePicker({ suggestedName: '${VISUAL_DECISIONS_FILE}' })
+            .then(function (handle) { return handle.createWritable(); })
+            .then(function (writable) { return writable.write(content).then(function () { return writable.close(); }); })
+            .catch(function (error) { if (error.name !== 'AbortError') alert('Could not save: ' + error.message); });
+          return;
+        }
+        var link = document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+        link.download = '${VISUAL_DECISIONS_FILE}';
+        link.click();
+      });
+
+      render();
+    })();
+  </script>
+</body>
+</html>
+`;
+  }
+}
+
+export default VisualReporter;
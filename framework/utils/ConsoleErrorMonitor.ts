@@ -0,0 +1,117 @@
+/**
+ * ConsoleErrorMonitor.ts
+ *
+ * Records the browser console and uncaught page exceptions (`pageerror`) of every page in a browser
+ * context, and tells which errors are unexpected according to the profile `consoleErrors` setting
+ * (mode plus an allow-list of regexes). BaseTest runs it for every test through an auto fixture;
+ * this is independent of BasePage.captureConsoleLogs(), which page objects start explicitly.
+ * Messages are kept as logged, so allow-list patterns see the real text; everything handed out
+ * (entries, log, failure message) is redacted.
+ *
+ * @example
+ * const monitor = new ConsoleErrorMonitor(resolveConsoleErrorsConfig(profile.consoleErrors));
+ * monitor.attach(context);
+ * // ... test ...
+ * const unexpected = monitor.getUnexpectedErrors();
+ */
+
+import { BrowserContext, ConsoleMessage, Page } from '@playwright/test';
+import { ConsoleErrorMode, ConsoleErrorsConfig, ProfileConfig } from './ProfileConfig';
+import { redactor } from './Redactor';
+
+export interface BrowserConsoleEntry {
+  /** Console message type ('log', 'error', ...) or 'pageerror' for uncaught exceptions */
+  type: string;
+  text: string;
+  /** Page URL and, for console messages, the source location */
+  location?: string;
+  timestamp: Date;
+}
+
+/**
+ * Normalize the profile setting: a bare mode or `{ mode, allow }`, defaulting to 'off'
+ */
+export function resolveConsoleErrorsConfig(setting: ProfileConfig['consoleErrors']): Required<ConsoleErrorsConfig> {
+  if (setting === undefined) return { mode: 'off', allow: [] };
+  if (typeof setting === 'string') return { mode: setting, allow: [] };
+  return { mode: setting.mode, allow: setting.allow ?? [] };
+}
+
+export class ConsoleErrorMonitor {
+  private readonly mode: ConsoleErrorMode;
+  private readonly allow: RegExp[];
+  private readonly entries: BrowserConsoleEntry[] = [];
+
+  constructor(config: Required<ConsoleErrorsConfig>) {
+    this.mode = config.mode;
+    this.allow = config.allow.map(source => new RegExp(source));
+  }
+
+  /**
+   * Listen to the pages already open in the context and to every page opened later (popups included)
+   */
+  attach(context: BrowserContext): void {
+    context.pages().forEach(page => this.attachPage(page));
+    context.on('page', page => this.attachPage(page));
+  }
+
+  getMode(): ConsoleErrorMode {
+    return this.mode;
+  }
+
+  /**
+   * Every console message and page exception recorded so far (redacted)
+   */
+  getEntries(): BrowserConsoleEntry[] {
+    return this.entries.map(entry => redactEntry(entry));
+  }
+
+  /**
+   * Console errors and page exceptions that match no allow-list pattern (redacted)
+   */
+  getUnexpectedErrors(): BrowserConsoleEntry[] {
+    return this.entries
+      .filter(entry => (entry.type === 'error' || entry.type === 'pageerror') && !this.allow.some(pattern => pattern.test(entry.text)))
+      .map(entry => redactEntry(entry));
+  }
+
+  /**
+   * The recorded console as text, one line per entry
+   */
+  formatLog(): string {
+    return this.getEntries().map(entry => formatEntry(entry)).join('\n');
+  }
+
+  /**
+   * Summary of the unexpected errors, used as the failure message
+   */
+  formatUnexpectedErrors(): string {
+    const unexpected = this.getUnexpectedErrors();
+    const lines = unexpected.map(entry => `  - ${formatEntry(entry)}`);
+    return `${unexpected.length} unexpected browser console error(s) (consoleErrors: ${this.mode}):\n${lines.join('\n')}\n` +
+      'Fix them, or allow them with a regex in the profile consoleErrors.allow list.';
+  }
+
+  private attachPage(page: Page): void {
+    page.on('console', message => this.record(message.type(), message.text(), consoleLocation(page, message)));
+    page.on('pageerror', error => this.record('pageerror', error.stack ?? `${error.name}: ${error.message}`, page.url()));
+  }
+
+  private record(type: string, text: string, location?: string): void {
+    this.entries.push({ type, text, location, timestamp: new Date() });
+  }
+}
+
+function consoleLocation(page: Page, message: ConsoleMessage): string {
+  const { url, lineNumber } = message.location();
+  return url ? `${url}:${lineNumber}` : page.url();
+}
+
+function redactEntry(entry: BrowserConsoleEntry): BrowserConsoleEntry {
+  return { ...entry, text: redactor.redact(entry.text), location: entry.location && redactor.redact(entry.location) };
+}
+
+function formatEntry(entry: BrowserConsoleEntry): string {
+  const location = entry.location ? ` (${entry.location})` : '';
+  return `[${entry.timestamp.toISOString()}] ${entry.type.toUpperCase()} ${entry.text}${location}`;
+}
@@ -0,0 +1,45 @@
+/**
+ * DeviceAliases.ts
+ *
+ * Short names for Playwright device descriptors, used by the profile `mobile.device` setting and by
+ * the `device` of breakpoint sweeps (ScreenshotHelper.sweepBreakpoints). Mobile runs keep their
+ * visual baselines apart by the device as configured (deviceKey).
+ *
+ * @example
+ * resolveDeviceName('iphone12'); // 'iPhone 12'
+ * resolveDeviceName('Pixel 7');  // 'Pixel 7' (Playwright names work as they are)
+ * deviceKey('Pixel 7');          // 'pixel7'
+ */
+
+import { devices } from '@playwright/test';
+
+// Mobile device aliases to Playwright device descriptors
+export const MOBILE_DEVICE_ALIASES: Record<string, keyof typeof devices> = {
+  'pixel 5': 'Pixel 5',
+  'pixel5': 'Pixel 5',
+  'pixel 7': 'Pixel 7',
+  'pixel7': 'Pixel 7',
+  // approximate mapping for convenience
+  'pixel 9': 'Pixel 7',
+  'samsung s9': 'Galaxy S9+',
+  'galaxy s9+': 'Galaxy S9+',
+  'iphone12': 'iPhone 12',
+  'iphone 14 pro': 'iPhone 14 Pro',
+  'ipad mini': 'iPad Mini'
+};
+
+/**
+ * Playwright device name for an alias (case-insensitive) or a device name; undefined when unknown
+ */
+export function resolveDeviceName(name: string): keyof typeof devices | undefined {
+  const alias = MOBILE_DEVICE_ALIASES[name.trim().toLowerCase()];
+  if (alias) return alias;
+  return name in devices ? name : undefined;
+}
+
+/**
+ * Device as it appears in visual baseline keys: lowercase letters and digits ('iPhone 12' -> 'iphone12')
+ */
+export function deviceKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
@@ -0,0 +1,276 @@
+/**
+ * ElementFingerprint.ts
+ *
+ * Last-resort healing for SelectorDefinition arrays (profile `autoHealing.fingerprint`).
+ * When a locator resolves, BasePage stores a fingerprint of the element: tag, id, classes, name,
+ * role/aria/test id attributes, text, neighbouring labels and DOM path. When every candidate selector
+ * fails later on, the elements of the page are scored against that fingerprint and the best match
+ * above the confidence threshold is used instead.
+ *
+ * @example
+ * const fingerprint = await captureFingerprint(locator);
+ * // ... later, when every candidate fails
+ * const result = await findByFingerprint(page, fingerprint, 0.7);
+ * if (result.match) await page.locator(result.match.selector).click();
+ */
+
+import { Locator, Page } from '@playwright/test';
+import { redactor } from './Redactor';
+
+export const DEFAULT_FINGERPRINT_THRESHOLD = 0.7;
+
+/** Best and second-best scores closer than this are ambiguous: nothing is healed */
+const AMBIGUITY_MARGIN = 0.05;
+const MAX_SCANNED_ELEMENTS = 5000;
+const MAX_TEXT_LENGTH = 100;
+const REPORTED_CANDIDATES = 5;
+
+/** Weight of each fingerprint property in the score */
+const WEIGHTS = {
+  tag: 2,
+  id: 1.5,
+  name: 2,
+  classes: 1,
+  attributes: 2,
+  text: 2,
+  labels: 2,
+  path: 1
+};
+
+export interface ElementFingerprint {
+  tag: string;
+  id?: string;
+  classes: string[];
+  name?: string;
+  /** role, type, placeholder, title, alt, href, aria-* and data-test* attributes (never `value`) */
+  attributes: Record<string, string>;
+  /** Normalized text content, truncated */
+  text?: string;
+  /** Associated labels (label[for], wrapping label, aria-labelledby) and the preceding sibling's text */
+  labels: string[];
+  /** DOM path from <html>, one `tag:nth-of-type(n)` segment per element */
+  path: string[];
+}
+
+export interface FingerprintMatch {
+  /** CSS selector of the element (its DOM path) */
+  selector: string;
+  /** Weighted similarity, 0-1 */
+  score: number;
+  /** Similarity per fingerprint property, 0-1 */
+  breakdown: Partial<Record<keyof typeof WEIGHTS, number>>;
+  element: ElementFingerprint;
+}
+
+export interface FingerprintSearchResult {
+  /** Best match, when above the threshold and not ambiguous */
+  match?: FingerprintMatch;
+  /** Highest scoring elements, best first (evidence for the report) */
+  candidates: FingerprintMatch[];
+  threshold: number;
+  /** Why no element was accepted */
+  reason?: string;
+}
+
+/** The parts of a DOM element readFingerprints uses (the tsconfig has no DOM lib) */
+interface FingerprintNode {
+  nodeType: number;
+  tagName: string;
+  textContent: string | null;
+  innerText?: string;
+  attributes: ArrayLike<{ name: string; value: string }>;
+  classList: ArrayLike<string>;
+  parentElement: FingerprintNode | null;
+  previousElementSibling: FingerprintNode | null;
+  ownerDocument: FingerprintDocument;
+  getAttribute(name: string): string | null;
+  closest(selector: string): FingerprintNode | null;
+}
+
+interface FingerprintDocument {
+  querySelectorAll(selector: string): ArrayLike<FingerprintNode & { htmlFor?: string }>;
+  getElementById(id: string): FingerprintNode | null;
+}
+
+/**
+ * Runs in the browser: fingerprint `el`, or every element of its document when `all` is set.
+ * Self-contained because Playwright serializes it. Input values are left out: they are test data, not identity.
+ */
+function readFingerprints(el: FingerprintNode, options: { all: boolean; limit: number; maxText: number }): ElementFingerprint[] {
+  const clean = (value: unknown): string | undefined => {
+    const text = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+    return text ? text.slice(0, options.maxText) : undefined;
+  };
+  const doc = el.ownerDocument;
+  const skipped = new Set(['script', 'style', 'noscript', 'template', 'meta', 'link', 'title', 'head', 'html', 'path']);
+  const attributeNames = ['role', 'type', 'placeholder', 'title', 'alt', 'href'];
+
+  const pathOf = (node: FingerprintNode): string[] => {
+    const segments: string[] = [];
+    for (let current: FingerprintNode | null = node; current && current.nodeType === 1; current = current.parentElement) {
+      const tag = String(current.tagName).toLowerCase();
+      let index = 1;
+      for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+        if (sibling.tagName === current.tagName) index++;
+      }
+      segments.unshift(`${tag}:nth-of-type(${index})`);
+    }
+    return segments;
+  };
+
+  const fingerprint = (node: FingerprintNode): ElementFingerprint => {
+    const attributes: Record<string, string> = {};
+    Array.from(node.attributes).forEach(attribute => {
+      const name = String(attribute.name);
+      if (attributeNames.includes(name) || name.startsWith('aria-') || name.startsWith('data-test') || name === 'data-qa') {
+        const value = clean(attribute.value);
+        if (value) attributes[name] = value;
+      }
+    });
+
+    const labels: string[] = [];
+    const addLabel = (value: unknown) => {
+      const label = clean(value);
+      if (label && !labels.includes(label)) labels.push(label);
+    };
+    const id = node.getAttribute('id');
+    if (id) {
+      Array.from(doc.querySelectorAll('label'))
+        .filter(label => label.htmlFor === id)
+        .forEach(label => addLabel(label.textContent));
+    }
+    addLabel(node.closest('label')?.textContent);
+    String(node.getAttribute('aria-labelledby') || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((ref: string) => addLabel(doc.getElementById(ref)?.textContent));
+    const previousText = clean(node.previousElementSibling?.textContent);
+    if (previousText && previousText.length <= 50) addLabel(previousText);
+
+    return {
+      tag: String(node.tagName).toLowerCase(),
+      id: clean(id),
+      classes: Array.from(node.classList),
+      name: clean(node.getAttribute('name')),
+      attributes,
+      text: clean(node.innerText ?? node.textContent),
+      labels,
+      path: pathOf(node)
+    };
+  };
+
+  if (!options.all) return [fingerprint(el)];
+  return Array.from(doc.querySelectorAll('body, body *'))
+    .filter(node => !skipped.has(String(node.tagName).toLowerCase()))
+    .slice(0, options.limit)
+    .map(node => fingerprint(node));
+}
+
+function textSimilarity(a: string | undefined, b: string | undefined): number {
+  if (!a || !b) return 0;
+  const left = a.toLowerCase();
+  const right = b.toLowerCase();
+  if (left === right) return 1;
+  const leftTokens = new Set(left.split(/\W+/).filter(Boolean));
+  const rightTokens = new Set(right.split(/\W+/).filter(Boolean));
+  return jaccard(leftTokens, rightTokens);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  const shared = Array.from(a).filter(item => b.has(item)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Score an element against a stored fingerprint. Properties missing from the stored fingerprint
+ * (no id, no text, ...) are left out, so they neither help nor hurt.
+ */
+export function scoreFingerprint(
+  stored: ElementFingerprint,
+  candidate: ElementFingerprint
+): { score: number; breakdown: FingerprintMatch['breakdown'] } {
+  const breakdown: FingerprintMatch['breakdown'] = {
+    tag: stored.tag === candidate.tag ? 1 : 0
+  };
+  if (stored.id) breakdown.id = stored.id === candidate.id ? 1 : 0;
+  if (stored.name) breakdown.name = stored.name === candidate.name ? 1 : 0;
+  if (stored.classes.length > 0) breakdown.classes = jaccard(new Set(stored.classes), new Set(candidate.classes));
+  const attributeNames = Object.keys(stored.attributes);
+  if (attributeNames.length > 0) {
+    breakdown.attributes =
+      attributeNames.filter(name => candidate.attributes[name] === stored.attributes[name]).length / attributeNames.length;
+  }
+  if (stored.text) breakdown.text = textSimilarity(stored.text, candidate.text);
+  if (stored.labels.length > 0) {
+    breakdown.labels = Math.max(
+      0,
+      ...stored.labels.map(label => Math.max(0, ...candidate.labels.map(other => textSimilarity(label, other))))
+    );
+  }
+  let commonPrefix = 0;
+  while (commonPrefix < stored.path.length && stored.path[commonPrefix] === candidate.path[commonPrefix]) {
+    commonPrefix++;
+  }
+  breakdown.path = commonPrefix / Math.max(stored.path.length, candidate.path.length, 1);
+
+  let weighted = 0;
+  let total = 0;
+  (Object.keys(breakdown) as Array<keyof typeof WEIGHTS>).forEach(property => {
+    weighted += WEIGHTS[property] * (breakdown[property] ?? 0);
+    total += WEIGHTS[property];
+  });
+  return { score: total > 0 ? weighted / total : 0, breakdown };
+}
+
+/**
+ * Fingerprint the first element of a locator, redacted before it is stored; undefined when the element is gone.
+ */
+export async function captureFingerprint(locator: Locator): Promise<ElementFingerprint | undefined> {
+  try {
+    const [fingerprint] = await locator
+      .first()
+      .evaluate(readFingerprints, { all: false, limit: 1, maxText: MAX_TEXT_LENGTH }, { timeout: 1000 });
+    return fingerprint && redactor.redactValue(fingerprint);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Score every element of the page (main frame) against the fingerprint and pick the best match.
+ * Elements are redacted like stored fingerprints, so both sides compare alike and the report holds no secrets.
+ */
+export async function findByFingerprint(
+  page: Page,
+  fingerprint: ElementFingerprint,
+  threshold: number = DEFAULT_FINGERPRINT_THRESHOLD
+): Promise<FingerprintSearchResult> {
+  let elements: ElementFingerprint[];
+  try {
+    elements = redactor.redactValue(await page
+      .locator('html')
+      .evaluate(readFingerprints, { all: true, limit: MAX_SCANNED_ELEMENTS, maxText: MAX_TEXT_LENGTH }, { timeout: 5000 }));
+  } catch (error) {
+    return { candidates: [], threshold, reason: `page could not be scanned: ${(error as Error).message}` };
+  }
+
+  const candidates = elements
+    .map(element => ({ selector: element.path.join(' > '), element, ...scoreFingerprint(fingerprint, element) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, REPORTED_CANDIDATES);
+
+  const [best, runnerUp] = candidates;
+  if (!best || best.score < threshold) {
+    const bestScore = best ? best.score.toFixed(2) : 'n/a';
+    return { candidates, threshold, reason: `best score ${bestScore} is below the threshold ${threshold}` };
+  }
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) {
+    return {
+      candidates,
+      threshold,
+      reason: `ambiguous: ${best.score.toFixed(2)} (${best.selector}) vs ${runnerUp.score.toFixed(2)} (${runnerUp.selector})`
+    };
+  }
+  return { match: best, candidates, threshold };
+}
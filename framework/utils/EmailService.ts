@@ -1,6 +1,7 @@
 import * as nodemailer from 'nodemailer';
 import * as fs from 'fs';
 import * as path from 'path';
+import { redactor } from './Redactor';
 
 export interface EmailConfig {
   email: boolean;
@@ -19,6 +20,18 @@ export interface SmtpConfig {
   };
 }
 
+/**
+ * Test results of one environment profile in a (multi-environment) run
+ */
+export interface EnvironmentTestStats {
+  profile: string;
+  baseURL: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+}
+
 export class EmailService {
   private static instance: EmailService;
   private transporter: nodemailer.Transporter | null = null;
@@ -82,7 +95,8 @@ export class EmailService {
     emailConfig: EmailConfig, 
     smtpConfig: SmtpConfig, 
     providerConfig?: { provider: string; host: string; port: number; secure: boolean; requiresAppPassword: boolean },
-    providedStats?: { passed: number, failed: number, skipped: number, total: number }
+    providedStats?: { passed: number, failed: number, skipped: number, total: number },
+    environmentStats?: EnvironmentTestStats[]
   ): Promise<void> {
     console.log('EmailService.sendTestReport called');
     console.log('Email config:', { email: emailConfig.email, to: emailConfig.to, subject: emailConfig.subject });
@@ -138,8 +152,8 @@ export class EmailService {
     const mailOptions = {
       from: smtpConfig.auth.user,
       to: emailConfig.to.join(', '),
-      subject: emailConfig.subject,
-      html: this.generateEmailBody(emailConfig.body, attachments.length > 0, testStats),
+      subject: redactor.redact(emailConfig.subject),
+      html: redactor.redact(this.generateEmailBody(emailConfig.body, attachments.length > 0, testStats, environmentStats)),
       attachments: attachments
     };
 
@@ -155,9 +169,20 @@ export class EmailService {
   /**
    * Generate HTML email body with test results summary
    */
-  private generateEmailBody(body: string, hasAttachments: boolean, testStats?: { passed: number, failed: number, skipped: number, total: number }): string {
+  private generateEmailBody(
+    body: string,
+    hasAttachments: boolean,
+    testStats?: { passed: number, failed: number, skipped: number, total: number },
+    environmentStats?: EnvironmentTestStats[]
+  ): string {
     const timestamp = new Date().toISOString();
-    const reportUrl = process.env.BASE_URL || 'http://localhost:3000';
+    const environments = environmentStats && environmentStats.length > 0 ? environmentStats : undefined;
+    const environmentName = environments
+      ? environments.map(environment => environment.profile).join(', ')
+      : (process.env.NODE_ENV || 'development');
+    const reportUrl = environments?.length === 1
+      ? environments[0].baseURL
+      : (process.env.BASE_URL || 'http://localhost:3000');
     
     // Get test statistics from Allure results if available
     let testSummaryHtml = '';
@@ -201,6 +226,35 @@ export class EmailService {
       `;
     }
 
+    // Per-environment breakdown for multi-environment runs
+    let environmentSummaryHtml = '';
+    if (environments && environments.length > 1) {
+      const rows = environments.map(environment => `
+            <tr style="background-color: ${environment.failed > 0 ? '#f8d7da' : '#d4edda'};">
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.profile}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.baseURL}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.passed}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.failed}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.skipped}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${environment.total}</td>
+            </tr>`).join('');
+      environmentSummaryHtml = `
+        <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 15px 0;">
+          <h3>🌍 Results by Environment</h3>
+          <table style="width: 100%; border-collapse: collapse;">
+            <tr style="background-color: #e9ecef;">
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Profile</th>
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Base URL</th>
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Passed</th>
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Failed</th>
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Skipped</th>
+              <th style="padding: 8px; text-align: left; border: 1px solid #dee2e6;">Total</th>
+            </tr>${rows}
+          </table>
+        </div>
+      `;
+    }
+
     return `
     <html>
       <head>
@@ -220,11 +274,13 @@ export class EmailService {
           <div class="content">
             <p><strong>📝 Message:</strong> ${body}</p>
             <p><strong>🕒 Execution Time:</strong> ${timestamp}</p>
-            <p><strong>🌍 Environment:</strong> ${process.env.NODE_ENV || 'development'}</p>
-            <p><strong>🔗 Base URL:</strong> ${reportUrl}</p>
+            <p><strong>🌍 Environment:</strong> ${environmentName}</p>
+            ${environments && environments.length > 1 ? '' : `<p><strong>🔗 Base URL:</strong> ${reportUrl}</p>`}
             
             ${testSummaryHtml}
             
+            ${environmentSummaryHtml}
+            
             ${hasAttachments ? 
               '<div style="background-color: #e7f3ff; padding: 15px; border-radius: 5px; margin: 15px 0;"><p><strong>📎 Attachments:</strong> Playwright HTML report and test screenshots are attached to this email.</p></div>' : 
               '<div style="background-color: #fff3cd; padding: 15px; border-radius: 5px; margin: 15px 0;"><p><em>⚠️ No test artifacts found to attach.</em></p></div>'
@@ -407,8 +463,8 @@ export class EmailService {
     const mailOptions = {
       from: smtpConfig.auth.user,
       to: emailConfig.to.join(', '),
-      subject: emailConfig.subject,
-      html: this.generateEmailBody(message, false)
+      subject: redactor.redact(emailConfig.subject),
+      html: redactor.redact(this.generateEmailBody(message, false))
     };
 
     try {
@@ -1,14 +1,18 @@
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
+import { SecretsVault, MASTER_KEY_ENV, resolveVaultPath } from './SecretsVault';
+import { redactor } from './Redactor';
 
 /**
  * Environment Configuration Utility
- * Handles loading environment-specific configuration files
+ * Handles loading environment-specific configuration files and resolving secrets
+ * from the encrypted vault (see SecretsVault)
  */
 export class EnvConfig {
   private static instance: EnvConfig;
   private config: Record<string, string> = {};
+  private vault: SecretsVault | undefined;
   
   private constructor() {
     this.loadEnvironment();
@@ -56,6 +60,34 @@ export class EnvConfig {
     return this.config[key] || process.env[key] || defaultValue;
   }
   
+  /**
+   * Get a secret from the encrypted vault (SECRETS_VAULT_FILE, unlocked with SECRETS_MASTER_KEY).
+   * The value is registered with the redactor so it never shows up in logs or reports.
+   * @param name Secret name, as used in `${secret:<name>}` profile placeholders
+   */
+  public getSecret(name: string): string {
+    const value = this.getVault().get(name);
+    redactor.addSecret(value);
+    return value;
+  }
+
+  /**
+   * True when the vault contains the secret and the master key decrypts it;
+   * false for a missing or wrong SECRETS_MASTER_KEY, so optional secrets can fall back
+   * @param name Secret name
+   */
+  public hasSecret(name: string): boolean {
+    const vault = this.getVault();
+    return vault.has(name) && vault.canUnlock();
+  }
+
+  private getVault(): SecretsVault {
+    if (!this.vault) {
+      this.vault = SecretsVault.open(resolveVaultPath(), this.get(MASTER_KEY_ENV) || undefined);
+    }
+    return this.vault;
+  }
+  
   /**
    * Get current environment name
    */
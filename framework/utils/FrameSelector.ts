@@ -0,0 +1,164 @@
+/**
+ * FrameSelector.ts
+ *
+ * Selector chains that cross iframes and shadow roots, for every BasePage action. Segments are
+ * separated by `>>` (as in Playwright); a segment naming a frame element (`frame...` or `iframe...`)
+ * that is not the last one enters that frame, and the following segments are resolved inside it:
+ *
+ *   frame[name=pay] >> frame#card >> input[name=cvv]
+ *   div.checkout >> iframe.widget >> role=button[name="Pay"i]
+ *
+ * `frame` matches both <iframe> and <frame> elements; `iframe` only <iframe>.
+ *
+ * A `shadow=<host>` segment enters the open shadow root of the host element matching `<host>`
+ * (a CSS selector); the following segments are resolved inside it:
+ *
+ *   shadow=payment-form >> shadow=card-input >> input[name=cvv]
+ *
+ * CSS, role, text and test id segments pierce open shadow roots; XPath cannot, so an XPath segment
+ * after a shadow host is rejected. Closed shadow roots cannot be reached.
+ *
+ * @example
+ * const cvv = locateInFrames(page, 'frame[name=pay] >> frame#card >> input[name=cvv]');
+ * await cvv.fill('123');
+ */
+
+import { FrameLocator, Locator, Page } from '@playwright/test';
+
+const FRAME_SEGMENT = /^(i?frame)(?=$|[[#.:\s])/i;
+const SHADOW_SEGMENT = /^shadow=(.+)$/i;
+const XPATH_SEGMENT = /^(xpath=|\/\/|\.\.|\(\s*\/\/)/;
+
+/**
+ * Split a selector on `>>`, ignoring separators inside quotes, brackets and parentheses
+ */
+export function splitSelectorChain(selector: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  let depth = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (selector[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && char === '>' && selector[i + 1] === '>') {
+      segments.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+    current += char;
+  }
+  segments.push(current.trim());
+  return segments.filter(segment => segment !== '');
+}
+
+export function isFrameSegment(segment: string): boolean {
+  return FRAME_SEGMENT.test(segment);
+}
+
+export function isShadowSegment(segment: string): boolean {
+  return SHADOW_SEGMENT.test(segment);
+}
+
+/**
+ * Whether the selector enters at least one shadow root (`shadow=<host>` segment)
+ */
+export function hasShadowSegment(selector: string): boolean {
+  if (!/shadow=/i.test(selector)) return false;
+  return splitSelectorChain(selector).some(isShadowSegment);
+}
+
+/**
+ * Whether the selector enters at least one frame
+ */
+export function hasFrameChain(selector: string): boolean {
+  if (!selector.includes('>>')) return false;
+  const segments = splitSelectorChain(selector);
+  return segments.slice(0, -1).some(isFrameSegment);
+}
+
+/**
+ * CSS selector for the frame element of a frame segment (`frame#card` -> `:is(iframe, frame)#card`)
+ */
+function frameElementSelector(segment: string): string {
+  const [, keyword] = segment.match(FRAME_SEGMENT) ?? [];
+  if (keyword?.toLowerCase() !== 'frame') return segment;
+  return `:is(iframe, frame)${segment.slice(keyword.length)}`;
+}
+
+function enterFrames(root: Page | FrameLocator, segments: string[], enterLast: boolean): { scope: Page | FrameLocator; rest: string[] } {
+  let scope = root;
+  let pending: string[] = [];
+  segments.forEach((segment, index) => {
+    const isLast = index === segments.length - 1;
+    if ((isLast && enterLast) || (!isLast && isFrameSegment(segment))) {
+      scope = scope.locator([...pending, frameElementSelector(segment)].join(' >> ')).contentFrame();
+      pending = [];
+    } else {
+      pending.push(segment);
+    }
+  });
+  return { scope, rest: pending };
+}
+
+/**
+ * Replace `shadow=<host>` segments with their host selector, which Playwright's chaining already
+ * pierces. Entering a frame leaves the shadow root behind.
+ * @throws Error for an XPath segment inside a shadow root
+ */
+function resolveShadowSegments(segments: string[], selector: string): string[] {
+  let host: string | undefined;
+  return segments.map((segment, index) => {
+    const shadow = segment.match(SHADOW_SEGMENT);
+    if (shadow) {
+      host = shadow[1].trim();
+      return host;
+    }
+    if (host && XPATH_SEGMENT.test(segment)) {
+      throw new Error(
+        `XPath cannot reach inside the shadow root of '${host}': '${segment}' in '${selector}'. ` +
+          'Use a CSS, role, text or test id segment after a shadow host.'
+      );
+    }
+    if (index < segments.length - 1 && isFrameSegment(segment)) {
+      host = undefined;
+    }
+    return segment;
+  });
+}
+
+/**
+ * Locator for a selector that may cross frames and shadow roots
+ * @param root Page or frame to start from
+ * @param selector Selector, optionally with frame and `shadow=<host>` segments
+ * @throws Error for an XPath segment after a shadow host
+ */
+export function locateInFrames(root: Page | FrameLocator, selector: string): Locator {
+  const frames = hasFrameChain(selector);
+  if (!frames && !hasShadowSegment(selector)) return root.locator(selector);
+  const segments = resolveShadowSegments(splitSelectorChain(selector), selector);
+  if (!frames) return root.locator(segments.join(' >> '));
+  const { scope, rest } = enterFrames(root, segments, false);
+  return scope.locator(rest.join(' >> '));
+}
+
+/**
+ * Frame reached by a chain of frame elements (`frame[name=pay] >> frame#card`); the last segment
+ * is always entered, so a plain `iframe#myIframe` works too
+ */
+export function frameLocatorFor(root: Page | FrameLocator, frameChain: string): FrameLocator {
+  return enterFrames(root, splitSelectorChain(frameChain), true).scope as FrameLocator;
+}
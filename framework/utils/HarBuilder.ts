@@ -0,0 +1,236 @@
+/**
+ * HarBuilder.ts
+ *
+ * Converts the network traffic captured by BasePage.captureNetworkRequests() into a HAR 1.2 log:
+ * the format read by browser dev tools, HAR viewers and Playwright's routeFromHAR(), which
+ * BasePage.replayFromHar() uses to serve a recorded session as a mock.
+ * The HAR holds the entries it is given: BasePage passes redacted copies unless a replayable
+ * recording is asked for. Binary response bodies are stored base64-encoded.
+ *
+ * @example
+ * const har = buildHar(basePage.getNetworkRequests());
+ * fs.writeFileSync('session.har', JSON.stringify(har, null, 2));
+ */
+
+import * as path from 'path';
+import type { NetworkRequestEntry } from '../core/BasePage';
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarPostData {
+  mimeType: string;
+  text: string;
+}
+
+export interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: 'base64';
+  /** Body stored in a file next to the HAR (Playwright's recordHar with `content: 'attach'`) */
+  _file?: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  ssl: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  _resourceType?: string;
+}
+
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+const HTTP_VERSION = 'HTTP/1.1';
+const DEFAULT_CREATOR = { name: 'playwright-typescript-framework', version: '1.0.0' };
+
+function toNameValues(headers: Record<string, string> = {}): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function headerValue(headers: Record<string, string> = {}, name: string): string | undefined {
+  const match = Object.keys(headers).find(key => key.toLowerCase() === name);
+  return match ? headers[match] : undefined;
+}
+
+function bodyText(body: string | object | undefined): string | undefined {
+  if (body === undefined) return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function queryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/** Span between two Playwright timing marks, or -1 when either mark is unavailable */
+function span(start: number, end: number): number {
+  return start >= 0 && end >= start ? round(end - start) : -1;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function toTimings(entry: NetworkRequestEntry): HarTimings {
+  const timing = entry.timing;
+  if (!timing) {
+    // No browser timing: attribute the whole duration to waiting for the server
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: entry.duration ?? 0, receive: 0 };
+  }
+  const requestStart = timing.requestStart >= 0 ? timing.requestStart : 0;
+  const wait = span(requestStart, timing.responseStart);
+  const receive = span(timing.responseStart, timing.responseEnd);
+  return {
+    blocked: -1,
+    dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.secureConnectionStart, timing.connectEnd),
+    send: 0,
+    wait: wait >= 0 ? wait : entry.duration ?? 0,
+    receive: receive >= 0 ? receive : 0
+  };
+}
+
+function totalTime(timings: HarTimings): number {
+  // `ssl` is part of `connect` in HAR 1.2, so it is not added again
+  const parts = [timings.blocked, timings.dns, timings.connect, timings.send, timings.wait, timings.receive];
+  return round(parts.filter(value => value > 0).reduce((sum, value) => sum + value, 0));
+}
+
+function toHarEntry(entry: NetworkRequestEntry, status: number): HarEntry {
+  const requestText = bodyText(entry.requestBody);
+  const responseText = bodyText(entry.responseBody);
+  const timings = toTimings(entry);
+
+  const request: HarRequest = {
+    method: entry.method,
+    url: entry.url,
+    httpVersion: HTTP_VERSION,
+    cookies: [],
+    headers: toNameValues(entry.requestHeaders),
+    queryString: queryString(entry.url),
+    headersSize: -1,
+    bodySize: requestText === undefined ? 0 : Buffer.byteLength(requestText)
+  };
+  if (requestText !== undefined) {
+    request.postData = {
+      mimeType: headerValue(entry.requestHeaders, 'content-type') ?? (typeof entry.requestBody === 'string' ? 'text/plain' : 'application/json'),
+      text: requestText
+    };
+  }
+
+  const base64 = entry.responseBodyEncoding === 'base64';
+  const responseSize = responseText === undefined ? -1 : Buffer.byteLength(responseText, base64 ? 'base64' : 'utf8');
+  return {
+    startedDateTime: entry.timestamp.toISOString(),
+    time: totalTime(timings),
+    request,
+    response: {
+      status,
+      statusText: entry.statusText ?? '',
+      httpVersion: HTTP_VERSION,
+      cookies: [],
+      headers: toNameValues(entry.responseHeaders),
+      content: {
+        size: responseSize,
+        mimeType: headerValue(entry.responseHeaders, 'content-type') ?? 'x-unknown',
+        ...(responseText !== undefined ? { text: responseText } : {}),
+        ...(responseText !== undefined && base64 ? { encoding: 'base64' as const } : {})
+      },
+      redirectURL: headerValue(entry.responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: responseSize
+    },
+    cache: {},
+    timings,
+    _resourceType: entry.resourceType
+  };
+}
+
+/**
+ * Build a HAR 1.2 log from captured network entries.
+ * Requests still waiting for a response have nothing to replay and are left out.
+ */
+export function buildHar(entries: NetworkRequestEntry[], creator = DEFAULT_CREATOR): Har {
+  return {
+    log: {
+      version: '1.2',
+      creator,
+      pages: [],
+      entries: entries.flatMap(entry => (entry.status === undefined ? [] : [toHarEntry(entry, entry.status)]))
+    }
+  };
+}
+
+/**
+ * Copy of a HAR without request bodies, so replay matches POST requests on URL and method only
+ * (bodies with timestamps or nonces never equal the bodies sent on replay).
+ * @param baseDir Folder of the original HAR: `_file` bodies are referenced by absolute path, so the
+ *   copy can be written elsewhere
+ */
+export function withoutPostData(har: Har, baseDir?: string): Har {
+  return {
+    log: {
+      ...har.log,
+      entries: har.log.entries.map(entry => {
+        const request = { ...entry.request };
+        delete request.postData;
+        const content = { ...entry.response.content };
+        if (baseDir && content._file) {
+          content._file = path.resolve(baseDir, content._file);
+        }
+        return { ...entry, request, response: { ...entry.response, content } };
+      })
+    }
+  };
+}
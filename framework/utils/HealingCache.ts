@@ -0,0 +1,247 @@
+/**
+ * HealingCache.ts
+ *
+ * Memory for the auto-healing locators of BasePage (SelectorDefinition arrays).
+ * When a candidate other than the first one (the primary selector) matches, the winning selector is
+ * recorded per locator key and profile, tried first on the next run (so a broken primary does not cost
+ * its timeout again), and listed in the end-of-run healing report so the locator files can be fixed.
+ * When the cached selector stops matching and the primary matches again, the entry is dropped.
+ *
+ * Workers never write the cache file: healing events are collected per test, attached to the test
+ * result (attachment `auto-healing`) by BaseTest, and merged into the cache by HealingReporter in the
+ * main process. The cache file (.auto-healing/healing-cache.json, HEALING_CACHE_FILE to override) is
+ * read once per worker. With profile `autoHealing.fingerprint` the cache also keeps an element
+ * fingerprint per locator (see ElementFingerprint.ts), travelling through the same attachment.
+ *
+ * @example
+ * const preferred = healingCache.getPreferredSelector(profileName, key);
+ * healingCache.recordHealing({ key, profile: profileName, page: 'LoginPage', candidates, matched, suggestions: [] });
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ElementFingerprint, FingerprintMatch } from './ElementFingerprint';
+
+export const HEALING_ATTACHMENT = 'auto-healing';
+export const HEALING_CACHE_ENV = 'HEALING_CACHE_FILE';
+export const DEFAULT_HEALING_CACHE_FILE = path.join('.auto-healing', 'healing-cache.json');
+
+const CACHE_VERSION = 1;
+
+/** A locator whose primary selector failed and another candidate matched */
+export interface HealingEvent {
+  /** Locator key: the candidate selectors joined with ' | ' */
+  key: string;
+  profile: string;
+  /** Page object class that resolved the locator */
+  page: string;
+  candidates: string[];
+  /** Candidate that matched */
+  matched: string;
+  /** Selectors derived from the matched element (test id, role and name, label, text) */
+  suggestions: string[];
+  /** Times the locator was healed during the test */
+  count: number;
+  /** Set when no candidate matched and the element was found by its fingerprint */
+  fingerprint?: {
+    score: number;
+    threshold: number;
+    breakdown: FingerprintMatch['breakdown'];
+    /** Highest scoring elements, best first */
+    candidates: Array<{ selector: string; score: number }>;
+  };
+}
+
+export interface FingerprintRecord {
+  key: string;
+  profile: string;
+  fingerprint: ElementFingerprint;
+}
+
+/** A cached locator whose primary selector matched again */
+export interface RecoveredLocator {
+  key: string;
+  profile: string;
+}
+
+/** Body of the `auto-healing` test attachment */
+export interface HealingAttachment {
+  events: HealingEvent[];
+  fingerprints: FingerprintRecord[];
+  recovered?: RecoveredLocator[];
+}
+
+export interface HealingCacheEntry {
+  selector: string;
+  primary: string;
+  suggestions: string[];
+  hits: number;
+  lastHealedAt: string;
+}
+
+interface HealingCacheFile {
+  version: number;
+  profiles: Record<string, Record<string, HealingCacheEntry>>;
+  /** Element fingerprints by profile and locator key */
+  fingerprints?: Record<string, Record<string, ElementFingerprint>>;
+}
+
+/**
+ * Path of the healing cache: HEALING_CACHE_FILE, or .auto-healing/healing-cache.json in the given directory.
+ */
+export function resolveHealingCachePath(rootDir: string = process.cwd()): string {
+  const configured = process.env[HEALING_CACHE_ENV];
+  if (configured) {
+    return path.isAbsolute(configured) ? configured : path.join(rootDir, configured);
+  }
+  return path.join(rootDir, DEFAULT_HEALING_CACHE_FILE);
+}
+
+/**
+ * Candidates in the order auto-healing tries them: the cached winner first, then the others in their order
+ * @param preferred Candidate that matched the last time the locator was healed
+ */
+export function orderCandidates<T>(candidates: T[], preferred: T | undefined): T[] {
+  if (preferred === undefined || !candidates.includes(preferred)) return candidates;
+  return [preferred, ...candidates.filter(candidate => candidate !== preferred)];
+}
+
+export class HealingCache {
+  private readonly filePath: string;
+  private data: HealingCacheFile | undefined;
+  private pending = new Map<string, HealingEvent>();
+  private pendingFingerprints = new Map<string, FingerprintRecord>();
+  private pendingRecovered = new Map<string, RecoveredLocator>();
+
+  constructor(filePath: string = resolveHealingCachePath()) {
+    this.filePath = filePath;
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Selector that won the last time this locator was healed for the profile
+   */
+  public getPreferredSelector(profile: string, key: string): string | undefined {
+    return this.load().profiles[profile]?.[key]?.selector;
+  }
+
+  /**
+   * Fingerprint of the element the locator resolved to, for the profile
+   */
+  public getFingerprint(profile: string, key: string): ElementFingerprint | undefined {
+    return this.load().fingerprints?.[profile]?.[key];
+  }
+
+  /**
+   * Every cached entry of a profile, by locator key
+   */
+  public getEntries(profile: string): Record<string, HealingCacheEntry> {
+    return { ...(this.load().profiles[profile] ?? {}) };
+  }
+
+  /**
+   * Record a healed locator for the running test; repeated healings of the same locator are counted
+   */
+  public recordHealing(event: Omit<HealingEvent, 'count'>): void {
+    const id = `${event.profile}\u0000${event.key}`;
+    const existing = this.pending.get(id);
+    if (existing) {
+      existing.count++;
+      existing.matched = event.matched;
+      return;
+    }
+    this.pending.set(id, { ...event, count: 1 });
+  }
+
+  /**
+   * Record the fingerprint of the element a locator resolved to; also used by later lookups in this worker
+   */
+  public recordFingerprint(record: FingerprintRecord): void {
+    const data = this.load();
+    ((data.fingerprints ??= {})[record.profile] ??= {})[record.key] = record.fingerprint;
+    this.pendingFingerprints.set(`${record.profile}\u0000${record.key}`, record);
+  }
+
+  /**
+   * Record that the primary selector of a cached locator matched again, so its entry is dropped
+   */
+  public recordRecovery(locator: RecoveredLocator): void {
+    this.pendingRecovered.set(`${locator.profile}\u0000${locator.key}`, locator);
+  }
+
+  /**
+   * Healing events, fingerprints and recovered locators recorded since the last call (one test), clearing them
+   */
+  public takePending(): Required<HealingAttachment> {
+    const pending = {
+      events: Array.from(this.pending.values()),
+      fingerprints: Array.from(this.pendingFingerprints.values()),
+      recovered: Array.from(this.pendingRecovered.values())
+    };
+    this.pending = new Map();
+    this.pendingFingerprints = new Map();
+    this.pendingRecovered = new Map();
+    return pending;
+  }
+
+  /**
+   * Merge healing events into the cache (main process only; call save() to persist).
+   * Recovered locators are dropped first, so a locator healed again in the same run keeps its entry.
+   */
+  public merge(
+    events: HealingEvent[],
+    fingerprints: FingerprintRecord[] = [],
+    healedAt: Date = new Date(),
+    recovered: RecoveredLocator[] = []
+  ): void {
+    const data = this.load();
+    recovered.forEach(locator => {
+      delete data.profiles[locator.profile]?.[locator.key];
+    });
+    fingerprints.forEach(record => {
+      ((data.fingerprints ??= {})[record.profile] ??= {})[record.key] = record.fingerprint;
+    });
+    events.forEach(event => {
+      // Fingerprint matches are not one of the candidates, so there is no selector to prefer next time
+      if (event.fingerprint) return;
+      const profileEntries = (data.profiles[event.profile] ??= {});
+      const previous = profileEntries[event.key];
+      profileEntries[event.key] = {
+        selector: event.matched,
+        primary: event.candidates[0],
+        suggestions: event.suggestions.length > 0 ? event.suggestions : previous?.suggestions ?? [],
+        hits: (previous?.hits ?? 0) + event.count,
+        lastHealedAt: healedAt.toISOString()
+      };
+    });
+  }
+
+  public save(): void {
+    if (!this.data) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2) + '\n', 'utf8');
+  }
+
+  private load(): HealingCacheFile {
+    if (this.data) return this.data;
+    this.data = { version: CACHE_VERSION, profiles: {} };
+    if (fs.existsSync(this.filePath)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as HealingCacheFile;
+        if (parsed.version === CACHE_VERSION && parsed.profiles) {
+          this.data = parsed;
+        }
+      } catch (error) {
+        // A corrupt cache only costs the healing shortcuts; it is rebuilt at the end of the run
+        console.warn(`Ignoring unreadable healing cache ${this.filePath}: ${(error as Error).message}`);
+      }
+    }
+    return this.data;
+  }
+}
+
+// Export a default instance
+export const healingCache = new HealingCache();
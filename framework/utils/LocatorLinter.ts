@@ -0,0 +1,204 @@
+/**
+ * LocatorLinter.ts
+ *
+ * Static and live checks for the selectors in the locator files, used by `npm run lint-locators`.
+ *
+ * Static rules (no browser):
+ *   - index-based-xpath: positional predicates such as "(//button[...])[1]" or "/div[3]"
+ *   - absolute-xpath: paths anchored at the document root ("/html/body/...")
+ *   - long-class-chain: selectors that depend on three or more classes
+ *   - text-only: elements identified by their text alone
+ * Findings carry a suggested role, label or test id alternative where one can be derived.
+ *
+ * Live validation counts the elements each candidate selector matches on a page (live URL or saved
+ * HTML snapshot): zero, exactly one, or many.
+ *
+ * @example
+ * const findings = lintSelector("(//button[normalize-space()='Create Account'])[1]");
+ * // index-based-xpath, suggestion: role=button[name="Create Account"i]
+ */
+
+import { Page } from '@playwright/test';
+import { DefinedLocator, inferStrategy } from './LocatorRegistry';
+import { frameLocatorFor, locateInFrames } from './FrameSelector';
+
+export type LocatorLintRule = 'index-based-xpath' | 'absolute-xpath' | 'long-class-chain' | 'text-only';
+
+export interface LocatorLintFinding {
+  rule: LocatorLintRule;
+  message: string;
+  /** Sturdier alternative, when one can be derived from the selector */
+  suggestion?: string;
+}
+
+/** A locator to check: named (defineLocators) or an entry of a plain selector map */
+export interface LocatorTarget {
+  /** Logical name, or `<export>.<key>` for plain maps */
+  name: string;
+  file: string;
+  candidates: string[];
+  frame?: string;
+}
+
+export interface LocatorMatch {
+  target: LocatorTarget;
+  selector: string;
+  count: number;
+  status: 'none' | 'unique' | 'many' | 'error';
+  error?: string;
+}
+
+const MAX_CLASSES = 2;
+
+/** Tag -> ARIA role for text-based suggestions */
+const TAG_ROLES: Record<string, string> = {
+  button: 'button',
+  a: 'link',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  option: 'option',
+  li: 'listitem'
+};
+
+/**
+ * Text an XPath selects on, and the tag it applies to ('*' when any)
+ */
+function xpathTextTarget(selector: string): { tag: string; text: string } | undefined {
+  const match = selector.match(
+    /\/\/([\w*-]+)\[\s*(?:normalize-space\(\s*\)|text\(\)|\.)\s*=\s*(['"])(.*?)\2\s*\]|\/\/([\w*-]+)\[\s*contains\(\s*(?:text\(\)|\.)\s*,\s*(['"])(.*?)\5\s*\)\s*\]/
+  );
+  if (!match) return undefined;
+  return match[1] ? { tag: match[1], text: match[3] } : { tag: match[4], text: match[6] };
+}
+
+/**
+ * Role, label or test id alternative to finding an element by its text; never another text selector
+ */
+function roleSuggestion(tag: string, text: string): string {
+  const role = TAG_ROLES[tag.toLowerCase()];
+  const name = JSON.stringify(text);
+  if (role) return `role=${role}[name=${name}i]`;
+  // The labelled control is named after its label
+  if (tag.toLowerCase() === 'label') return `role=textbox[name=${name}i] (or the labelled control's role)`;
+  if (tag === '*') return `role=button[name=${name}i] or role=link[name=${name}i] (the element's role), or data-testid=...`;
+  return `data-testid=... on the element, role=textbox[name=${name}i] if the text labels a field, or the role and name of its control`;
+}
+
+function countClasses(selector: string, strategy: string): number {
+  // Dots inside quoted text ('example.com') are not classes, nor anything in an XPath
+  const unquoted = selector.replace(/(['"]).*?\1/g, '""');
+  const cssClasses = strategy === 'xpath' ? 0 : unquoted.match(/\.[A-Za-z_-][\w-]*/g)?.length ?? 0;
+  const attributeClasses = Array.from(selector.matchAll(/@?class\s*=\s*(['"])(.*?)\1/g))
+    .map(match => match[2].trim().split(/\s+/).filter(Boolean).length);
+  return Math.max(cssClasses, ...attributeClasses, 0);
+}
+
+/**
+ * Static lint of one selector string
+ */
+export function lintSelector(selector: string): LocatorLintFinding[] {
+  const findings: LocatorLintFinding[] = [];
+  const strategy = inferStrategy(selector);
+  const textTarget = strategy === 'xpath' ? xpathTextTarget(selector) : undefined;
+
+  if (strategy === 'xpath') {
+    const body = selector.replace(/^xpath=/, '').trim();
+    if (/^\/(?!\/)/.test(body)) {
+      findings.push({
+        rule: 'absolute-xpath',
+        message: 'absolute XPath breaks on any layout change',
+        suggestion: textTarget ? roleSuggestion(textTarget.tag, textTarget.text) : 'anchor on a unique id, data-testid or role'
+      });
+    }
+    if (/\[\s*\d+\s*\]/.test(body) || /\[\s*(?:position\(\)|last\(\))/.test(body)) {
+      findings.push({
+        rule: 'index-based-xpath',
+        message: 'positional index depends on element order',
+        suggestion: textTarget
+          ? roleSuggestion(textTarget.tag, textTarget.text)
+          : 'scope to a unique container or add a data-testid instead of an index'
+      });
+    }
+  }
+
+  const classes = countClasses(selector, strategy);
+  if (classes > MAX_CLASSES) {
+    findings.push({
+      rule: 'long-class-chain',
+      message: `depends on ${classes} class names, which change with styling`,
+      suggestion: 'add a data-testid (data-testid=...) or keep a single stable class'
+    });
+  }
+
+  const cssText = selector.match(/^(?:internal:text=|text=)(.*)$/) ?? selector.match(/^([\w-]+):has-text\((['"])(.*?)\2\)$/);
+  if (textTarget && new RegExp(`^\\(?//${textTarget.tag.replace('*', '\\*')}\\[[^\\]]*\\]\\)?(\\[\\d+\\])?$`).test(selector.trim())) {
+    findings.push({
+      rule: 'text-only',
+      message: `identified by its text "${textTarget.text}" only`,
+      suggestion: roleSuggestion(textTarget.tag, textTarget.text)
+    });
+  } else if (cssText) {
+    const tag = cssText.length > 3 ? cssText[1] : '*';
+    const text = (cssText.length > 3 ? cssText[3] : cssText[1]).replace(/^["']|["']i?$/g, '');
+    findings.push({
+      rule: 'text-only',
+      message: `identified by its text "${text}" only`,
+      suggestion: roleSuggestion(tag, text)
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Locators to check from a loaded locator module: named locators, plus string entries of plain
+ * selector maps when `includePlain` is set (URLs are skipped)
+ */
+export function locatorTargetsOfModule(
+  file: string,
+  moduleExports: Record<string, unknown>,
+  named: DefinedLocator[],
+  includePlain = false
+): LocatorTarget[] {
+  const targets: LocatorTarget[] = named.map(({ descriptor }) => ({
+    name: descriptor.name,
+    file,
+    candidates: descriptor.candidates,
+    frame: descriptor.frame
+  }));
+  if (!includePlain) return targets;
+
+  const namedExports = new Set(named.map(located => located.exportName));
+  Object.entries(moduleExports)
+    .filter(([exportName, value]) => !namedExports.has(exportName) && typeof value === 'object' && value !== null)
+    .forEach(([exportName, value]) => {
+      Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+        const candidates = (Array.isArray(entry) ? entry : [entry])
+          .filter((item): item is string => typeof item === 'string' && !/^https?:\/\//.test(item));
+        if (candidates.length > 0) {
+          targets.push({ name: `${exportName}.${key}`, file, candidates });
+        }
+      });
+    });
+  return targets;
+}
+
+/**
+ * Count the elements every candidate matches on the page (inside the locator's frame, if any)
+ */
+export function countLocatorMatches(page: Page, targets: LocatorTarget[]): Promise<LocatorMatch[]> {
+  const checks = targets.flatMap(target => target.candidates.map(async (selector): Promise<LocatorMatch> => {
+    const root = target.frame ? frameLocatorFor(page, target.frame) : page;
+    try {
+      const count = await locateInFrames(root, selector).count();
+      return { target, selector, count, status: count === 0 ? 'none' : count === 1 ? 'unique' : 'many' };
+    } catch (error) {
+      return { target, selector, count: 0, status: 'error', error: (error as Error).message.split('\n')[0] };
+    }
+  }));
+  return Promise.all(checks);
+}
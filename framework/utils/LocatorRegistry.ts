@@ -0,0 +1,213 @@
+/**
+ * LocatorRegistry.ts
+ *
+ * Named locators for the page object locator files (test/locators). defineLocators() turns each
+ * entry of a plain selector map into a LocatorDescriptor carrying its logical name
+ * ("LoginPage.passwordField"), so BasePage actions log, report and heal by name instead of by
+ * raw XPath/CSS. Descriptors are accepted anywhere a SelectorDefinition is.
+ *
+ * An entry is a selector, an array of candidate selectors (auto-healing, first one is the primary),
+ * or an object with `candidates` plus an optional `frame` (selector of the iframe the element
+ * lives in, or a frame chain, see FrameSelector.ts) and `description`.
+ *
+ * findLocatorIssues() backs `npm run check-locators`: duplicate names, duplicate selectors and
+ * locators no page object or spec references. Known issues can be accepted in a baseline
+ * (test/locators/locator-issues.baseline.json), so the command fails on new issues only.
+ *
+ * @example
+ * export const LoginPageLocators = defineLocators('LoginPage', {
+ *   mobileNumberField: ["//input[@formcontrolname='email']", '#exampleFormControlInput1'],
+ *   passwordField: 'input[type="password"]',
+ *   uploadButton: { candidates: "//button[normalize-space()='Upload']", frame: 'iframe#myIframe' }
+ * });
+ * await this.fill(LoginPageLocators.passwordField, password); // logs "LoginPage.passwordField"
+ */
+
+export type LocatorStrategy = 'css' | 'xpath' | 'role' | 'text' | 'label' | 'placeholder' | 'testid' | 'mixed';
+
+export interface LocatorDescriptor {
+  /** Logical name: `<page>.<key>` */
+  readonly name: string;
+  readonly page: string;
+  readonly key: string;
+  /** Selector engine of the candidates ('mixed' when they differ) */
+  readonly strategy: LocatorStrategy;
+  /** Selectors tried in order; more than one enables auto-healing */
+  readonly candidates: string[];
+  /** Selector of the iframe containing the element, or a chain of them ('frame[name=pay] >> frame#card') */
+  readonly frame?: string;
+  readonly description?: string;
+}
+
+export type LocatorEntry =
+  | string
+  | string[]
+  | { candidates: string | string[]; frame?: string; description?: string };
+
+export type LocatorMap<T extends Record<string, LocatorEntry>> = { readonly [K in keyof T]: LocatorDescriptor };
+
+export interface DefinedLocator {
+  /** Locator file, relative to the project root */
+  file: string;
+  /** Exported name of the locator map (e.g. LoginPageLocators) */
+  exportName: string;
+  descriptor: LocatorDescriptor;
+}
+
+export interface LocatorIssue {
+  type: 'duplicate-name' | 'duplicate-selector' | 'unused';
+  /** Logical locator name */
+  locator: string;
+  file: string;
+  message: string;
+}
+
+/**
+ * Selector engine of a selector string, following Playwright's selector syntax
+ */
+export function inferStrategy(selector: string): Exclude<LocatorStrategy, 'mixed'> {
+  const trimmed = selector.trim();
+  if (/^(xpath=|\/\/|\.\.|\(\s*\/\/)/.test(trimmed)) return 'xpath';
+  if (/^internal:role=|^role=/.test(trimmed)) return 'role';
+  if (/^internal:testid=|^\[data-test(id|-id)?=|^data-test(id|-id)?=/.test(trimmed)) return 'testid';
+  if (/^internal:label=/.test(trimmed)) return 'label';
+  if (/^internal:attr=\[placeholder=|^\[placeholder=/.test(trimmed)) return 'placeholder';
+  if (/^(internal:text=|text=)/.test(trimmed)) return 'text';
+  return 'css';
+}
+
+export function isLocatorDescriptor(value: unknown): value is LocatorDescriptor {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Partial<LocatorDescriptor>;
+  return typeof candidate.name === 'string' && typeof candidate.page === 'string' && Array.isArray(candidate.candidates);
+}
+
+/**
+ * Turn a page's selector map into named locator descriptors
+ * @param page Page object name used as the name prefix (e.g. 'LoginPage')
+ * @param entries Selector, candidate list or `{ candidates, frame, description }` per locator
+ */
+export function defineLocators<T extends Record<string, LocatorEntry>>(page: string, entries: T): LocatorMap<T> {
+  const locators = {} as Record<string, LocatorDescriptor>;
+  Object.entries(entries).forEach(([key, entry]) => {
+    const details = typeof entry === 'string' || Array.isArray(entry) ? { candidates: entry } : entry;
+    const candidates = Array.isArray(details.candidates) ? [...details.candidates] : [details.candidates];
+    if (candidates.length === 0 || candidates.some(selector => typeof selector !== 'string' || selector.trim() === '')) {
+      throw new Error(`Locator ${page}.${key} needs at least one non-empty selector`);
+    }
+
+    const strategies = Array.from(new Set(candidates.map(inferStrategy)));
+    locators[key] = Object.freeze({
+      name: `${page}.${key}`,
+      page,
+      key,
+      strategy: strategies.length === 1 ? strategies[0] : 'mixed',
+      candidates,
+      ...(details.frame ? { frame: details.frame } : {}),
+      ...(details.description ? { description: details.description } : {})
+    });
+  });
+  return Object.freeze(locators) as LocatorMap<T>;
+}
+
+/**
+ * Every locator descriptor exported by a loaded locator module
+ */
+export function locatorsOfModule(file: string, moduleExports: Record<string, unknown>): DefinedLocator[] {
+  return Object.entries(moduleExports).flatMap(([exportName, value]) => {
+    if (typeof value !== 'object' || value === null) return [];
+    return Object.values(value)
+      .filter(isLocatorDescriptor)
+      .map(descriptor => ({ file, exportName, descriptor }));
+  });
+}
+
+/**
+ * Static checks over the locator files: duplicate logical names, selectors defined twice
+ * (same frame and candidates), and locators that no source file references.
+ * @param locators Descriptors from locatorsOfModule()
+ * @param sources Page objects, specs and other code that may reference the locator maps
+ */
+export function findLocatorIssues(
+  locators: DefinedLocator[],
+  sources: Array<{ file: string; content: string }>
+): LocatorIssue[] {
+  const issues: LocatorIssue[] = [];
+
+  const byName = new Map<string, DefinedLocator[]>();
+  const bySelector = new Map<string, DefinedLocator[]>();
+  locators.forEach(located => {
+    const { name, candidates, frame } = located.descriptor;
+    byName.set(name, [...(byName.get(name) ?? []), located]);
+    const selectorKey = `${frame ?? ''} ${candidates.join(' | ')}`;
+    bySelector.set(selectorKey, [...(bySelector.get(selectorKey) ?? []), located]);
+  });
+
+  byName.forEach((defined, name) => {
+    if (defined.length < 2) return;
+    defined.forEach(located => issues.push({
+      type: 'duplicate-name',
+      locator: name,
+      file: located.file,
+      message: `${name} is defined ${defined.length} times (${defined.map(other => `${other.file} ${other.exportName}`).join(', ')})`
+    }));
+  });
+
+  bySelector.forEach(defined => {
+    if (defined.length < 2) return;
+    const names = defined.map(located => located.descriptor.name);
+    defined.forEach(located => issues.push({
+      type: 'duplicate-selector',
+      locator: located.descriptor.name,
+      file: located.file,
+      message: `${located.descriptor.name} has the same selector(s) as ${names.filter(name => name !== located.descriptor.name).join(', ')}`
+    }));
+  });
+
+  locators.forEach(located => {
+    // References go through the exported map or a local alias of it (`const locators = LoginPageLocators`)
+    const { exportName, descriptor } = located;
+    const used = sources.some(source => {
+      const aliases = Array.from(
+        source.content.matchAll(new RegExp(`(?:const|let|var)\\s+(\\w+)\\s*=\\s*${exportName}\\b|${exportName}\\s+as\\s+(\\w+)`, 'g'))
+      ).map(match => match[1] ?? match[2]);
+      return [exportName, ...aliases].some(mapName =>
+        new RegExp(`\\b${mapName}\\s*(?:\\.\\s*${descriptor.key}\\b|\\[\\s*['"\`]${descriptor.key}['"\`]\\s*\\])`).test(source.content)
+      );
+    });
+    if (!used) {
+      issues.push({
+        type: 'unused',
+        locator: descriptor.name,
+        file: located.file,
+        message: `${descriptor.name} (${exportName}.${descriptor.key}) is not referenced by any page object or spec`
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Identity of an issue in the baseline: `<type> <locator>` (e.g. `unused LoginPage.enterOTP`)
+ */
+export function locatorIssueKey(issue: Pick<LocatorIssue, 'type' | 'locator'>): string {
+  return `${issue.type} ${issue.locator}`;
+}
+
+/**
+ * Split issues into new ones and the ones accepted by the baseline, and list the baseline entries
+ * that no longer occur (fixed, so they can be dropped from the baseline)
+ */
+export function compareWithBaseline(
+  issues: LocatorIssue[],
+  baseline: string[]
+): { fresh: LocatorIssue[]; known: LocatorIssue[]; resolved: string[] } {
+  const accepted = new Set(baseline);
+  const current = new Set(issues.map(issue => locatorIssueKey(issue)));
+  return {
+    fresh: issues.filter(issue => !accepted.has(locatorIssueKey(issue))),
+    known: issues.filter(issue => accepted.has(locatorIssueKey(issue))),
+    resolved: baseline.filter(key => !current.has(key))
+  };
+}
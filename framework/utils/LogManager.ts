@@ -0,0 +1,302 @@
+/**
+ * LogManager.ts
+ *
+ * Routes the records of every Logger to the configured sinks and adds the test context to them.
+ * Each record carries the level, logger name (page object or class), message and, inside a test,
+ * the test id and title, worker index, retry, profile and current step (see Step.ts).
+ *
+ * Levels: the profile `logging.level` is the global verbosity and `logging.levels` overrides it per
+ * namespace (logger name, dotted prefix of child loggers, or 'BasePage' for all page objects).
+ * LOG_LEVEL takes precedence over both: `LOG_LEVEL=debug`, `LOG_LEVEL=BasePage=warn,EmailService=debug`
+ * or `LOG_LEVEL=info,BasePage=warn`.
+ *
+ * Sinks, set with the profile `logging` block:
+ *   - console: 'pretty' (timestamped lines, the default), 'json' (one JSON object per line) or 'off'
+ *   - file: one JSON-lines file per test (`test-log.jsonl` in the test output folder), attached to
+ *     the Playwright report by BaseTest
+ * Extra sinks can be registered with addSink().
+ *
+ * @example
+ * // config.<profile>.yaml
+ * logging:
+ *   level: DEBUG
+ *   levels: { BasePage: warn, NetworkMocker: debug }
+ *   console: json
+ *   file: true
+ *
+ * // {"time":"...","level":"INFO","logger":"LoginPage","message":"Password entered","testId":"...",
+ * //  "test":"login works","worker":0,"retry":0,"profile":"development","step":"LoginPage.login"}
+ */
+
+import * as fs from 'fs';
+import { TestInfo } from '@playwright/test';
+import { ConsoleLogFormat, LogLevelName, LoggingConfig } from './ProfileConfig';
+import { LOG_LEVELS } from './ProfileValidator';
+
+export const TEST_LOG_FILE = 'test-log.jsonl';
+
+export interface LogRecord {
+  time: string;
+  level: LogLevelName;
+  /** Logger name: the page object or class that logged */
+  logger: string;
+  message: string;
+  args?: unknown[];
+  testId?: string;
+  test?: string;
+  worker?: number;
+  retry?: number;
+  profile?: string;
+  /** Current step path, outermost first ('Checkout > SwagLabsPage.login') */
+  step?: string;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+  close?(): void;
+}
+
+interface TestContext {
+  testId: string;
+  test: string;
+  worker: number;
+  retry: number;
+  profile: string;
+}
+
+function consoleMethod(level: LogLevelName): 'debug' | 'info' | 'warn' | 'error' {
+  return level.toLowerCase() as 'debug' | 'info' | 'warn' | 'error';
+}
+
+/**
+ * JSON line for a record; values JSON cannot hold (errors, circular objects) are stringified
+ */
+export function toJsonLine(record: LogRecord): string {
+  const seen = new WeakSet<object>();
+  return JSON.stringify(record, (_key, value: unknown) => {
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+    if (typeof value === 'object' && value !== null) {
+      if (seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
+export class PrettyConsoleSink implements LogSink {
+  write(record: LogRecord): void {
+    console[consoleMethod(record.level)](`[${record.time}] [${record.level}] [${record.logger}] ${record.message}`, ...(record.args ?? []));
+  }
+}
+
+export class JsonConsoleSink implements LogSink {
+  write(record: LogRecord): void {
+    console[consoleMethod(record.level)](toJsonLine(record));
+  }
+}
+
+export class JsonFileSink implements LogSink {
+  private fd: number | undefined;
+
+  constructor(readonly filePath: string) {
+    this.fd = fs.openSync(filePath, 'a');
+  }
+
+  write(record: LogRecord): void {
+    if (this.fd !== undefined) {
+      fs.writeSync(this.fd, `${toJsonLine(record)}\n`);
+    }
+  }
+
+  close(): void {
+    if (this.fd !== undefined) {
+      fs.closeSync(this.fd);
+      this.fd = undefined;
+    }
+  }
+}
+
+function createConsoleSink(format: ConsoleLogFormat): LogSink | undefined {
+  if (format === 'off') return undefined;
+  return format === 'json' ? new JsonConsoleSink() : new PrettyConsoleSink();
+}
+
+function toLevelName(value: string): LogLevelName | undefined {
+  const level = value.trim().toUpperCase();
+  return LOG_LEVELS.find(name => name === level);
+}
+
+/**
+ * Parse a LOG_LEVEL value: a global level, namespace overrides, or both
+ * (`debug`, `BasePage=warn,EmailService=debug`, `info,BasePage=warn`)
+ */
+export function parseLogLevelSpec(spec: string): { level?: LogLevelName; namespaces: Record<string, LogLevelName> } {
+  const parsed: { level?: LogLevelName; namespaces: Record<string, LogLevelName> } = { namespaces: {} };
+  spec.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [namespace, value] = part.includes('=') ? part.split('=', 2).map(text => text.trim()) : [undefined, part];
+    const level = toLevelName(value);
+    if (!level || namespace === '') {
+      throw new Error(`Invalid LOG_LEVEL entry "${part}": expected <level> or <namespace>=<level> with level ${LOG_LEVELS.join(', ')}`);
+    }
+    if (namespace) {
+      parsed.namespaces[namespace] = level;
+    } else {
+      parsed.level = level;
+    }
+  });
+  return parsed;
+}
+
+function levelsFromEnv(): { level?: LogLevelName; namespaces: Record<string, LogLevelName> } {
+  return parseLogLevelSpec(process.env.LOG_LEVEL ?? '');
+}
+
+export class LogManager {
+  private static instance: LogManager;
+
+  private level: LogLevelName;
+  private namespaceLevels: Map<string, LogLevelName>;
+  private readonly resolvedLevels = new Map<string, LogLevelName>();
+  private consoleFormat: ConsoleLogFormat = 'pretty';
+  private consoleSink: LogSink | undefined = new PrettyConsoleSink();
+  private fileEnabled = true;
+  private readonly sinks: LogSink[] = [];
+  private context: TestContext | undefined;
+  private testSink: JsonFileSink | undefined;
+  private readonly steps: string[] = [];
+
+  private constructor() {
+    // Until a profile is applied (module scope, scripts): LOG_LEVEL only
+    const fromEnv = levelsFromEnv();
+    this.level = fromEnv.level ?? 'INFO';
+    this.namespaceLevels = new Map(Object.entries(fromEnv.namespaces));
+  }
+
+  public static getInstance(): LogManager {
+    if (!LogManager.instance) {
+      LogManager.instance = new LogManager();
+    }
+    return LogManager.instance;
+  }
+
+  /**
+   * Apply a profile `logging` block; missing keys fall back to INFO, pretty console and test files on.
+   * LOG_LEVEL (global level and/or namespace overrides) wins over the profile.
+   */
+  public configure(config: LoggingConfig = {}): void {
+    const fromEnv = levelsFromEnv();
+    this.level = fromEnv.level ?? (config.level ? toLevelName(config.level) : undefined) ?? 'INFO';
+    this.namespaceLevels = new Map<string, LogLevelName>();
+    Object.entries(config.levels ?? {}).forEach(([namespace, level]) => {
+      const name = toLevelName(level);
+      if (name) this.namespaceLevels.set(namespace, name);
+    });
+    Object.entries(fromEnv.namespaces).forEach(([namespace, level]) => this.namespaceLevels.set(namespace, level));
+    this.resolvedLevels.clear();
+
+    this.fileEnabled = config.file ?? true;
+    const consoleFormat = config.console ?? 'pretty';
+    if (consoleFormat !== this.consoleFormat) {
+      this.consoleFormat = consoleFormat;
+      this.consoleSink = createConsoleSink(consoleFormat);
+    }
+  }
+
+  /**
+   * Global level: loggers without a level of their own or a namespace override
+   */
+  public getLevel(): LogLevelName {
+    return this.level;
+  }
+
+  /**
+   * Level of a logger: the override of its name or of the longest dotted prefix of it
+   * ('LoginPage.API' -> 'LoginPage.API', then 'LoginPage'), then of its extra namespaces
+   * (page objects also belong to 'BasePage'), then the global level
+   */
+  public levelFor(name: string, namespaces: string[] = []): LogLevelName {
+    const cacheKey = [name, ...namespaces].join('|');
+    const cached = this.resolvedLevels.get(cacheKey);
+    if (cached) return cached;
+
+    let resolved = this.level;
+    for (const candidate of [name, ...namespaces]) {
+      const parts = candidate.split('.');
+      const match = parts
+        .map((_part, index) => parts.slice(0, parts.length - index).join('.'))
+        .find(prefix => this.namespaceLevels.has(prefix));
+      if (match) {
+        resolved = this.namespaceLevels.get(match) ?? resolved;
+        break;
+      }
+    }
+    this.resolvedLevels.set(cacheKey, resolved);
+    return resolved;
+  }
+
+  public isLevelEnabled(level: LogLevelName, minimum: LogLevelName = this.level): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+  }
+
+  /**
+   * Register an extra sink; returns a function that removes it
+   */
+  public addSink(sink: LogSink): () => void {
+    this.sinks.push(sink);
+    return () => {
+      const index = this.sinks.indexOf(sink);
+      if (index >= 0) this.sinks.splice(index, 1);
+      sink.close?.();
+    };
+  }
+
+  /**
+   * Add the test context to the following records and open the test's log file (when enabled)
+   * @returns Path of the test log file, if one is written
+   */
+  public startTest(testInfo: TestInfo, profile: string): string | undefined {
+    this.endTest();
+    this.context = {
+      testId: testInfo.testId,
+      test: testInfo.titlePath.slice(1).join(' › '),
+      worker: testInfo.workerIndex,
+      retry: testInfo.retry,
+      profile
+    };
+    if (!this.fileEnabled) return undefined;
+    this.testSink = new JsonFileSink(testInfo.outputPath(TEST_LOG_FILE));
+    return this.testSink.filePath;
+  }
+
+  public endTest(): void {
+    this.testSink?.close();
+    this.testSink = undefined;
+    this.context = undefined;
+    this.steps.length = 0;
+  }
+
+  public pushStep(title: string): void {
+    this.steps.push(title);
+  }
+
+  public popStep(title: string): void {
+    const index = this.steps.lastIndexOf(title);
+    if (index >= 0) this.steps.splice(index, 1);
+  }
+
+  /**
+   * Send a record to the console, the test log file and the extra sinks
+   */
+  public write(record: Omit<LogRecord, keyof TestContext | 'step'>): void {
+    const full: LogRecord = {
+      ...record,
+      ...(this.context ?? {}),
+      ...(this.steps.length > 0 ? { step: this.steps.join(' > ') } : {})
+    };
+    this.consoleSink?.write(full);
+    this.testSink?.write(full);
+    this.sinks.forEach(sink => sink.write(full));
+  }
+}
+
+export const logManager = LogManager.getInstance();
@@ -1,3 +1,8 @@
+import { redactor } from './Redactor';
+import { step } from './Step';
+import { logManager } from './LogManager';
+import { LogLevelName } from './ProfileConfig';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
@@ -7,19 +12,25 @@ export enum LogLevel {
 
 export class Logger {
   private className: string;
-  private logLevel: LogLevel;
+  private logLevel?: LogLevel;
+  private namespaces: string[];
 
-  constructor(className: string, logLevel: LogLevel = LogLevel.INFO) {
+  /**
+   * @param className Logger name in every record (page object or class)
+   * @param logLevel Fixed level; by default the profile `logging` levels (or LOG_LEVEL) apply
+   * @param namespaces Extra namespaces whose level override applies when the name has none (e.g. 'BasePage')
+   */
+  constructor(className: string, logLevel?: LogLevel, namespaces: string[] = []) {
     this.className = className;
-    this.logLevel = process.env.LOG_LEVEL ? 
-      LogLevel[process.env.LOG_LEVEL as keyof typeof LogLevel] : logLevel;
+    this.logLevel = logLevel;
+    this.namespaces = namespaces;
   }
 
   /**
    * Log debug message
    */
   debug(message: string, ...args: any[]): void {
-    if (this.logLevel <= LogLevel.DEBUG) {
+    if (this.getLogLevel() <= LogLevel.DEBUG) {
       this.log('DEBUG', message, ...args);
     }
   }
@@ -28,7 +39,7 @@ export class Logger {
    * Log info message
    */
   info(message: string, ...args: any[]): void {
-    if (this.logLevel <= LogLevel.INFO) {
+    if (this.getLogLevel() <= LogLevel.INFO) {
       this.log('INFO', message, ...args);
     }
   }
@@ -37,7 +48,7 @@ export class Logger {
    * Log warning message
    */
   warn(message: string, ...args: any[]): void {
-    if (this.logLevel <= LogLevel.WARN) {
+    if (this.getLogLevel() <= LogLevel.WARN) {
       this.log('WARN', message, ...args);
     }
   }
@@ -46,7 +57,7 @@ export class Logger {
    * Log error message
    */
   error(message: string, error?: Error, ...args: any[]): void {
-    if (this.logLevel <= LogLevel.ERROR) {
+    if (this.getLogLevel() <= LogLevel.ERROR) {
       if (error) {
         this.log('ERROR', `${message} - ${error.message}`, error.stack, ...args);
       } else {
@@ -56,25 +67,11 @@ export class Logger {
   }
 
   /**
-   * Log step for test reporting
+   * Log step for test reporting; runs as a Playwright test.step (HTML report, trace, Allure)
+   * inside a test, see Step.ts
    */
-  step(stepName: string, action: () => Promise<void> | void): Promise<void> | void {
-    this.info(`🔹 Step: ${stepName}`);
-    const result = action();
-    
-    if (result instanceof Promise) {
-      return result
-        .then(() => {
-          this.info(`✅ Step completed: ${stepName}`);
-        })
-        .catch((error) => {
-          this.error(`❌ Step failed: ${stepName}`, error);
-          throw error;
-        });
-    } else {
-      this.info(`✅ Step completed: ${stepName}`);
-      return result;
-    }
+  step<T>(stepName: string, action: () => Promise<T> | T): Promise<T> {
+    return step(stepName, action, { logger: this });
   }
 
   /**
@@ -128,35 +125,24 @@ export class Logger {
   }
 
   /**
-   * Core logging method
+   * Core logging method: builds the record (secret values are masked, see Redactor) and hands it to
+   * the LogManager sinks
    */
-  private log(level: string, message: string, ...args: any[]): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] [${level}] [${this.className}] ${message}`;
-    
-    switch (level) {
-      case 'DEBUG':
-        console.debug(logMessage, ...args);
-        break;
-      case 'INFO':
-        console.info(logMessage, ...args);
-        break;
-      case 'WARN':
-        console.warn(logMessage, ...args);
-        break;
-      case 'ERROR':
-        console.error(logMessage, ...args);
-        break;
-      default:
-        console.log(logMessage, ...args);
-    }
+  private log(level: LogLevelName, message: string, ...rawArgs: any[]): void {
+    logManager.write({
+      time: new Date().toISOString(),
+      level,
+      logger: this.className,
+      message: redactor.redact(message),
+      ...(rawArgs.length > 0 ? { args: rawArgs.map(arg => redactor.redactValue(arg)) } : {})
+    });
   }
 
   /**
    * Create a child logger with additional context
    */
   child(context: string): Logger {
-    return new Logger(`${this.className}.${context}`, this.logLevel);
+    return new Logger(`${this.className}.${context}`, this.logLevel, this.namespaces);
   }
 
   /**
@@ -170,6 +156,6 @@ export class Logger {
    * Get current log level
    */
   getLogLevel(): LogLevel {
-    return this.logLevel;
+    return this.logLevel ?? LogLevel[logManager.levelFor(this.className, this.namespaces)];
   }
 }
\ No newline at end of file
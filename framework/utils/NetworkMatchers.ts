@@ -0,0 +1,370 @@
+/**
+ * NetworkMatchers.ts
+ *
+ * Custom `expect` matchers over the network traffic captured by BasePage.captureNetworkRequests().
+ * The received value is a page object (anything with getNetworkRequests()) or an array of captured
+ * entries. When an assertion fails, the message lists the captured requests closest to the expectation.
+ * Matchers that wait for traffic retry until the expect timeout, like Playwright's web-first assertions.
+ * URLs and bodies are matched as sent (getUnredactedNetworkRequests()), so a filter on a query token
+ * or a typed schema still matches; failure messages are redacted.
+ * BaseTest registers them on the exported `expect`.
+ *
+ * @example
+ * loginPage.captureNetworkRequests();
+ * await loginPage.login(user);
+ * await expect(loginPage).toHaveMadeRequest({ url: '/api/login', method: 'POST', status: 200 });
+ * await expect(loginPage).toHaveRequestBodyMatching({ type: 'object', required: ['username'] }, { url: '/api/login' });
+ * await expect(loginPage).toCompleteWithin(2000, { url: /\/api\// });
+ * expect(loginPage).toHaveNoFailedRequests({ ignore: [/analytics/] });
+ */
+
+import type { ExpectMatcherState, MatcherReturnType } from '@playwright/test';
+import type { NetworkRequestEntry } from '../core/BasePage';
+import { REDACTED, redactor } from './Redactor';
+
+export type NetworkRequestSource =
+  | { getNetworkRequests(): NetworkRequestEntry[]; getUnredactedNetworkRequests?(): NetworkRequestEntry[] }
+  | NetworkRequestEntry[];
+
+export interface RequestFilter {
+  /** Substring of the URL, or a regex */
+  url?: string | RegExp;
+  method?: string;
+  status?: number;
+  /** Retry timeout in ms (default: the expect timeout) */
+  timeout?: number;
+}
+
+export interface FailedRequestOptions {
+  /** URLs (substring or regex) whose failures are ignored */
+  ignore?: Array<string | RegExp>;
+}
+
+/**
+ * Subset of JSON Schema understood by toHaveRequestBodyMatching():
+ * type, properties, required, additionalProperties (boolean), items, enum, const, pattern,
+ * minLength/maxLength, minimum/maximum and minItems/maxItems
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+const CLOSEST_REQUESTS = 5;
+const POLL_INTERVAL = 100;
+
+/** Captured requests as sent, when the source keeps them (page objects); redacted ones otherwise */
+function capturedRequests(source: NetworkRequestSource): NetworkRequestEntry[] {
+  if (Array.isArray(source)) return source;
+  if (source && typeof source.getUnredactedNetworkRequests === 'function') return source.getUnredactedNetworkRequests();
+  if (source && typeof source.getNetworkRequests === 'function') return source.getNetworkRequests();
+  throw new Error('Network matchers expect a page object with getNetworkRequests() or an array of captured requests');
+}
+
+function urlMatches(url: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string' ? url.includes(expected) : expected.test(url);
+}
+
+function matchesFilter(entry: NetworkRequestEntry, filter: RequestFilter): boolean {
+  return (
+    (filter.url === undefined || urlMatches(entry.url, filter.url)) &&
+    (filter.method === undefined || entry.method.toUpperCase() === filter.method.toUpperCase()) &&
+    (filter.status === undefined || entry.status === filter.status)
+  );
+}
+
+function describeFilter(filter: RequestFilter): string {
+  const parts = [
+    filter.method?.toUpperCase(),
+    filter.url === undefined ? 'any URL' : redactor.redact(String(filter.url)),
+    filter.status === undefined ? undefined : `→ ${filter.status}`
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+function describeRequest(entry: NetworkRequestEntry): string {
+  const status = entry.status === undefined ? 'pending' : `${entry.status}`;
+  const duration = entry.duration === undefined ? '' : ` (${entry.duration}ms)`;
+  return `${entry.method} ${redactor.redact(entry.url)} → ${status}${duration}`;
+}
+
+/** Share of the expected URL that the captured URL matches, 1 for a full match */
+function urlSimilarity(url: string, expected: string | RegExp): number {
+  if (urlMatches(url, expected)) return 1;
+  if (typeof expected !== 'string') return 0;
+  let best = 0;
+  for (let start = 0; start < expected.length && expected.length - start > best; start++) {
+    let length = 0;
+    while (start + length < expected.length && url.includes(expected.slice(start, start + length + 1))) {
+      length++;
+    }
+    best = Math.max(best, length);
+  }
+  return best / expected.length;
+}
+
+/** Captured requests ranked by how close they are to the filter, with the mismatching fields */
+function closestRequests(requests: NetworkRequestEntry[], filter: RequestFilter): string {
+  if (requests.length === 0) {
+    return 'No requests were captured (is captureNetworkRequests() started before the action?)';
+  }
+  const ranked = requests
+    .map(entry => {
+      const mismatches: string[] = [];
+      let score = 0;
+      if (filter.url !== undefined) {
+        const similarity = urlSimilarity(entry.url, filter.url);
+        score += similarity * 2;
+        if (similarity < 1) mismatches.push('url');
+      }
+      if (filter.method !== undefined) {
+        if (entry.method.toUpperCase() === filter.method.toUpperCase()) score += 1;
+        else mismatches.push('method');
+      }
+      if (filter.status !== undefined) {
+        if (entry.status === filter.status) score += 1;
+        else mismatches.push('status');
+      }
+      return { entry, mismatches, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CLOSEST_REQUESTS);
+
+  const lines = ranked.map(({ entry, mismatches }) =>
+    `  - ${describeRequest(entry)}${mismatches.length > 0 ? `  [differs: ${mismatches.join(', ')}]` : ''}`
+  );
+  const more = requests.length > ranked.length ? `\n  ... and ${requests.length - ranked.length} more` : '';
+  return `Closest captured requests (${requests.length} captured):\n${lines.join('\n')}${more}`;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a JSON schema subset. Values under sensitive keys (see Redactor) are
+ * checked as they are but shown as [REDACTED] in the messages, other values are redacted as text.
+ * @returns One message per violation, empty when the value matches
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = 'body'): string[] {
+  return checkSchema(value, schema, path, false);
+}
+
+function checkSchema(value: unknown, schema: JsonSchema, path: string, sensitive: boolean): string[] {
+  const errors: string[] = [];
+  const actualType = typeOf(value);
+  // Only the value is redacted: `body.otp: is required` would read as an OTP pair to the redactor
+  const shown = sensitive ? REDACTED : redactor.redact(JSON.stringify(value));
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const typeMatches = allowed.includes(actualType) || (actualType === 'integer' && allowed.includes('number'));
+    if (!typeMatches) {
+      return [`${path}: expected ${allowed.join(' | ')}, got ${actualType}`];
+    }
+  }
+  if (schema.const !== undefined && !sameValue(value, schema.const)) {
+    errors.push(`${path}: expected ${JSON.stringify(schema.const)}, got ${shown}`);
+  }
+  if (schema.enum && !schema.enum.some(option => sameValue(value, option))) {
+    errors.push(`${path}: expected one of ${JSON.stringify(schema.enum)}, got ${shown}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: ${shown} does not match /${schema.pattern}/`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: ${shown} is below ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: ${shown} is above ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => errors.push(...checkSchema(item, itemSchema, `${path}[${index}]`, sensitive)));
+    }
+  }
+  if (actualType === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? [])
+      .filter(key => !(key in record))
+      .forEach(key => errors.push(`${path}.${key}: is required`));
+    Object.entries(schema.properties ?? {})
+      .filter(([key]) => key in record)
+      .forEach(([key, propertySchema]) => errors.push(
+        ...checkSchema(record[key], propertySchema, `${path}.${key}`, sensitive || redactor.isSensitiveKey(key))
+      ));
+    if (schema.additionalProperties === false) {
+      Object.keys(record)
+        .filter(key => !(key in (schema.properties ?? {})))
+        .forEach(key => errors.push(`${path}.${key}: is not allowed`));
+    }
+  }
+  return errors;
+}
+
+interface CheckResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Re-run the check until it gives the wanted outcome (pass, or fail for `.not`) or the timeout expires
+ */
+async function retry(check: () => CheckResult, isNot: boolean, timeout: number): Promise<CheckResult> {
+  const result = check();
+  if (result.pass !== isNot || timeout <= 0) {
+    return result;
+  }
+  await new Promise(resolve => {
+    setTimeout(resolve, POLL_INTERVAL);
+  });
+  return retry(check, isNot, timeout - POLL_INTERVAL);
+}
+
+function requestBody(entry: NetworkRequestEntry): unknown {
+  if (typeof entry.requestBody !== 'string') return entry.requestBody;
+  try {
+    return JSON.parse(entry.requestBody);
+  } catch {
+    return entry.requestBody;
+  }
+}
+
+export const networkMatchers = {
+  /**
+   * Passes when a captured request matches the URL (substring or regex), method and status
+   */
+  async toHaveMadeRequest(this: ExpectMatcherState, source: NetworkRequestSource, filter: RequestFilter): Promise<MatcherReturnType> {
+    const hint = this.utils.matcherHint('toHaveMadeRequest', undefined, undefined, { isNot: this.isNot });
+    const result = await retry(() => {
+      const requests = capturedRequests(source);
+      const matching = requests.filter(entry => matchesFilter(entry, filter));
+      return {
+        pass: matching.length > 0,
+        message: () =>
+          matching.length > 0
+            ? `${hint}\n\nExpected no request matching ${describeFilter(filter)}, found:\n${matching.map(entry => `  - ${describeRequest(entry)}`).join('\n')}`
+            : `${hint}\n\nExpected a request matching ${describeFilter(filter)}\n\n${closestRequests(requests, filter)}`
+      };
+    }, this.isNot, filter.timeout ?? this.timeout);
+    return { ...result, name: 'toHaveMadeRequest', expected: filter };
+  },
+
+  /**
+   * Passes when no captured request failed (status >= 400), except the ignored URLs
+   */
+  toHaveNoFailedRequests(this: ExpectMatcherState, source: NetworkRequestSource, options: FailedRequestOptions = {}): MatcherReturnType {
+    const hint = this.utils.matcherHint('toHaveNoFailedRequests', undefined, '', { isNot: this.isNot });
+    const ignore = options.ignore ?? [];
+    const failed = capturedRequests(source).filter(
+      entry => entry.status !== undefined && entry.status >= 400 && !ignore.some(pattern => urlMatches(entry.url, pattern))
+    );
+    return {
+      pass: failed.length === 0,
+      name: 'toHaveNoFailedRequests',
+      message: () =>
+        failed.length > 0
+          ? `${hint}\n\nExpected no failed requests, found ${failed.length}:\n${failed.map(entry => `  - ${describeRequest(entry)}`).join('\n')}`
+          : `${hint}\n\nExpected failed requests, but every captured request succeeded`
+    };
+  },
+
+  /**
+   * Passes when every captured request matching the filter has a body valid against the schema
+   * (and at least one such request was captured)
+   */
+  async toHaveRequestBodyMatching(
+    this: ExpectMatcherState,
+    source: NetworkRequestSource,
+    schema: JsonSchema,
+    filter: RequestFilter = {}
+  ): Promise<MatcherReturnType> {
+    const hint = this.utils.matcherHint('toHaveRequestBodyMatching', undefined, 'schema', { isNot: this.isNot });
+    const result = await retry(() => {
+      // Bodies redacted for logging would fail typed schemas ("[REDACTED]" is no number)
+      const requests = capturedRequests(source);
+      const matching = requests.filter(entry => matchesFilter(entry, filter) && entry.requestBody !== undefined);
+      if (matching.length === 0) {
+        return {
+          pass: false,
+          message: () => `${hint}\n\nNo captured request with a body matches ${describeFilter(filter)}\n\n${closestRequests(requests, filter)}`
+        };
+      }
+      const invalid = matching
+        .map(entry => ({ entry, errors: validateJsonSchema(requestBody(entry), schema) }))
+        .filter(({ errors }) => errors.length > 0);
+      return {
+        pass: invalid.length === 0,
+        message: () =>
+          invalid.length === 0
+            ? `${hint}\n\nExpected request bodies not to match the schema, but all ${matching.length} did`
+            : `${hint}\n\n${invalid.length} of ${matching.length} request bodies do not match the schema:\n` +
+              invalid.map(({ entry, errors }) => `  - ${describeRequest(entry)}\n${errors.map(error => `      ${error}`).join('\n')}`).join('\n')
+      };
+    }, this.isNot, filter.timeout ?? this.timeout);
+    return { ...result, name: 'toHaveRequestBodyMatching', expected: schema };
+  },
+
+  /**
+   * Passes when every captured request matching the filter completed within `maxDuration` ms.
+   * Pending requests are waited for until the expect timeout.
+   */
+  async toCompleteWithin(
+    this: ExpectMatcherState,
+    source: NetworkRequestSource,
+    maxDuration: number,
+    filter: RequestFilter = {}
+  ): Promise<MatcherReturnType> {
+    const hint = this.utils.matcherHint('toCompleteWithin', undefined, `${maxDuration}ms`, { isNot: this.isNot });
+    const result = await retry(() => {
+      const requests = capturedRequests(source);
+      const matching = requests.filter(entry => matchesFilter(entry, filter));
+      const slow = matching.filter(entry => entry.duration === undefined || entry.duration > maxDuration);
+      return {
+        pass: matching.length > 0 && slow.length === 0,
+        message: () => {
+          if (matching.length === 0) {
+            return `${hint}\n\nNo captured request matches ${describeFilter(filter)}\n\n${closestRequests(requests, filter)}`;
+          }
+          if (slow.length === 0) {
+            return `${hint}\n\nExpected a request slower than ${maxDuration}ms, but all ${matching.length} completed in time`;
+          }
+          return `${hint}\n\n${slow.length} of ${matching.length} requests did not complete within ${maxDuration}ms:\n` +
+            slow.map(entry => `  - ${describeRequest(entry)}`).join('\n');
+        }
+      };
+    }, this.isNot, filter.timeout ?? this.timeout);
+    return { ...result, name: 'toCompleteWithin', expected: maxDuration };
+  }
+};
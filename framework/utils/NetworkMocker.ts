@@ -0,0 +1,233 @@
+/**
+ * NetworkMocker.ts
+ *
+ * Declarative request interception on top of page.route(): stub a URL (glob or regex) with a status,
+ * headers and a body (inline, or JSON from test/data), add delays, return a different response on each
+ * call, and assert how often a mock was hit. Mocks are named so tests can assert on them, and are
+ * removed at test end by the `networkMock` fixture in BaseTest.
+ *
+ * One mocker exists per page (see NetworkMocker.forPage), so page objects and the fixture sharing a
+ * page share the same mocks.
+ *
+ * @example
+ * await mocker.mockApi('getCart', /\/api\/cart$/, { jsonFile: 'mocks/cart.json' });
+ * await mocker.mockApi('pay', /\/api\/payments$/, [{ status: 503 }, { json: { status: 'PAID' }, delay: 500 }], { method: 'POST' });
+ * // ... drive the UI ...
+ * await mocker.expectMockCalled('pay', 2);
+ */
+
+import { Page, Request, Route, expect } from '@playwright/test';
+import { DataHelper } from './DataHelper';
+import { Logger } from './Logger';
+
+type UrlMatcher = string | RegExp;
+
+/** Error codes accepted by route.abort() */
+export type MockAbortReason = Parameters<Route['abort']>[0];
+
+export interface MockResponse {
+  /** HTTP status (default 200) */
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  /** Raw response body */
+  body?: string | Buffer;
+  /** Response body serialized as JSON */
+  json?: unknown;
+  /** JSON file in test/data used as the response body */
+  jsonFile?: string;
+  /** Wait before responding, in milliseconds */
+  delay?: number;
+  /** Abort the request with this error code instead of responding (e.g. 'failed', 'timedout') */
+  abort?: MockAbortReason;
+}
+
+export interface MockRouteOptions {
+  /** Name used by expectMockCalled(); defaults to the URL pattern */
+  name?: string;
+  /** Only intercept this HTTP method; other methods go to the network (or the next matching route) */
+  method?: string;
+}
+
+export interface MockCall {
+  url: string;
+  method: string;
+  postData: string | null;
+  timestamp: Date;
+}
+
+interface RegisteredMock {
+  url: UrlMatcher;
+  handler: (route: Route, request: Request) => Promise<void>;
+  calls: MockCall[];
+}
+
+const DEFAULT_EXPECT_TIMEOUT = 5000;
+
+export class NetworkMocker {
+  private static readonly mockers = new WeakMap<Page, NetworkMocker>();
+  private readonly page: Page;
+  private readonly logger = new Logger('NetworkMocker');
+  private readonly mocks = new Map<string, RegisteredMock>();
+
+  private constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * The mocker of a page, created on first use
+   */
+  public static forPage(page: Page): NetworkMocker {
+    let mocker = NetworkMocker.mockers.get(page);
+    if (!mocker) {
+      mocker = new NetworkMocker(page);
+      NetworkMocker.mockers.set(page, mocker);
+    }
+    return mocker;
+  }
+
+  /**
+   * Intercept requests matching a URL glob or regex and answer them with the given response.
+   * With an array, each call gets the next response and the last one is repeated.
+   * Registering a name again replaces the previous mock.
+   * @returns The mock name
+   */
+  async mockRoute(url: UrlMatcher, response: MockResponse | MockResponse[] = {}, options: MockRouteOptions = {}): Promise<string> {
+    const name = options.name ?? String(url);
+    const responses = (Array.isArray(response) ? response : [response]).map(entry => this.resolveResponse(name, entry));
+    if (responses.length === 0) {
+      throw new Error(`Mock '${name}' needs at least one response`);
+    }
+    const method = options.method?.toUpperCase();
+
+    await this.unmock(name);
+    const calls: MockCall[] = [];
+    const handler = async (route: Route, request: Request): Promise<void> => {
+      if (method && request.method().toUpperCase() !== method) {
+        await route.fallback();
+        return;
+      }
+      calls.push({ url: request.url(), method: request.method(), postData: request.postData(), timestamp: new Date() });
+      const next = responses[Math.min(calls.length, responses.length) - 1];
+      this.logger.debug(`[Mock ${name}] ${request.method()} ${request.url()} -> ${next.abort ? `abort (${next.abort})` : next.status ?? 200}`);
+      await this.respond(route, next);
+    };
+
+    await this.page.route(url, handler);
+    this.mocks.set(name, { url, handler, calls });
+    this.logger.info(`Mocked ${method ?? 'any method'} ${url} as '${name}' (${responses.length} response${responses.length > 1 ? 's' : ''})`);
+    return name;
+  }
+
+  /**
+   * Mock a JSON API under a name. Responses default to status 200 and `application/json`.
+   *
+   * @example
+   * await mocker.mockApi('otp', /\/api\/otp\/verify/, { json: { valid: true } }, { method: 'POST' });
+   */
+  mockApi(
+    name: string,
+    url: UrlMatcher,
+    response: MockResponse | MockResponse[] = {},
+    options: Omit<MockRouteOptions, 'name'> = {}
+  ): Promise<string> {
+    const withJson = (entry: MockResponse): MockResponse => ({ contentType: 'application/json', ...entry });
+    const responses = Array.isArray(response) ? response.map(withJson) : withJson(response);
+    return this.mockRoute(url, responses, { ...options, name });
+  }
+
+  /**
+   * Requests intercepted by a mock so far
+   */
+  getMockCalls(name: string): MockCall[] {
+    return [...this.getMock(name).calls];
+  }
+
+  /**
+   * Assert that a mock was called exactly `times` times (at least once when omitted).
+   * Retries until the timeout, so requests still in flight are counted.
+   */
+  async expectMockCalled(name: string, times?: number, timeout: number = DEFAULT_EXPECT_TIMEOUT): Promise<void> {
+    const mock = this.getMock(name);
+    const poll = expect.poll(() => mock.calls.length, {
+      message: `Expected mock '${name}' (${mock.url}) to be called ${times === undefined ? 'at least once' : `${times} time(s)`}`,
+      timeout
+    });
+    if (times === undefined) {
+      await poll.toBeGreaterThan(0);
+    } else {
+      await poll.toBe(times);
+    }
+  }
+
+  /**
+   * Remove a mock; requests go to the network again
+   */
+  async unmock(name: string): Promise<void> {
+    const mock = this.mocks.get(name);
+    if (!mock) return;
+    this.mocks.delete(name);
+    if (!this.page.isClosed()) {
+      await this.page.unroute(mock.url, mock.handler);
+    }
+  }
+
+  /**
+   * Remove every mock of the page
+   */
+  async clearMocks(): Promise<void> {
+    await Promise.all(this.getMockNames().map(name => this.unmock(name)));
+  }
+
+  /**
+   * Names of the active mocks
+   */
+  getMockNames(): string[] {
+    return Array.from(this.mocks.keys());
+  }
+
+  private getMock(name: string): RegisteredMock {
+    const mock = this.mocks.get(name);
+    if (!mock) {
+      const known = this.getMockNames();
+      throw new Error(`No mock named '${name}'. Active mocks: ${known.length > 0 ? known.join(', ') : 'none'}`);
+    }
+    return mock;
+  }
+
+  /** Load `jsonFile` up front so a missing or invalid file fails when the mock is registered */
+  private resolveResponse(name: string, response: MockResponse): MockResponse {
+    const bodySources = ['body', 'json', 'jsonFile'].filter(key => response[key as keyof MockResponse] !== undefined);
+    if (bodySources.length > 1) {
+      throw new Error(`Mock '${name}': use only one of body, json and jsonFile (got ${bodySources.join(', ')})`);
+    }
+    if (response.jsonFile === undefined) {
+      return response;
+    }
+    const { jsonFile, ...rest } = response;
+    return { contentType: 'application/json', ...rest, json: DataHelper.loadJsonData(jsonFile) };
+  }
+
+  private async respond(route: Route, response: MockResponse): Promise<void> {
+    if (response.delay) {
+      await new Promise(resolve => {
+        setTimeout(resolve, response.delay);
+      });
+    }
+    try {
+      if (response.abort) {
+        await route.abort(response.abort);
+        return;
+      }
+      await route.fulfill({
+        status: response.status ?? 200,
+        headers: response.headers,
+        contentType: response.contentType,
+        body: response.json !== undefined ? JSON.stringify(response.json) : response.body
+      });
+    } catch (error) {
+      // The page may have closed while the response was delayed
+      if (!this.page.isClosed()) throw error;
+    }
+  }
+}
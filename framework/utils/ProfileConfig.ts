@@ -0,0 +1,472 @@
+/**
+ * ProfileConfig.ts
+ *
+ * Typed loader for the environment profiles in config.<profile>.yaml.
+ * The profile is selected via RUN (preferred) or NODE_ENV and defaults to 'development';
+ * RUN may list several profiles (RUN=development,preprod) for a multi-environment run.
+ * `${VAR}` / `${VAR:-default}` and `${secret:<name>}` placeholders are resolved through EnvConfig after parsing,
+ * `extends` chains and config.<profile>.local.yaml overrides are merged, and the result is
+ * validated so configuration mistakes fail before any test starts.
+ *
+ * @example
+ * const { profile } = loadProfile('preprod');
+ * console.log(profile.baseURL);
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { envConfig } from './EnvConfig';
+import { EmailConfig, SmtpConfig } from './EmailService';
+import { REDACTED, RedactionConfig, redactor } from './Redactor';
+import { VisualDiffSettings } from './VisualDiff';
+import {
+  ARTIFACTS_MODES,
+  BASELINE_KEY_PARTS,
+  BROWSERS,
+  CONSOLE_ERROR_MODES,
+  CONSOLE_LOG_FORMATS,
+  GRID_PROVIDERS,
+  KeyLocation,
+  LOG_LEVELS,
+  SCREENSHOT_MODES,
+  VIDEO_MODES,
+  formatProfileIssues,
+  indexYamlKeyLines,
+  validateProfile
+} from './ProfileValidator';
+
+export type BrowserName = (typeof BROWSERS)[number];
+export type ScreenshotMode = (typeof SCREENSHOT_MODES)[number];
+export type VideoMode = (typeof VIDEO_MODES)[number];
+export type ArtifactsMode = (typeof ARTIFACTS_MODES)[number];
+export type GridProvider = (typeof GRID_PROVIDERS)[number];
+export type ConsoleErrorMode = (typeof CONSOLE_ERROR_MODES)[number];
+export type LogLevelName = (typeof LOG_LEVELS)[number];
+/** Log level as written in YAML or LOG_LEVEL: any case ('warn' or 'WARN') */
+export type LogLevelSetting = LogLevelName | Lowercase<LogLevelName>;
+export type ConsoleLogFormat = (typeof CONSOLE_LOG_FORMATS)[number];
+export type BaselineKeyPart = (typeof BASELINE_KEY_PARTS)[number];
+
+export interface MobileSettings {
+  isMobile?: boolean;
+  device?: string;
+  viewportWidth?: number;
+  viewportHeight?: number;
+  /** Any other Playwright `use` option is passed through to the mobile project */
+  [option: string]: unknown;
+}
+
+export interface MobileConfig extends MobileSettings {
+  mobile?: MobileSettings;
+}
+
+export interface GridProviderConfig {
+  user: string;
+  key: string;
+  capabilities?: Record<string, Record<string, unknown>>;
+}
+
+export interface GridConfig {
+  isGrid: boolean;
+  provider?: GridProvider;
+  lambdatest?: GridProviderConfig;
+  browserstack?: GridProviderConfig;
+}
+
+export interface ReportConfig {
+  name?: string;
+  outputFolder?: string;
+  suiteTitle?: boolean;
+}
+
+export interface AutoHealingConfig {
+  /** When every candidate selector fails, fall back to the element that best matches the stored fingerprint */
+  fingerprint?: boolean;
+  /** Minimum fingerprint score (0-1) to accept a match; default 0.7 */
+  threshold?: number;
+}
+
+/** Viewport of a breakpoint sweep: a width, or the viewport of a Playwright device or alias */
+export interface BreakpointConfig {
+  /** Label in baseline names and messages; default: the device, or `<width>w` */
+  name?: string;
+  width?: number;
+  /** Default: the device height, or the height of the page's viewport */
+  height?: number;
+  /** Device name or alias ('Pixel 7', 'iphone12'); width and height override its viewport */
+  device?: string;
+}
+
+/** Layout checks run at every width of a breakpoint sweep */
+export interface LayoutChecksConfig {
+  /** Fail when the page scrolls horizontally (content wider than the viewport) */
+  overflow?: boolean;
+  /** Selectors whose visible elements must not overlap each other */
+  overlap?: string[];
+}
+
+/** Diff algorithm settings are the defaults of every comparison; a check can override them */
+export interface VisualConfig extends VisualDiffSettings {
+  /** A missing baseline fails the check instead of being created; default: on when CI is set */
+  strict?: boolean;
+  /**
+   * What baselines are kept apart by, in key order (default: all of browser, platform, scale, device);
+   * baselines live in screenshots/baseline/<key>/, e.g. `chromium-linux-2x-pixel7`
+   */
+  baselineKey?: BaselineKeyPart[];
+  /**
+   * Key parts dropped one after the other when the full key has no baseline yet (default: device,
+   * then scale): the baseline of a key differing only in the dropped parts is compared. Browser and
+   * platform are never dropped unless listed.
+   */
+  baselineFallback?: BaselineKeyPart[];
+  /** Default viewports of sweepBreakpoints: widths (`375`) or `{ name, width, height, device }` */
+  breakpoints?: Array<number | BreakpointConfig>;
+  layoutChecks?: LayoutChecksConfig;
+}
+
+export interface ConsoleErrorsConfig {
+  /** 'fail' fails the test, 'warn' annotates it, 'off' disables the check */
+  mode: ConsoleErrorMode;
+  /** Regexes for browser console errors and page exceptions that are expected */
+  allow?: string[];
+}
+
+export interface LoggingConfig {
+  /** Minimum level of every logger that has none set; LOG_LEVEL overrides it */
+  level?: LogLevelSetting;
+  /**
+   * Per-namespace levels: a logger name ('LoginPage'), a dotted prefix of child loggers ('LoginPage.API')
+   * or 'BasePage' for every page object, e.g. `{ BasePage: warn, EmailService: debug }`
+   */
+  levels?: Record<string, LogLevelSetting>;
+  /** Console output: timestamped lines ('pretty'), JSON lines ('json') or none ('off') */
+  console?: ConsoleLogFormat;
+  /** Write each test's log as JSON lines to a file attached to the report */
+  file?: boolean;
+}
+
+export interface ProfileConfig {
+  baseURL: string;
+  browser: BrowserName;
+  headless?: boolean;
+  /** Number of Playwright workers */
+  parallel?: number;
+  retries?: number;
+  screenshot?: ScreenshotMode;
+  video?: VideoMode;
+  /** 'on' keeps trace/screenshot/video for every test, otherwise only on failure */
+  Artifacts?: ArtifactsMode;
+  elementHighlight?: boolean;
+  mobile?: MobileConfig;
+  report?: ReportConfig;
+  reportEmail?: EmailConfig;
+  reportSmtp?: SmtpConfig;
+  grid?: GridConfig;
+  /** Extra redaction rules (header names, key and text regexes) on top of the built-in policy */
+  redaction?: RedactionConfig;
+  /** Check browser console errors and uncaught page exceptions; a bare mode or `{ mode, allow }` */
+  consoleErrors?: ConsoleErrorMode | ConsoleErrorsConfig;
+  /** Self-healing of SelectorDefinition arrays beyond the listed candidates */
+  autoHealing?: AutoHealingConfig;
+  /** Log level and sinks (console format, per-test JSON log file) */
+  logging?: LoggingConfig;
+  /** Visual regression checks (strict mode for missing baselines, diff algorithm, breakpoints) */
+  visual?: VisualConfig;
+}
+
+export interface LoadedProfile {
+  name: string;
+  filePath: string;
+  /** Every file merged into the profile, base first */
+  layers: string[];
+  profile: ProfileConfig;
+}
+
+/**
+ * Names of the profiles selected for this run (RUN, then NODE_ENV, then 'development').
+ * A comma-separated list (RUN=development,preprod) runs the suite against every listed profile.
+ */
+export function resolveProfileNames(): string[] {
+  const value = process.env.RUN || process.env.NODE_ENV || 'development';
+  const names = value.split(',').map(name => name.trim()).filter(Boolean);
+  return names.length > 0 ? Array.from(new Set(names)) : ['development'];
+}
+
+/**
+ * Name of the profile selected for this run; the first one when several are listed.
+ */
+export function resolveProfileName(): string {
+  return resolveProfileNames()[0];
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` placeholders with values from the environment,
+ * and `${secret:<name>}` placeholders with secrets from the encrypted vault.
+ */
+export function substituteEnvVars(content: string): string {
+  return content.replace(
+    /\${secret:([A-Za-z0-9_.-]+)}|\${([A-Z0-9_]+)(?::-([^}]+))?}/g,
+    (_match, secretName, key, defaultValue) => {
+      if (secretName) {
+        return envConfig.getSecret(secretName);
+      }
+      return envConfig.get(key, defaultValue || '');
+    }
+  );
+}
+
+/** A value that is a single environment placeholder and nothing else */
+const WHOLE_ENV_PLACEHOLDER = /^\${[A-Z0-9_]+(?::-[^}]+)?}$/;
+
+/** An unquoted YAML value that is a single environment placeholder (`port: ${SMTP_PORT:-587}`) */
+class EnvPlaceholder {
+  constructor(public readonly text: string) {}
+}
+
+/** YAML tries implicit types on plain scalars only, so quoted placeholders stay strings */
+const PROFILE_SCHEMA = yaml.DEFAULT_SCHEMA.extend({
+  implicit: [
+    new yaml.Type('!env', {
+      kind: 'scalar',
+      resolve: (data: unknown) => typeof data === 'string' && WHOLE_ENV_PLACEHOLDER.test(data),
+      construct: (data: string) => new EnvPlaceholder(data),
+      instanceOf: EnvPlaceholder,
+      represent: placeholder => (placeholder as EnvPlaceholder).text
+    })
+  ]
+});
+
+/**
+ * Resolve the placeholders in the values of a profile parsed with PROFILE_SCHEMA. Values are substituted
+ * after parsing, so quotes, `#` or `: ` in a secret cannot change the YAML structure.
+ * A value that is nothing but an unquoted environment placeholder (`port: ${SMTP_PORT:-587}`) gets
+ * the type YAML gives the resolved text (number, boolean); quoted values and secrets stay strings.
+ */
+function resolvePlaceholders(value: unknown): unknown {
+  if (value instanceof EnvPlaceholder) {
+    const resolved = substituteEnvVars(value.text);
+    const typed: unknown = yaml.load(resolved, { schema: yaml.CORE_SCHEMA });
+    return typeof typed === 'number' || typeof typed === 'boolean' ? typed : resolved;
+  }
+  if (typeof value === 'string') {
+    return substituteEnvVars(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolvePlaceholders(item));
+  }
+  if (isYamlMap(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolvePlaceholders(item)]));
+  }
+  return value;
+}
+
+/**
+ * Absolute paths of every config.<profile>.yaml file in the given directory.
+ * Local override files (config.<profile>.local.yaml) are not profiles and are excluded.
+ */
+export function listProfileFiles(rootDir: string = process.cwd()): string[] {
+  return fs
+    .readdirSync(rootDir)
+    .filter(file => /^config\.[^.]+\.yaml$/.test(file))
+    .sort()
+    .map(file => path.join(rootDir, file));
+}
+
+/**
+ * Profile name for a config.<profile>.yaml path.
+ */
+export function profileNameFromFile(filePath: string): string {
+  return path.basename(filePath).replace(/^config\./, '').replace(/\.yaml$/, '');
+}
+
+type YamlMap = Record<string, unknown>;
+
+interface ProfileLayer {
+  filePath: string;
+  data: YamlMap;
+  lines: Map<string, number>;
+}
+
+function isYamlMap(value: unknown): value is YamlMap {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readLayer(filePath: string): ProfileLayer {
+  const fileName = path.basename(filePath);
+  const source = fs.readFileSync(filePath, 'utf8');
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(source, { schema: PROFILE_SCHEMA });
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new Error(`Invalid YAML in ${fileName}:${error.mark.line + 1} - ${error.reason}`);
+    }
+    throw error;
+  }
+
+  try {
+    parsed = resolvePlaceholders(parsed);
+  } catch (error) {
+    throw new Error(`Unable to resolve placeholders in ${fileName}: ${(error as Error).message}`);
+  }
+
+  if (parsed === undefined || parsed === null) {
+    parsed = {};
+  }
+  if (!isYamlMap(parsed)) {
+    throw new Error(`Invalid profile configuration in ${fileName}: the file must contain a YAML mapping`);
+  }
+
+  return { filePath, data: parsed, lines: indexYamlKeyLines(source) };
+}
+
+function readExtends(layer: ProfileLayer): string[] {
+  const value = layer.data.extends;
+  if (value === undefined || value === null) return [];
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value as string[];
+  throw new Error(
+    `Invalid profile configuration in ${path.basename(layer.filePath)}:${layer.lines.get('extends') ?? 1} - ` +
+      '`extends` must be a profile name or a list of profile names'
+  );
+}
+
+/**
+ * Collect the layers of a profile in merge order: every base (recursively, in the order listed), then the profile itself.
+ */
+function collectLayers(name: string, rootDir: string, chain: string[]): ProfileLayer[] {
+  if (chain.includes(name)) {
+    throw new Error(`Circular profile inheritance: ${[...chain, name].join(' -> ')}`);
+  }
+
+  const filePath = path.join(rootDir, `config.${name}.yaml`);
+  if (!fs.existsSync(filePath)) {
+    const from = chain.length > 0 ? ` (extended by config.${chain[chain.length - 1]}.yaml)` : '';
+    throw new Error(
+      `Configuration file not found: config.${name}.yaml${from}. Please check your RUN or NODE_ENV environment variables.`
+    );
+  }
+
+  const layer = readLayer(filePath);
+  const bases = readExtends(layer).flatMap(base => collectLayers(base, rootDir, [...chain, name]));
+  // A base shared by several parents (diamond `extends`) is merged once, at its first position,
+  // so it cannot overwrite what an earlier parent set
+  return [...bases, layer].filter(
+    (candidate, index, all) => all.findIndex(other => other.filePath === candidate.filePath) === index
+  );
+}
+
+/**
+ * Deep-merge `source` into `target`: nested mappings are merged key by key, while arrays and scalars
+ * replace the inherited value. Records the file/line of every key path that a layer sets.
+ */
+function mergeLayer(
+  target: YamlMap,
+  source: YamlMap,
+  layer: ProfileLayer,
+  locations: Map<string, KeyLocation>,
+  parentPath: string = ''
+): void {
+  Object.entries(source).forEach(([key, value]) => {
+    if (!parentPath && (key === 'extends' || key === 'abstract')) return;
+
+    const keyPath = parentPath ? `${parentPath}.${key}` : key;
+    const line = layer.lines.get(keyPath);
+    if (line !== undefined) {
+      locations.set(keyPath, { file: path.basename(layer.filePath), line });
+    }
+
+    if (isYamlMap(value)) {
+      const existing = target[key];
+      const merged: YamlMap = isYamlMap(existing) ? existing : {};
+      mergeLayer(merged, value, layer, locations, keyPath);
+      target[key] = merged;
+    } else {
+      target[key] = Array.isArray(value) ? [...value] : value;
+    }
+  });
+}
+
+/**
+ * Load the named profile (config.<name>.yaml) from the project root, resolving inheritance.
+ *
+ * A profile may declare `extends: base` (or a list of names) to inherit from other profiles; it then only
+ * needs the keys it changes. Layers are deep-merged in order, and an untracked config.<name>.local.yaml
+ * is merged last for developer-specific overrides. Profiles marked `abstract: true` can only be extended.
+ *
+ * @param name Profile name (default: RUN / NODE_ENV / 'development')
+ * @param rootDir Directory holding the config files (default: process.cwd())
+ */
+export function loadProfile(name: string = resolveProfileName(), rootDir: string = process.cwd()): LoadedProfile {
+  const layers = collectLayers(name, rootDir, []);
+  const ownLayer = layers[layers.length - 1];
+
+  if (ownLayer.data.abstract === true) {
+    throw new Error(`Profile '${name}' is abstract (config.${name}.yaml) and can only be used via \`extends\``);
+  }
+
+  const localPath = path.join(rootDir, `config.${name}.local.yaml`);
+  if (fs.existsSync(localPath)) {
+    layers.push(readLayer(localPath));
+  }
+
+  const merged: YamlMap = {};
+  const locations = new Map<string, KeyLocation>();
+  layers.forEach(layer => mergeLayer(merged, layer.data, layer, locations));
+
+  const fileName = path.basename(ownLayer.filePath);
+  const issues = validateProfile(merged, locations);
+  if (issues.length > 0) {
+    throw new Error(
+      `Invalid profile configuration in ${fileName} (${issues.length} issue${issues.length === 1 ? '' : 's'}):\n` +
+        formatProfileIssues(fileName, issues)
+    );
+  }
+
+  return {
+    name,
+    filePath: ownLayer.filePath,
+    layers: layers.map(layer => layer.filePath),
+    profile: merged as unknown as ProfileConfig
+  };
+}
+
+/**
+ * True when config.<name>.yaml is marked `abstract: true` (a base that only exists to be extended).
+ */
+export function isAbstractProfile(name: string, rootDir: string = process.cwd()): boolean {
+  return readLayer(path.join(rootDir, `config.${name}.yaml`)).data.abstract === true;
+}
+
+/** Profile credentials the general redaction keys leave alone: the grid provider access `key` */
+const PROFILE_CREDENTIAL_KEYS = /^key$/i;
+
+function maskCredentials(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(maskCredentials);
+  }
+  if (!isYamlMap(value)) {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    PROFILE_CREDENTIAL_KEYS.test(key) && item !== undefined && item !== null && item !== '' ? REDACTED : maskCredentials(item)
+  ]));
+}
+
+/**
+ * Render a resolved profile as YAML, headed by the layers it was merged from, for debugging.
+ * Values are redacted: resolved vault secrets, environment credentials (passwords, tokens,
+ * grid keys) and other values under sensitive keys never reach the output.
+ */
+export function formatResolvedProfile(loaded: LoadedProfile): string {
+  const header = [
+    `# Resolved profile: ${loaded.name}`,
+    `# Layers (merged in order): ${loaded.layers.map(layer => path.basename(layer)).join(' -> ')}`
+  ].join('\n');
+  const profile = redactor.redactValue(maskCredentials(loaded.profile));
+  return `${header}\n${yaml.dump(profile, { lineWidth: 120, noRefs: true }).trimEnd()}`;
+}
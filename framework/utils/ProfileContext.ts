@@ -0,0 +1,112 @@
+/**
+ * ProfileContext.ts
+ *
+ * Typed access to the resolved environment profile from anywhere in the framework.
+ * playwright.config.ts passes the profile to every project through the `profile` fixture option
+ * (`use.profile`) and records its name in the project `metadata`, so each worker and each project
+ * sees the profile it was configured with, including multi-environment runs (RUN=development,preprod).
+ * Tests should prefer the `profile` fixture from BaseTest; page objects, reporters and global
+ * setup/teardown use `getProfile()`.
+ *
+ * @example
+ * // In a reporter
+ * onBegin(config: FullConfig) {
+ *   const profile = getProfile(config);
+ * }
+ *
+ * // In a page object (inside a running test)
+ * const defaultUrl = getProfile().baseURL;
+ */
+
+import { test, FullConfig, FullProject, TestInfo } from '@playwright/test';
+import { LoadedProfile, ProfileConfig, loadProfile, resolveProfileName } from './ProfileConfig';
+
+/** Key under which the profile name is stored in config and project `metadata` */
+export const PROFILE_METADATA_KEY = 'profile';
+
+/** Fixture options contributed by the profile; used to type `defineConfig` and the BaseTest fixtures */
+export interface ProfileOptions {
+  profile: ProfileConfig;
+}
+
+type ProfileSource = TestInfo | FullProject | FullConfig;
+
+let activeProfile: LoadedProfile | undefined;
+const profileCache = new Map<string, ProfileConfig>();
+
+/**
+ * Register the profiles resolved by playwright.config.ts (after command line overrides).
+ * The first one is the primary profile: the fallback for code that runs outside a test and has
+ * no config or project at hand.
+ */
+export function setActiveProfiles(loaded: LoadedProfile[]): void {
+  activeProfile = loaded[0];
+  loaded.forEach(entry => profileCache.set(entry.name, entry.profile));
+}
+
+function loadProfileByName(name: string): ProfileConfig {
+  let profile = profileCache.get(name);
+  if (!profile) {
+    profile = loadProfile(name).profile;
+    profileCache.set(name, profile);
+  }
+  return profile;
+}
+
+function metadataProfileName(metadata: Record<string, unknown> | undefined): string | undefined {
+  const name = metadata?.[PROFILE_METADATA_KEY];
+  return typeof name === 'string' && name ? name : undefined;
+}
+
+function currentTestInfo(): TestInfo | undefined {
+  try {
+    return test.info();
+  } catch {
+    // Not inside a test (config, reporter, global setup or module scope)
+    return undefined;
+  }
+}
+
+function resolveProject(source: ProfileSource | undefined): FullProject | undefined {
+  if (!source) return currentTestInfo()?.project;
+  if ('testId' in source) return source.project;
+  if ('projects' in source) return source.projects[0];
+  return source;
+}
+
+/**
+ * Name of the profile for the given test, project or config.
+ * Without an argument the current test is used, then the profile registered by playwright.config.ts,
+ * then RUN / NODE_ENV.
+ */
+export function getProfileName(source?: ProfileSource): string {
+  const project = resolveProject(source);
+  const name =
+    metadataProfileName(project?.metadata) ??
+    (source && 'projects' in source ? metadataProfileName(source.metadata) : undefined);
+  return name ?? activeProfile?.name ?? resolveProfileName();
+}
+
+/**
+ * Names of every profile the run was configured with, in project order.
+ */
+export function getProfileNames(config: FullConfig): string[] {
+  const names = config.projects
+    .map(project => metadataProfileName(project.metadata))
+    .filter((name): name is string => name !== undefined);
+  return names.length > 0 ? Array.from(new Set(names)) : [getProfileName(config)];
+}
+
+/**
+ * Resolved profile for the given test, project or config.
+ * Without an argument the current test is used, so page objects pick up the profile of the project they run in.
+ */
+export function getProfile(source?: ProfileSource): ProfileConfig {
+  const project = resolveProject(source);
+  const fromUse = (project?.use as Partial<ProfileOptions> | undefined)?.profile;
+  if (fromUse) return fromUse;
+
+  const name = getProfileName(source);
+  if (activeProfile?.name === name) return activeProfile.profile;
+  return loadProfileByName(name);
+}
@@ -0,0 +1,498 @@
+/**
+ * ProfileValidator.ts
+ *
+ * Validates a parsed config.<profile>.yaml object against the ProfileConfig schema.
+ * All problems are collected (not just the first one) and mapped back to the line
+ * of the YAML source they came from, so a broken profile can be fixed in one pass.
+ */
+
+export interface ProfileIssue {
+  /** Dotted key path, e.g. `grid.lambdatest.user` or `reportEmail.to[0]` */
+  path: string;
+  message: string;
+  /** File the offending key was defined in (the last layer that set it, for inherited profiles) */
+  file?: string;
+  /** 1-based line in the YAML source, when it can be located */
+  line?: number;
+}
+
+export interface KeyLocation {
+  file: string;
+  line: number;
+}
+
+export const BROWSERS = ['chrome', 'chromium', 'firefox', 'webkit', 'safari', 'chrome incognito'] as const;
+export const SCREENSHOT_MODES = ['on', 'off', 'only-on-failure'] as const;
+export const VIDEO_MODES = ['on', 'off', 'retain-on-failure', 'on-first-retry'] as const;
+export const ARTIFACTS_MODES = ['on', 'off'] as const;
+export const GRID_PROVIDERS = ['lambdatest', 'browserstack'] as const;
+export const CONSOLE_ERROR_MODES = ['fail', 'warn', 'off'] as const;
+export const LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'ERROR'] as const;
+export const CONSOLE_LOG_FORMATS = ['pretty', 'json', 'off'] as const;
+export const VISUAL_DIFF_ALGORITHMS = ['yiq', 'antialias', 'ssim', 'layout-shift'] as const;
+export const BASELINE_KEY_PARTS = ['browser', 'platform', 'scale', 'device'] as const;
+
+const TOP_LEVEL_KEYS = [
+  'baseURL',
+  'browser',
+  'headless',
+  'parallel',
+  'retries',
+  'screenshot',
+  'video',
+  'Artifacts',
+  'elementHighlight',
+  'mobile',
+  'report',
+  'reportEmail',
+  'reportSmtp',
+  'grid',
+  'redaction',
+  'consoleErrors',
+  'autoHealing',
+  'logging',
+  'visual'
+];
+
+type Obj = Record<string, unknown>;
+
+class IssueCollector {
+  readonly issues: ProfileIssue[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+}
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `'${value}'`;
+  return typeof value === 'object' ? 'object' : String(value);
+}
+
+function join(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function checkString(c: IssueCollector, obj: Obj, key: string, parent: string, required = false): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) c.add(join(parent, key), 'is required');
+    return;
+  }
+  if (typeof value !== 'string') {
+    c.add(join(parent, key), `must be a string, got ${describe(value)}`);
+  } else if (required && value.trim() === '') {
+    c.add(join(parent, key), 'must not be empty (is the environment variable set?)');
+  }
+}
+
+function checkBoolean(c: IssueCollector, obj: Obj, key: string, parent: string, required = false): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) c.add(join(parent, key), 'is required');
+    return;
+  }
+  if (typeof value !== 'boolean') {
+    c.add(join(parent, key), `must be true or false, got ${describe(value)}`);
+  }
+}
+
+function checkInteger(c: IssueCollector, obj: Obj, key: string, parent: string, min: number, required = false): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) c.add(join(parent, key), 'is required');
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    c.add(join(parent, key), `must be an integer >= ${min}, got ${describe(value)}`);
+  }
+}
+
+function checkNumber(c: IssueCollector, obj: Obj, key: string, parent: string, min: number, max: number): void {
+  const value = obj[key];
+  if (value === undefined || value === null) return;
+  if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+    c.add(join(parent, key), `must be a number between ${min} and ${max}, got ${describe(value)}`);
+  }
+}
+
+function checkEnum(
+  c: IssueCollector,
+  obj: Obj,
+  key: string,
+  parent: string,
+  allowed: readonly string[],
+  required = false
+): void {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) c.add(join(parent, key), 'is required');
+    return;
+  }
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    c.add(join(parent, key), `must be one of ${allowed.map(v => `'${v}'`).join(', ')}, got ${describe(value)}`);
+  }
+}
+
+/** Returns the nested object, or undefined (recording an issue) when the value has the wrong type. */
+function checkObject(c: IssueCollector, obj: Obj, key: string, parent: string, required = false): Obj | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    if (required) c.add(join(parent, key), 'is required');
+    return undefined;
+  }
+  if (!isObject(value)) {
+    c.add(join(parent, key), `must be a mapping, got ${describe(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+function checkUnknownKeys(c: IssueCollector, obj: Obj, parent: string, known: string[]): void {
+  Object.keys(obj)
+    .filter(key => !known.includes(key))
+    .forEach(key => c.add(join(parent, key), `unknown key (expected one of: ${known.join(', ')})`));
+}
+
+function validateMobile(c: IssueCollector, profile: Obj): void {
+  const mobile = checkObject(c, profile, 'mobile', '');
+  if (!mobile) return;
+
+  // Both `mobile: { isMobile }` and the nested `mobile: { mobile: { isMobile } }` shapes are supported
+  const nested = checkObject(c, mobile, 'mobile', 'mobile');
+  const settings = nested ?? mobile;
+  const parent = nested ? 'mobile.mobile' : 'mobile';
+
+  checkBoolean(c, settings, 'isMobile', parent);
+  checkString(c, settings, 'device', parent);
+  checkInteger(c, settings, 'viewportWidth', parent, 1);
+  checkInteger(c, settings, 'viewportHeight', parent, 1);
+}
+
+function validateReport(c: IssueCollector, profile: Obj): void {
+  const report = checkObject(c, profile, 'report', '');
+  if (!report) return;
+
+  checkString(c, report, 'name', 'report');
+  checkString(c, report, 'outputFolder', 'report');
+  checkBoolean(c, report, 'suiteTitle', 'report');
+  checkUnknownKeys(c, report, 'report', ['name', 'outputFolder', 'suiteTitle']);
+}
+
+function validateEmail(c: IssueCollector, profile: Obj): void {
+  const reportEmail = checkObject(c, profile, 'reportEmail', '');
+  const emailEnabled = reportEmail?.email === true;
+
+  if (reportEmail) {
+    checkBoolean(c, reportEmail, 'email', 'reportEmail', true);
+    checkString(c, reportEmail, 'subject', 'reportEmail', emailEnabled);
+    checkString(c, reportEmail, 'body', 'reportEmail');
+    checkUnknownKeys(c, reportEmail, 'reportEmail', ['email', 'to', 'subject', 'body']);
+
+    const to = reportEmail.to;
+    if (to !== undefined && !Array.isArray(to)) {
+      c.add('reportEmail.to', `must be a list of addresses, got ${describe(to)}`);
+    } else if (emailEnabled) {
+      if (!to || to.length === 0) {
+        c.add('reportEmail.to', 'must list at least one recipient when reportEmail.email is true');
+      } else {
+        to.forEach((address, index) => {
+          if (typeof address !== 'string' || address.trim() === '') {
+            c.add(`reportEmail.to[${index}]`, 'must be a non-empty address (is the environment variable set?)');
+          }
+        });
+      }
+    }
+  }
+
+  const reportSmtp = checkObject(c, profile, 'reportSmtp', '', emailEnabled);
+  if (!reportSmtp) return;
+
+  const smtpRequired = emailEnabled && reportSmtp.smtp === true;
+  checkBoolean(c, reportSmtp, 'smtp', 'reportSmtp', emailEnabled);
+  checkString(c, reportSmtp, 'host', 'reportSmtp', smtpRequired);
+  checkInteger(c, reportSmtp, 'port', 'reportSmtp', 1, smtpRequired);
+  checkUnknownKeys(c, reportSmtp, 'reportSmtp', ['smtp', 'host', 'port', 'auth']);
+
+  const auth = checkObject(c, reportSmtp, 'auth', 'reportSmtp', smtpRequired);
+  if (auth) {
+    checkString(c, auth, 'user', 'reportSmtp.auth', smtpRequired);
+    checkString(c, auth, 'pass', 'reportSmtp.auth', smtpRequired);
+  }
+}
+
+function validateGrid(c: IssueCollector, profile: Obj): void {
+  const grid = checkObject(c, profile, 'grid', '');
+  if (!grid) return;
+
+  checkBoolean(c, grid, 'isGrid', 'grid', true);
+  checkEnum(c, grid, 'provider', 'grid', GRID_PROVIDERS);
+  checkUnknownKeys(c, grid, 'grid', ['isGrid', 'provider', ...GRID_PROVIDERS]);
+
+  const activeProvider = typeof grid.provider === 'string' ? grid.provider : 'lambdatest';
+  GRID_PROVIDERS.forEach(provider => {
+    const required = grid.isGrid === true && provider === activeProvider;
+    const parent = `grid.${provider}`;
+    const providerConfig = checkObject(c, grid, provider, 'grid', required);
+    if (!providerConfig) return;
+
+    checkString(c, providerConfig, 'user', parent, required);
+    checkString(c, providerConfig, 'key', parent, required);
+    checkObject(c, providerConfig, 'capabilities', parent);
+  });
+}
+
+function checkStringList(
+  c: IssueCollector,
+  obj: Obj,
+  key: string,
+  parent: string,
+  validateItem?: (item: string) => string | undefined
+): void {
+  const value = obj[key];
+  if (value === undefined || value === null) return;
+  if (!Array.isArray(value)) {
+    c.add(join(parent, key), `must be a list, got ${describe(value)}`);
+    return;
+  }
+  value.forEach((item, index) => {
+    const problem = typeof item === 'string' ? validateItem?.(item) : `must be a string, got ${describe(item)}`;
+    if (problem) c.add(`${join(parent, key)}[${index}]`, problem);
+  });
+}
+
+function regexProblem(source: string): string | undefined {
+  try {
+    new RegExp(source);
+    return undefined;
+  } catch (error) {
+    return `must be a valid regular expression (${(error as Error).message})`;
+  }
+}
+
+function validateRedaction(c: IssueCollector, profile: Obj): void {
+  const redaction = checkObject(c, profile, 'redaction', '');
+  if (!redaction) return;
+
+  checkStringList(c, redaction, 'headers', 'redaction');
+  checkStringList(c, redaction, 'keys', 'redaction', regexProblem);
+  checkStringList(c, redaction, 'patterns', 'redaction', regexProblem);
+  checkBoolean(c, redaction, 'replaceDefaults', 'redaction');
+  checkUnknownKeys(c, redaction, 'redaction', ['headers', 'keys', 'patterns', 'replaceDefaults']);
+}
+
+function validateConsoleErrors(c: IssueCollector, profile: Obj): void {
+  // Either a bare mode (`consoleErrors: fail`) or `{ mode, allow }`
+  if (typeof profile.consoleErrors === 'string') {
+    checkEnum(c, profile, 'consoleErrors', '', CONSOLE_ERROR_MODES);
+    return;
+  }
+  const consoleErrors = checkObject(c, profile, 'consoleErrors', '');
+  if (!consoleErrors) return;
+
+  checkEnum(c, consoleErrors, 'mode', 'consoleErrors', CONSOLE_ERROR_MODES, true);
+  checkStringList(c, consoleErrors, 'allow', 'consoleErrors', regexProblem);
+  checkUnknownKeys(c, consoleErrors, 'consoleErrors', ['mode', 'allow']);
+}
+
+function validateAutoHealing(c: IssueCollector, profile: Obj): void {
+  const autoHealing = checkObject(c, profile, 'autoHealing', '');
+  if (!autoHealing) return;
+
+  checkBoolean(c, autoHealing, 'fingerprint', 'autoHealing');
+  checkNumber(c, autoHealing, 'threshold', 'autoHealing', 0, 1);
+  checkUnknownKeys(c, autoHealing, 'autoHealing', ['fingerprint', 'threshold']);
+}
+
+// Log levels are case-insensitive ('warn' or 'WARN')
+function checkLogLevel(c: IssueCollector, obj: Obj, key: string, parent: string): void {
+  const value = obj[key];
+  if (value === undefined || value === null) return;
+  if (typeof value !== 'string' || !(LOG_LEVELS as readonly string[]).includes(value.toUpperCase())) {
+    c.add(join(parent, key), `must be one of ${LOG_LEVELS.map(v => `'${v}'`).join(', ')}, got ${describe(value)}`);
+  }
+}
+
+function validateLogging(c: IssueCollector, profile: Obj): void {
+  const logging = checkObject(c, profile, 'logging', '');
+  if (!logging) return;
+
+  checkLogLevel(c, logging, 'level', 'logging');
+  const levels = checkObject(c, logging, 'levels', 'logging');
+  if (levels) {
+    Object.keys(levels).forEach(namespace => checkLogLevel(c, levels, namespace, 'logging.levels'));
+  }
+  checkEnum(c, logging, 'console', 'logging', CONSOLE_LOG_FORMATS);
+  checkBoolean(c, logging, 'file', 'logging');
+  checkUnknownKeys(c, logging, 'logging', ['level', 'levels', 'console', 'file']);
+}
+
+function validateVisual(c: IssueCollector, profile: Obj): void {
+  const visual = checkObject(c, profile, 'visual', '');
+  if (!visual) return;
+
+  checkBoolean(c, visual, 'strict', 'visual');
+  checkEnum(c, visual, 'algorithm', 'visual', VISUAL_DIFF_ALGORITHMS);
+  checkNumber(c, visual, 'colorTolerance', 'visual', 0, 1);
+  checkNumber(c, visual, 'ssimThreshold', 'visual', 0, 1);
+  checkInteger(c, visual, 'shiftTolerance', 'visual', 0);
+  const keyPartProblem = (part: string) => (BASELINE_KEY_PARTS as readonly string[]).includes(part)
+    ? undefined
+    : `must be one of ${BASELINE_KEY_PARTS.map(v => `'${v}'`).join(', ')}, got '${part}'`;
+  checkStringList(c, visual, 'baselineKey', 'visual', keyPartProblem);
+  checkStringList(c, visual, 'baselineFallback', 'visual', part => keyPartProblem(part) ??
+    (Array.isArray(visual.baselineKey) && !visual.baselineKey.includes(part) ? `'${part}' is not part of visual.baselineKey` : undefined));
+  checkBreakpoints(c, visual);
+  const layoutChecks = checkObject(c, visual, 'layoutChecks', 'visual');
+  if (layoutChecks) {
+    checkBoolean(c, layoutChecks, 'overflow', 'visual.layoutChecks');
+    checkStringList(c, layoutChecks, 'overlap', 'visual.layoutChecks');
+    checkUnknownKeys(c, layoutChecks, 'visual.layoutChecks', ['overflow', 'overlap']);
+  }
+  checkUnknownKeys(c, visual, 'visual', [
+    'strict', 'algorithm', 'colorTolerance', 'ssimThreshold', 'shiftTolerance', 'baselineKey', 'baselineFallback',
+    'breakpoints', 'layoutChecks'
+  ]);
+}
+
+// Breakpoints are bare widths (`375`) or `{ name, width, height, device }` with a width or a device
+function checkBreakpoints(c: IssueCollector, visual: Obj): void {
+  const breakpoints = visual.breakpoints;
+  if (breakpoints === undefined || breakpoints === null) return;
+  if (!Array.isArray(breakpoints)) {
+    c.add('visual.breakpoints', `must be a list, got ${describe(breakpoints)}`);
+    return;
+  }
+  breakpoints.forEach((breakpoint, index) => {
+    const parent = `visual.breakpoints[${index}]`;
+    if (typeof breakpoint === 'number') {
+      if (!Number.isInteger(breakpoint) || breakpoint < 1) c.add(parent, `must be an integer width >= 1, got ${breakpoint}`);
+      return;
+    }
+    if (!isObject(breakpoint)) {
+      c.add(parent, `must be a width or a mapping, got ${describe(breakpoint)}`);
+      return;
+    }
+    checkString(c, breakpoint, 'name', parent);
+    if (breakpoint.width === undefined && breakpoint.device === undefined) {
+      c.add(parent, 'needs a width or a device');
+    }
+    checkInteger(c, breakpoint, 'width', parent, 1);
+    checkInteger(c, breakpoint, 'height', parent, 1);
+    checkString(c, breakpoint, 'device', parent);
+    checkUnknownKeys(c, breakpoint, parent, ['name', 'width', 'height', 'device']);
+  });
+}
+
+/**
+ * Validate a parsed profile. Returns every issue found; an empty array means the profile is valid.
+ * @param profile Parsed YAML (after environment variable substitution and inheritance)
+ * @param locations Optional key path -> file/line map, used to attach locations to issues
+ */
+export function validateProfile(profile: unknown, locations?: Map<string, KeyLocation>): ProfileIssue[] {
+  const c = new IssueCollector();
+
+  if (!isObject(profile)) {
+    c.add('', `profile must be a YAML mapping, got ${describe(profile)}`);
+    return c.issues;
+  }
+
+  checkString(c, profile, 'baseURL', '', true);
+  if (typeof profile.baseURL === 'string' && profile.baseURL.trim() !== '') {
+    try {
+      new URL(profile.baseURL);
+    } catch {
+      c.add('baseURL', `must be an absolute URL, got ${describe(profile.baseURL)}`);
+    }
+  }
+
+  checkEnum(c, profile, 'browser', '', BROWSERS, true);
+  checkBoolean(c, profile, 'headless', '');
+  checkInteger(c, profile, 'parallel', '', 1);
+  checkInteger(c, profile, 'retries', '', 0);
+  checkEnum(c, profile, 'screenshot', '', SCREENSHOT_MODES);
+  checkEnum(c, profile, 'video', '', VIDEO_MODES);
+  checkEnum(c, profile, 'Artifacts', '', ARTIFACTS_MODES);
+  checkBoolean(c, profile, 'elementHighlight', '');
+  checkUnknownKeys(c, profile, '', TOP_LEVEL_KEYS);
+
+  validateMobile(c, profile);
+  validateReport(c, profile);
+  validateEmail(c, profile);
+  validateGrid(c, profile);
+  validateRedaction(c, profile);
+  validateConsoleErrors(c, profile);
+  validateAutoHealing(c, profile);
+  validateLogging(c, profile);
+  validateVisual(c, profile);
+
+  if (locations) {
+    c.issues.forEach(issue => {
+      const location = lookupLocation(locations, issue.path);
+      issue.file = location?.file;
+      issue.line = location?.line;
+    });
+    c.issues.sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || (a.line ?? 0) - (b.line ?? 0));
+  }
+
+  return c.issues;
+}
+
+/**
+ * Build a map of dotted key path -> 1-based line number for block-style YAML mappings.
+ * Flow collections and list items are not indexed; issues inside them resolve to their parent key.
+ */
+export function indexYamlKeyLines(source: string): Map<string, number> {
+  const index = new Map<string, number>();
+  const stack: Array<{ indent: number; key: string }> = [];
+
+  source.split(/\r?\n/).forEach((rawLine, i) => {
+    const match = rawLine.match(/^(\s*)([^#\s-][^#]*?):(?=\s|$)/);
+    if (!match) return;
+
+    const indent = match[1].length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    stack.push({ indent, key: match[2].trim().replace(/^['"]|['"]$/g, '') });
+
+    const keyPath = stack.map(entry => entry.key).join('.');
+    if (!index.has(keyPath)) {
+      index.set(keyPath, i + 1);
+    }
+  });
+
+  return index;
+}
+
+function lookupLocation(index: Map<string, KeyLocation>, issuePath: string): KeyLocation | undefined {
+  let current = issuePath.replace(/\[\d+\]/g, '');
+  while (current) {
+    const location = index.get(current);
+    if (location !== undefined) return location;
+    const lastDot = current.lastIndexOf('.');
+    current = lastDot === -1 ? '' : current.substring(0, lastDot);
+  }
+  return undefined;
+}
+
+/**
+ * Format issues as `file:line  path: message` lines, one per issue.
+ * @param fileName File reported for issues that could not be located
+ */
+export function formatProfileIssues(fileName: string, issues: ProfileIssue[]): string {
+  return issues
+    .map(issue => {
+      const file = issue.file ?? fileName;
+      const location = issue.line ? `${file}:${issue.line}` : file;
+      const subject = issue.path || '(root)';
+      return `  ${location}  ${subject}: ${issue.message}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,247 @@
+/**
+ * Redactor.ts
+ *
+ * Central redaction policy: masks sensitive data before it reaches logs, capture files, report
+ * attachments, emails or uploads. Three kinds of rules are applied:
+ * - secret values resolved from the vault (registered by EnvConfig.getSecret)
+ * - sensitive header names and key patterns (password, otp, token...), matched against object keys,
+ *   HTTP headers and `key=value` / `"key": "value"` pairs in text
+ * - free-text regexes (bearer tokens, JWTs, credentials in URLs)
+ *
+ * The built-in rules can be extended (or replaced) per profile with the `redaction` block,
+ * see playwright.config.ts.
+ *
+ * @example
+ * redactor.addSecret(password);
+ * redactor.redact(`login with ${password}`);            // login with [REDACTED]
+ * redactor.redactValue({ user: 'a', password: 'b' });    // { user: 'a', password: '[REDACTED]' }
+ * redactor.redactHeaders({ authorization: 'Bearer x' }); // { authorization: '[REDACTED]' }
+ */
+
+export const REDACTED = '[REDACTED]';
+
+/** Shorter secret values are not redacted: masking them would mangle unrelated output */
+const MIN_SECRET_LENGTH = 4;
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+/**
+ * Redaction rules; header names are matched case-insensitively, `keys` and `patterns` are regex sources
+ */
+export interface RedactionConfig {
+  /** Header names whose values are always masked */
+  headers?: string[];
+  /** Regexes (case-insensitive) for object keys, headers and key=value pairs whose values are masked */
+  keys?: string[];
+  /** Regexes whose matches are masked anywhere in text */
+  patterns?: string[];
+  /** Replace the built-in rules instead of extending them */
+  replaceDefaults?: boolean;
+}
+
+export const DEFAULT_REDACTION: Required<Omit<RedactionConfig, 'replaceDefaults'>> = {
+  headers: [
+    'authorization',
+    'proxy-authorization',
+    'cookie',
+    'set-cookie',
+    'x-api-key',
+    'x-auth-token',
+    'x-csrf-token',
+    'x-xsrf-token',
+    'x-project-access-key'
+  ],
+  keys: [
+    'pass(word|wd)',
+    '^pass$',
+    '^pwd$',
+    // Whole words of the key only: `clientSecret`, `access_token`, but not `tokens` or `secretary`
+    '(^|_)secrets?(_|$)',
+    '(^|_)token(_|$)',
+    'api[-_]?key',
+    'access[-_]?key',
+    'authorization',
+    'cookie',
+    'session[-_]?id',
+    'credential',
+    '^otp',
+    'otp$',
+    '^pin$',
+    '^cvv$'
+  ],
+  patterns: [
+    'Bearer\\s+[A-Za-z0-9\\-._~+/]+=*',
+    'Basic\\s+[A-Za-z0-9+/]{8,}=*',
+    'eyJ[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+',
+    '(?<=://)[^/\\s:@]+:[^/\\s@]+(?=@)'
+  ]
+};
+
+/**
+ * `key: value`, `key=value` and `"key": "value"` pairs in free text. Only scalar values are taken:
+ * in `Credential: {"user": ...}` the object is left to the pairs inside it.
+ */
+const KEY_VALUE_PAIR = /(["']?)([A-Za-z0-9_.-]+)\1(\s*[:=]\s*)(\[REDACTED\]|"(?:[^"\\]|\\.)*"|'[^']*'|[^\s&,;"'{}[\]]+)/g;
+
+export class Redactor {
+  private static instance: Redactor;
+  private secrets = new Set<string>();
+  private headers = new Set<string>();
+  private keyPatterns: RegExp[] = [];
+  private textPatterns: RegExp[] = [];
+  private consolePatched = false;
+
+  private constructor() {
+    this.configure({ ...DEFAULT_REDACTION, replaceDefaults: true });
+  }
+
+  public static getInstance(): Redactor {
+    if (!Redactor.instance) {
+      Redactor.instance = new Redactor();
+    }
+    return Redactor.instance;
+  }
+
+  /**
+   * Extend the policy with more rules, or replace it when `replaceDefaults` is true
+   * @throws Error when a key or text pattern is not a valid regex
+   */
+  public configure(config: RedactionConfig = {}): void {
+    if (config.replaceDefaults) {
+      this.headers.clear();
+      this.keyPatterns = [];
+      this.textPatterns = [];
+    }
+    (config.headers ?? []).forEach(header => this.headers.add(header.toLowerCase()));
+    this.keyPatterns.push(...(config.keys ?? []).map(source => compilePattern(source, 'i')));
+    this.textPatterns.push(...(config.patterns ?? []).map(source => compilePattern(source, 'gi')));
+  }
+
+  /**
+   * Register a secret value to be masked from now on
+   */
+  public addSecret(value: string | undefined): void {
+    if (value && value.length >= MIN_SECRET_LENGTH) {
+      this.secrets.add(value);
+    }
+  }
+
+  /**
+   * True when values stored under this object key or header name must be masked
+   */
+  public isSensitiveKey(key: string): boolean {
+    return this.headers.has(key.toLowerCase()) || this.matchesKeyPattern(key);
+  }
+
+  /**
+   * Mask secrets, text patterns and sensitive key/value pairs in the text. Pairs are masked by the
+   * `keys` patterns only (header names apply to headers), so `Status: 200` or `user=bob` stay as they are.
+   */
+  public redact(text: string): string {
+    if (!text) {
+      return text;
+    }
+    // Longest first, so a secret containing another one is masked as a whole
+    let result = [...this.secrets]
+      .sort((a, b) => b.length - a.length)
+      .reduce((current, secret) => current.split(secret).join(REDACTED), text);
+    result = this.textPatterns.reduce((current, pattern) => current.replace(pattern, REDACTED), result);
+    return this.redactPairs(result);
+  }
+
+  /**
+   * Mask sensitive data anywhere in a value: strings are redacted, values under sensitive keys are
+   * replaced, and plain objects and arrays are copied
+   */
+  public redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as unknown as T;
+    }
+    if (value instanceof Error) {
+      const copy = new Error(this.redact(value.message));
+      copy.name = value.name;
+      copy.stack = value.stack ? this.redact(value.stack) : undefined;
+      return copy as unknown as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          this.isSensitiveKey(key) && item !== undefined && item !== null && item !== '' ? REDACTED : this.redactValue(item)
+        ])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Copy of HTTP headers with sensitive values masked
+   */
+  public redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, this.isSensitiveKey(name) ? REDACTED : this.redact(value)])
+    );
+  }
+
+  /**
+   * Route console output through the redactor. Test stdout/stderr ends up in the HTML, JSON and
+   * Allure reports, so this keeps secrets out of them. Safe to call more than once.
+   */
+  public installConsoleRedaction(): void {
+    if (this.consolePatched) {
+      return;
+    }
+    this.consolePatched = true;
+    CONSOLE_METHODS.forEach(method => {
+      const original = console[method].bind(console);
+      console[method] = (...args: unknown[]) => original(...args.map(arg => this.redactValue(arg)));
+    });
+  }
+
+  /**
+   * Mask the values of sensitive key/value pairs. The value of any other pair is scanned in turn:
+   * in `https://host/login?token=abc` the pair `https: //host/login?token=abc` holds the token pair.
+   */
+  private redactPairs(text: string): string {
+    return text.replace(KEY_VALUE_PAIR, (match, quote, key, separator, value: string) => {
+      if (value === REDACTED) {
+        return match;
+      }
+      if (!this.matchesKeyPattern(key)) {
+        return `${quote}${key}${quote}${separator}${this.redactPairs(value)}`;
+      }
+      const valueQuote = /^["']/.test(value) ? value[0] : '';
+      return `${quote}${key}${quote}${separator}${valueQuote}${REDACTED}${valueQuote}`;
+    });
+  }
+
+  /**
+   * Key patterns see the key as written and as snake_case words (`accessToken` -> `access_token`)
+   */
+  private matchesKeyPattern(key: string): boolean {
+    const words = keyWords(key);
+    return this.keyPatterns.some(pattern => pattern.test(key) || pattern.test(words));
+  }
+}
+
+function compilePattern(source: string, flags: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (error) {
+    throw new Error(`Invalid redaction pattern '${source}': ${(error as Error).message}`);
+  }
+}
+
+/** Words of a key joined by `_`: `accessToken`, `access-token` and `Access.Token` become `access_token` */
+function keyWords(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s.-]+/g, '_')
+    .toLowerCase();
+}
+
+// Export a default instance
+export const redactor = Redactor.getInstance();
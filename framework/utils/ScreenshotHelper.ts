@@ -27,13 +27,32 @@
  * 
  * // Taking masked screenshot (hiding sensitive data)
  * await screenshotHelper.takeMaskedScreenshot(['.password-field', '.credit-card'], 'payment-form');
+ *
+ * // Comparing every breakpoint of the profile (visual.breakpoints), with layout checks
+ * await screenshotHelper.sweepBreakpoints('home', undefined, { overflow: true, overlap: ['header *', '.card'] });
  */
 
-import { Page, TestInfo, Locator } from '@playwright/test';
+import { Page, TestInfo, Locator, devices } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from './Logger';
-import { VisualComparator, VisualCompareOptions, VisualCompareResult } from './VisualComparator';
+import { redactor } from './Redactor';
+import { IgnoreRegion, VisualComparator, VisualCompareOptions, VisualCompareResult } from './VisualComparator';
+import {
+  BaselineKeyValues,
+  VISUAL_COMPARISON_ATTACHMENT,
+  VisualBaselines,
+  VisualResultRecord,
+  baselineId,
+  baselineKeyChain,
+  isStrictMode,
+  isUpdateMode,
+  keyedBaselineId,
+  sanitizeScreenshotName
+} from './VisualBaselines';
+import { getProfile } from './ProfileContext';
+import { BreakpointConfig, ProfileConfig } from './ProfileConfig';
+import { deviceKey, resolveDeviceName } from './DeviceAliases';
 
 export interface ScreenshotOptions {
   fullPage?: boolean;
@@ -54,6 +73,146 @@ export interface ScreenshotOptions {
   thresholdType?: 'pixel' | 'percent';
 }
 
+/** Rectangle in CSS pixels of the screenshot: from the top left of the page, or of the element for element comparisons */
+export interface IgnoreRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Part of a visual comparison to ignore: a rectangle, or every element a locator or selector
+ * matches, resolved to its bounding box when the screenshot is taken
+ */
+export type IgnoreTarget = IgnoreRect | Locator | string;
+
+export interface VisualCheckOptions extends ScreenshotOptions, VisualCompareOptions {
+  /**
+   * Regions left out of the comparison (timestamps, carousels, ads). They are saved with the baseline
+   * and reused by later comparisons that pass none; `[]` clears them.
+   */
+  ignore?: IgnoreTarget[];
+}
+
+/**
+ * One-line summary of a comparison: `home: failed, antialias score 0.9712, 2.881% differ (1820 px)`
+ */
+export function describeVisualResult(name: string, result: VisualCompareResult): string {
+  const score = result.score !== undefined ? ` score ${result.score.toFixed(4)}` : '';
+  return `${name}: ${result.status}, ${result.algorithm}${score}, ${(result.diffRatio * 100).toFixed(3)}% differ (${result.diffPixels} px)`;
+}
+
+export interface BreakpointSweepOptions extends VisualCheckOptions {
+  /** Compare a screenshot at each width against its baseline (default: true) */
+  compare?: boolean;
+  /** Report horizontal overflow at each width (default: profile visual.layoutChecks.overflow) */
+  overflow?: boolean;
+  /** Selectors whose visible elements must not overlap (default: profile visual.layoutChecks.overlap) */
+  overlap?: string[];
+}
+
+export interface BreakpointResult {
+  /** Breakpoint label, also the suffix of the baseline name (`home-mobile`) */
+  breakpoint: string;
+  viewport: { width: number; height: number };
+  /** Absent when the sweep ran with `compare: false` */
+  comparison?: VisualCompareResult;
+  /** Overflow and overlap findings, one line each */
+  layoutIssues: string[];
+}
+
+/** The parts of the browser window and DOM the layout checks below use (the tsconfig has no DOM lib) */
+interface LayoutElement {
+  tagName: string;
+  id: string;
+  classList: ArrayLike<string>;
+  parentElement: LayoutElement | null;
+  getBoundingClientRect(): { left: number; right: number; top: number; bottom: number; width: number; height: number };
+  contains(other: LayoutElement): boolean;
+  querySelectorAll(selector: string): ArrayLike<LayoutElement>;
+}
+
+interface LayoutWindow {
+  scrollX: number;
+  scrollY: number;
+  devicePixelRatio: number;
+  requestAnimationFrame(callback: () => void): number;
+  document: {
+    documentElement: LayoutElement & { clientWidth: number; scrollWidth: number };
+    body: LayoutElement | null;
+    querySelectorAll(selector: string): ArrayLike<LayoutElement>;
+  };
+}
+
+/** Runs in the browser: scroll offset and device pixel ratio */
+function readScrollAndScale(): { scrollX: number; scrollY: number; ratio: number } {
+  const win = globalThis as unknown as LayoutWindow;
+  return { scrollX: win.scrollX, scrollY: win.scrollY, ratio: win.devicePixelRatio };
+}
+
+/** Runs in the browser: resolves after the next two frames, once a resize has been laid out and painted */
+function waitForLayout(): Promise<void> {
+  const win = globalThis as unknown as LayoutWindow;
+  return new Promise(resolve => {
+    win.requestAnimationFrame(() => win.requestAnimationFrame(() => resolve()));
+  });
+}
+
+/**
+ * Runs in the browser: when the page scrolls horizontally, the outermost elements sticking out
+ * of the viewport (up to 10)
+ */
+function findHorizontalOverflow(): { scrollWidth: number; viewportWidth: number; elements: string[] } {
+  const doc = (globalThis as unknown as LayoutWindow).document;
+  const root = doc.documentElement;
+  const viewportWidth = root.clientWidth;
+  const describeElement = (el: LayoutElement): string => {
+    const classes = Array.from(el.classList).slice(0, 2).map(name => `.${name}`).join('');
+    return `${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ''}${classes}`;
+  };
+  const sticksOut = (el: LayoutElement): boolean => {
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.right > viewportWidth + 1;
+  };
+  if (root.scrollWidth <= viewportWidth) {
+    return { scrollWidth: root.scrollWidth, viewportWidth, elements: [] };
+  }
+  const elements = Array.from(doc.body ? doc.body.querySelectorAll('*') : [])
+    .filter(el => sticksOut(el) && !(el.parentElement && el.parentElement !== doc.body && sticksOut(el.parentElement)))
+    .slice(0, 10)
+    .map(el => `${describeElement(el)} (right edge at ${Math.round(el.getBoundingClientRect().right)}px)`);
+  return { scrollWidth: root.scrollWidth, viewportWidth, elements };
+}
+
+/**
+ * Runs in the browser: pairs of visible elements matching the selectors whose boxes intersect by
+ * more than a pixel; an element and its own ancestors or descendants are not compared (up to 10)
+ */
+function findOverlaps(selectors: string[]): string[] {
+  const doc = (globalThis as unknown as LayoutWindow).document;
+  const describeElement = (el: LayoutElement): string => {
+    const classes = Array.from(el.classList).slice(0, 2).map(name => `.${name}`).join('');
+    return `${el.tagName.toLowerCase()}${el.id ? `#${el.id}` : ''}${classes}`;
+  };
+  const elements = Array.from(new Set(selectors.flatMap(selector => Array.from(doc.querySelectorAll(selector)))))
+    .map(el => ({ el, rect: el.getBoundingClientRect() }))
+    .filter(({ rect }) => rect.width > 0 && rect.height > 0);
+
+  const overlaps: string[] = [];
+  elements.forEach((a, i) => {
+    elements.slice(i + 1).forEach(b => {
+      if (overlaps.length >= 10 || a.el.contains(b.el) || b.el.contains(a.el)) return;
+      const width = Math.min(a.rect.right, b.rect.right) - Math.max(a.rect.left, b.rect.left);
+      const height = Math.min(a.rect.bottom, b.rect.bottom) - Math.max(a.rect.top, b.rect.top);
+      if (width > 1 && height > 1) {
+        overlaps.push(`${describeElement(a.el)} overlaps ${describeElement(b.el)} by ${Math.round(width)}x${Math.round(height)}px`);
+      }
+    });
+  });
+  return overlaps;
+}
+
 export class ScreenshotHelper {
   private page: Page;
   private testInfo: TestInfo;
@@ -98,7 +257,7 @@ export class ScreenshotHelper {
 
       // Attach to test report if testInfo is available
       if (this.testInfo) {
-        await this.testInfo.attach(screenshotName, {
+        await this.testInfo.attach(redactor.redact(screenshotName), {
           path: filePath,
           contentType: `image/${defaultOptions.type}`
         });
@@ -154,7 +313,7 @@ export class ScreenshotHelper {
       });
 
       if (this.testInfo) {
-        await this.testInfo.attach(screenshotName, {
+        await this.testInfo.attach(redactor.redact(screenshotName), {
           path: filePath,
           contentType: `image/${defaultOptions.type}`
         });
@@ -210,10 +369,13 @@ export class ScreenshotHelper {
   /**
    * Compare current page screenshot with a baseline image.
    * If no baseline exists yet, the current screenshot becomes the baseline and the comparison passes.
+   *
+   * @example
+   * await screenshotHelper.compareWithBaseline('blog', { ignore: ['.post-date', page.locator('.carousel')] });
    */
   async compareWithBaseline(
     name: string,
-    options: ScreenshotOptions & VisualCompareOptions = {}
+    options: VisualCheckOptions = {}
   ): Promise<VisualCompareResult> {
     return this.runVisualComparison(name, options);
   }
@@ -224,51 +386,107 @@ export class ScreenshotHelper {
   async compareElementWithBaseline(
     locator: Locator,
     name: string,
-    options: ScreenshotOptions & VisualCompareOptions = {}
+    options: VisualCheckOptions = {}
   ): Promise<VisualCompareResult> {
     return this.runVisualComparison(name, options, locator);
   }
 
   private async runVisualComparison(
     name: string,
-    options: ScreenshotOptions & VisualCompareOptions,
+    options: VisualCheckOptions,
     locator?: Locator
   ): Promise<VisualCompareResult> {
-    const sanitizedName = name.replace(/[^a-zA-Z0-9_-]/g, '_');
-
-    const baselineDir = path.join(this.screenshotDir, 'baseline');
-    const actualDir = path.join(this.screenshotDir, 'actual');
-    const diffDir = path.join(this.screenshotDir, 'diff');
-
-    this.ensureCustomDirectory(baselineDir);
-    this.ensureCustomDirectory(actualDir);
-    this.ensureCustomDirectory(diffDir);
+    const sanitizedName = sanitizeScreenshotName(name);
+    const baselines = new VisualBaselines(this.screenshotDir);
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const testName = this.testInfo.title.replace(/[^a-zA-Z0-9]/g, '_');
-    const projectName =
-      (this.testInfo.project?.name || 'default').replace(/[^a-zA-Z0-9]/g, '_');
+    const projectName = this.testInfo.project?.name || 'default';
     const vp = this.page.viewportSize();
     const viewportTag = vp ? `${vp.width}x${vp.height}` : 'auto';
-    const idPrefix = `${testName}_${projectName}_${viewportTag}_${sanitizedName}`;
-
-    const baselinePath = path.join(baselineDir, `${idPrefix}.png`);
-    const actualPath = path.join(actualDir, `${idPrefix}_${timestamp}.png`);
-    const diffPath = path.join(diffDir, `${idPrefix}_${timestamp}_diff.png`);
+    const unkeyedId = baselineId(this.testInfo.title, projectName, viewportTag, name);
+
+    const {
+      threshold, thresholdType, missingBaseline, updateBaseline, ignore, ignoreRegions,
+      algorithm, colorTolerance, ssimThreshold, shiftTolerance, ...screenshotOptions
+    } = options;
+    const profile = getProfile(this.testInfo);
+    const visual = profile.visual ?? {};
+    const updateMode = updateBaseline ?? isUpdateMode(this.testInfo.config.updateSnapshots);
+
+    // Baselines are kept per browser, platform, scale and device; a key without one yet compares the
+    // most specific fallback baseline (update mode writes the full key instead)
+    const baselineKeys = baselineKeyChain(await this.baselineKeyValues(profile), visual.baselineKey, visual.baselineFallback);
+    const idPrefix = keyedBaselineId(baselineKeys[0], unkeyedId);
+    const baselinePath = baselines.baselineFile(idPrefix);
+    const fallbackKey = fs.existsSync(baselinePath) || updateMode
+      ? undefined
+      : baselines.findBaselineKey(unkeyedId, baselineKeys.slice(1));
+    const comparedId = fallbackKey !== undefined ? keyedBaselineId(fallbackKey, unkeyedId) : idPrefix;
+    if (fallbackKey !== undefined) {
+      this.logger.info(`No ${baselineKeys[0]} baseline for "${name}" yet; comparing with the ${fallbackKey || 'unkeyed'} baseline`);
+    }
 
-    const { threshold, thresholdType, ...screenshotOptions } = options;
+    const actualPath = path.join(baselines.actualDir, `${idPrefix}_${timestamp}.png`);
+    const diffPath = path.join(baselines.diffDir, `${idPrefix}_${timestamp}_diff.png`);
+    [baselinePath, actualPath, diffPath].forEach(file => this.ensureCustomDirectory(path.dirname(file)));
 
     await this.captureForComparison(actualPath, screenshotOptions, locator);
 
-    const result = await this.visualComparator.compareOrCreateBaseline(
-      baselinePath,
+    // Regions given now replace the ones saved with the baseline; without any, the saved ones apply
+    const givenRegions = ignore || ignoreRegions
+      ? [...(ignoreRegions ?? []), ...(ignore ? await this.resolveIgnoreRegions(ignore, screenshotOptions, locator) : [])]
+      : undefined;
+    if (givenRegions) {
+      baselines.writeIgnoreRegions(idPrefix, givenRegions);
+    }
+
+    // Update mode (UPDATE_BASELINES / -u), strict mode (profile visual.strict, CI) and the diff
+    // algorithm settings come from the profile unless the caller chose
+    const compared = await this.visualComparator.compareOrCreateBaseline(
+      baselines.baselineFile(comparedId),
       actualPath,
       diffPath,
       {
         threshold,
         thresholdType,
+        algorithm: algorithm ?? visual.algorithm,
+        colorTolerance: colorTolerance ?? visual.colorTolerance,
+        ssimThreshold: ssimThreshold ?? visual.ssimThreshold,
+        shiftTolerance: shiftTolerance ?? visual.shiftTolerance,
+        missingBaseline: missingBaseline ?? (isStrictMode(visual.strict) ? 'fail' : 'create'),
+        updateBaseline: updateMode,
+        ignoreRegions: givenRegions ?? baselines.readMetadata(idPrefix)?.ignoreRegions ?? baselines.readMetadata(comparedId)?.ignoreRegions ?? []
       }
     );
+    const result: VisualCompareResult = { ...compared, id: idPrefix, baselineKeys, ...(fallbackKey !== undefined ? { fallbackKey } : {}) };
+    if (result.status === 'missing') {
+      const unkeyed = !baselineKeys[0] || !fs.existsSync(baselines.baselineFile(unkeyedId))
+        ? ''
+        : `; a baseline from before keying exists, move it with \`npm run visual-baselines -- migrate ${baselineKeys[0]}\``;
+      this.logger.error(`No baseline for "${name}" under key ${baselineKeys[0]} (looked in: ${baselineKeys.map(key => key || 'baseline/').join(', ')})${unkeyed}`);
+    }
+
+    const record: VisualResultRecord = {
+      id: idPrefix,
+      test: this.testInfo.title,
+      project: projectName,
+      name,
+      status: result.status,
+      baseline: baselines.relative(baselinePath),
+      actual: baselines.relative(actualPath),
+      ...(fs.existsSync(diffPath) ? { diff: baselines.relative(diffPath) } : {}),
+      ...(fallbackKey !== undefined ? { fallback: baselines.relative(result.baselinePath) } : {}),
+      diffPixels: result.diffPixels,
+      diffRatio: result.diffRatio,
+      algorithm: result.algorithm,
+      ...(result.score !== undefined ? { score: result.score } : {}),
+      at: new Date().toISOString()
+    };
+    baselines.recordResult(record);
+
+    // Algorithm and score in the report, to tune the settings per page; the record feeds VisualReporter
+    this.testInfo.annotations.push({ type: VISUAL_COMPARISON_ATTACHMENT, description: describeVisualResult(name, result) });
+    await this.testInfo.attach(VISUAL_COMPARISON_ATTACHMENT, { body: JSON.stringify(record), contentType: 'application/json' });
 
     // Attach images to the Playwright test report, if available
     if (this.testInfo) {
@@ -277,9 +495,9 @@ export class ScreenshotHelper {
         contentType: 'image/png',
       });
 
-      if (fs.existsSync(baselinePath)) {
+      if (fs.existsSync(result.baselinePath)) {
         await this.testInfo.attach(`${sanitizedName}-baseline`, {
-          path: baselinePath,
+          path: result.baselinePath,
           contentType: 'image/png',
         });
       }
@@ -361,6 +579,89 @@ export class ScreenshotHelper {
     }
   }
 
+  /**
+   * Resize the page through a list of breakpoints, in order. At each width, compare a screenshot
+   * against the baseline of that width (named `<name>-<breakpoint>`) and, when enabled, look for
+   * horizontal overflow and overlapping elements. Only the viewport size changes: device breakpoints
+   * borrow a device's viewport, not its user agent, touch support or pixel ratio.
+   * The original viewport is restored afterwards.
+   *
+   * @param breakpoints Widths or breakpoint definitions; default: the profile `visual.breakpoints`
+   * @returns One result per breakpoint; failures are left to the caller (see BasePage.sweepBreakpoints)
+   *
+   * @example
+   * // config.<profile>.yaml
+   * visual:
+   *   breakpoints: [{ name: mobile, device: iphone12 }, { name: tablet, width: 768 }, 1280]
+   *   layoutChecks: { overflow: true, overlap: ['nav a', '.card'] }
+   *
+   * const results = await screenshotHelper.sweepBreakpoints('home');
+   */
+  async sweepBreakpoints(
+    name: string,
+    breakpoints?: Array<number | BreakpointConfig>,
+    options: BreakpointSweepOptions = {}
+  ): Promise<BreakpointResult[]> {
+    const visual = getProfile(this.testInfo).visual ?? {};
+    const selected = breakpoints ?? visual.breakpoints ?? [];
+    if (selected.length === 0) {
+      throw new Error(`No breakpoints to sweep for "${name}": pass them or set visual.breakpoints in the profile`);
+    }
+
+    const { compare = true, overflow, overlap, ...checkOptions } = options;
+    const checkOverflow = overflow ?? visual.layoutChecks?.overflow ?? false;
+    const overlapSelectors = overlap ?? visual.layoutChecks?.overlap ?? [];
+    const originalViewport = this.page.viewportSize();
+    const results: BreakpointResult[] = [];
+
+    try {
+      for (const breakpoint of selected) {
+        // One breakpoint at a time: they share the page, and each one resizes it
+        // eslint-disable-next-line no-await-in-loop
+        results.push(await this.checkBreakpoint(name, this.resolveBreakpoint(breakpoint, originalViewport?.height), {
+          compare, checkOverflow, overlapSelectors, checkOptions
+        }));
+      }
+    } finally {
+      if (originalViewport) {
+        await this.page.setViewportSize(originalViewport);
+        this.logger.info('Viewport restored to original size');
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Resize the page to one breakpoint, run the layout checks and compare its screenshot
+   */
+  private async checkBreakpoint(
+    name: string,
+    { label, viewport }: { label: string; viewport: { width: number; height: number } },
+    checks: { compare: boolean; checkOverflow: boolean; overlapSelectors: string[]; checkOptions: VisualCheckOptions }
+  ): Promise<BreakpointResult> {
+    this.logger.info(`Breakpoint ${label}: setting viewport to ${viewport.width}x${viewport.height}`);
+    await this.page.setViewportSize(viewport);
+    await this.page.evaluate(waitForLayout);
+
+    const layoutIssues: string[] = [];
+    if (checks.checkOverflow) {
+      const found = await this.page.evaluate(findHorizontalOverflow);
+      if (found.scrollWidth > found.viewportWidth) {
+        layoutIssues.push(`page is ${found.scrollWidth}px wide in a ${found.viewportWidth}px viewport` +
+          (found.elements.length > 0 ? `: ${found.elements.join(', ')}` : ''));
+      }
+    }
+    if (checks.overlapSelectors.length > 0) {
+      layoutIssues.push(...await this.page.evaluate(findOverlaps, checks.overlapSelectors));
+    }
+    layoutIssues.forEach(issue => this.logger.warn(`Breakpoint ${label}: ${issue}`));
+
+    const comparison = checks.compare
+      ? await this.runVisualComparison(`${name}-${label}`, checks.checkOptions)
+      : undefined;
+    return { breakpoint: label, viewport, comparison, layoutIssues };
+  }
+
   /**
    * Clean up old screenshots
    */
@@ -432,6 +733,89 @@ export class ScreenshotHelper {
     }
   }
 
+  /**
+   * What this run renders with: the browser engine, this machine's platform, the page's device pixel
+   * ratio and, on mobile profiles, the configured device
+   */
+  private async baselineKeyValues(profile: ProfileConfig): Promise<BaselineKeyValues> {
+    const mobile = profile.mobile?.mobile ?? profile.mobile;
+    const { ratio } = await this.page.evaluate(readScrollAndScale);
+    return {
+      browser: this.page.context().browser()?.browserType().name() ?? this.testInfo.project.use.browserName ?? 'chromium',
+      platform: process.platform,
+      scale: ratio,
+      ...(mobile?.isMobile && mobile.device ? { device: deviceKey(mobile.device) } : {})
+    };
+  }
+
+  /**
+   * Label and viewport of a breakpoint; without a height, the device's or the current page height is kept
+   */
+  private resolveBreakpoint(
+    breakpoint: number | BreakpointConfig,
+    currentHeight = 720
+  ): { label: string; viewport: { width: number; height: number } } {
+    if (typeof breakpoint === 'number') {
+      return { label: `${breakpoint}w`, viewport: { width: breakpoint, height: currentHeight } };
+    }
+    let deviceViewport: { width: number; height: number } | undefined;
+    if (breakpoint.device) {
+      const deviceName = resolveDeviceName(breakpoint.device);
+      if (!deviceName) {
+        throw new Error(`Unknown breakpoint device "${breakpoint.device}": use a Playwright device name or an alias of DeviceAliases.ts`);
+      }
+      deviceViewport = devices[deviceName].viewport;
+    }
+    const width = breakpoint.width ?? deviceViewport?.width;
+    if (!width) {
+      throw new Error(`Breakpoint ${JSON.stringify(breakpoint)} needs a width or a device`);
+    }
+    const label = breakpoint.name ?? (breakpoint.device ? sanitizeScreenshotName(breakpoint.device) : `${width}w`);
+    return { label, viewport: { width, height: breakpoint.height ?? deviceViewport?.height ?? currentHeight } };
+  }
+
+  /**
+   * Ignore targets as rectangles in pixels of the captured image: element boxes are taken relative
+   * to the screenshot origin and everything is scaled by the device pixel ratio (unless scale is 'css')
+   */
+  private async resolveIgnoreRegions(
+    targets: IgnoreTarget[],
+    options: ScreenshotOptions,
+    locator?: Locator
+  ): Promise<IgnoreRegion[]> {
+    const page = await this.page.evaluate(readScrollAndScale);
+    const scale = options.scale === 'css' ? 1 : page.ratio;
+    let origin = { x: 0, y: 0 };
+    if (locator) {
+      origin = (await locator.boundingBox()) ?? origin;
+    } else if (options.fullPage !== false) {
+      // Bounding boxes are relative to the viewport; a full-page screenshot starts at the top of the page
+      origin = { x: -page.scrollX, y: -page.scrollY };
+    }
+
+    const toPixels = (box: IgnoreRect): IgnoreRect => ({
+      x: Math.round((box.x - origin.x) * scale),
+      y: Math.round((box.y - origin.y) * scale),
+      width: Math.round(box.width * scale),
+      height: Math.round(box.height * scale)
+    });
+    const resolved = await Promise.all(targets.map(async (target): Promise<IgnoreRegion[]> => {
+      if (typeof target !== 'string' && !('boundingBox' in target)) {
+        // Rectangles are already relative to the screenshot
+        return [{ x: target.x * scale, y: target.y * scale, width: target.width * scale, height: target.height * scale }];
+      }
+      const matches = typeof target === 'string' ? this.page.locator(target) : target;
+      const source = typeof target === 'string' ? target : target.toString();
+      const boxes = (await Promise.all((await matches.all()).map(match => match.boundingBox())))
+        .filter((box): box is IgnoreRect => box !== null);
+      if (boxes.length === 0) {
+        this.logger.warn(`Ignore region ${source} matched no visible element`);
+      }
+      return boxes.map(box => ({ ...toPixels(box), source }));
+    }));
+    return resolved.flat();
+  }
+
   private async captureForComparison(
     filePath: string,
     options: ScreenshotOptions,
@@ -0,0 +1,281 @@
+/**
+ * SecretsVault.ts
+ *
+ * Encrypted local store for credentials referenced from profiles as `${secret:<name>}`.
+ * Every secret is encrypted with AES-256-GCM using a key derived (scrypt) from the master key in
+ * SECRETS_MASTER_KEY, so the vault file (.secrets.vault.json by default, SECRETS_VAULT_FILE to override)
+ * never holds plain text. Secret names are bound to their values, so entries cannot be swapped.
+ *
+ * @example
+ * const vault = SecretsVault.open();
+ * vault.set('smtp_pass', 'app-password');
+ * vault.save();
+ * console.log(vault.get('smtp_pass'));
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const MASTER_KEY_ENV = 'SECRETS_MASTER_KEY';
+export const VAULT_FILE_ENV = 'SECRETS_VAULT_FILE';
+export const DEFAULT_VAULT_FILE = '.secrets.vault.json';
+
+const VAULT_VERSION = 1;
+const KEY_LENGTH = 32;
+const VERIFIER_TEXT = 'playwright-framework-secrets-vault';
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export interface SecretInfo {
+  name: string;
+  updatedAt: string;
+}
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  value: string;
+}
+
+interface EncryptedSecret extends EncryptedValue {
+  updatedAt: string;
+}
+
+interface VaultFile {
+  version: number;
+  salt: string;
+  /** Known text encrypted with the master key, used to detect a wrong key before decrypting secrets */
+  verifier: EncryptedValue;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+/**
+ * Path of the vault file: SECRETS_VAULT_FILE, or .secrets.vault.json in the given directory.
+ */
+export function resolveVaultPath(rootDir: string = process.cwd()): string {
+  const configured = process.env[VAULT_FILE_ENV];
+  if (configured) {
+    return path.isAbsolute(configured) ? configured : path.join(rootDir, configured);
+  }
+  return path.join(rootDir, DEFAULT_VAULT_FILE);
+}
+
+function deriveKey(masterKey: string, salt: string): Buffer {
+  return crypto.scryptSync(masterKey, Buffer.from(salt, 'base64'), KEY_LENGTH);
+}
+
+function encrypt(key: Buffer, plainText: string, associatedData: string): EncryptedValue {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(associatedData, 'utf8'));
+  const value = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    value: value.toString('base64')
+  };
+}
+
+function decrypt(key: Buffer, encrypted: EncryptedValue, associatedData: string): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'));
+  decipher.setAAD(Buffer.from(associatedData, 'utf8'));
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted.value, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export class SecretsVault {
+  private readonly filePath: string;
+  private data: VaultFile | undefined;
+  private key: Buffer | undefined;
+  private readonly masterKey: string | undefined;
+
+  constructor(filePath: string, masterKey?: string) {
+    this.filePath = filePath;
+    this.masterKey = masterKey || undefined;
+    if (fs.existsSync(filePath)) {
+      this.data = this.readFile();
+    }
+  }
+
+  /**
+   * Open the vault at SECRETS_VAULT_FILE (or .secrets.vault.json), unlocked with SECRETS_MASTER_KEY.
+   */
+  public static open(filePath: string = resolveVaultPath(), masterKey: string | undefined = process.env[MASTER_KEY_ENV]): SecretsVault {
+    return new SecretsVault(filePath, masterKey);
+  }
+
+  /**
+   * Path of the vault file
+   */
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * True when the vault file exists (or secrets were added and not yet saved)
+   */
+  public exists(): boolean {
+    return this.data !== undefined;
+  }
+
+  /**
+   * True when a master key is available to decrypt the vault
+   */
+  public isUnlocked(): boolean {
+    return this.masterKey !== undefined;
+  }
+
+  /**
+   * True when the vault exists and the master key decrypts it (false for a missing or wrong key)
+   */
+  public canUnlock(): boolean {
+    if (!this.data || !this.isUnlocked()) {
+      return false;
+    }
+    try {
+      this.unlock(this.data);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Names of the stored secrets with their last update time; does not need the master key
+   */
+  public list(): SecretInfo[] {
+    return Object.entries(this.data?.secrets ?? {})
+      .map(([name, secret]) => ({ name, updatedAt: secret.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public has(name: string): boolean {
+    return this.data?.secrets[name] !== undefined;
+  }
+
+  /**
+   * Decrypt a secret
+   * @param name Secret name as used in `${secret:<name>}`
+   */
+  public get(name: string): string {
+    if (!this.data) {
+      throw new Error(
+        `Secrets vault not found: ${this.fileName()}. Add the secret with: npm run secrets -- add ${name}`
+      );
+    }
+    const secret = this.data.secrets[name];
+    if (!secret) {
+      throw new Error(`Secret '${name}' not found in ${this.fileName()}. Add it with: npm run secrets -- add ${name}`);
+    }
+    return decrypt(this.unlock(this.data), secret, name);
+  }
+
+  /**
+   * Add or replace a secret; call save() to persist it
+   */
+  public set(name: string, value: string): void {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid secret name '${name}': use letters, digits, '_', '-' and '.'`);
+    }
+    if (!value) {
+      throw new Error(`Secret '${name}' must not be empty`);
+    }
+    if (!this.data) {
+      this.data = this.createVault(this.requireMasterKey());
+    }
+    this.data.secrets[name] = {
+      ...encrypt(this.unlock(this.data), value, name),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Remove a secret; call save() to persist the change
+   * @returns false when the secret did not exist
+   */
+  public remove(name: string): boolean {
+    if (!this.data?.secrets[name]) {
+      return false;
+    }
+    delete this.data.secrets[name];
+    return true;
+  }
+
+  /**
+   * Re-encrypt every secret with a new master key (and a new salt); call save() to persist it
+   */
+  public rotateMasterKey(newMasterKey: string): void {
+    if (!newMasterKey) {
+      throw new Error('The new master key must not be empty');
+    }
+    const plain = this.list().map(({ name }) => [name, this.get(name)] as const);
+    const previous = this.data?.secrets ?? {};
+
+    const rotated = this.createVault(newMasterKey);
+    const key = deriveKey(newMasterKey, rotated.salt);
+    plain.forEach(([name, value]) => {
+      rotated.secrets[name] = { ...encrypt(key, value, name), updatedAt: previous[name].updatedAt };
+    });
+    this.data = rotated;
+    this.key = key;
+  }
+
+  /**
+   * Write the vault to disk, readable by the current user only
+   */
+  public save(): void {
+    if (!this.data) {
+      return;
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, null, 2) + '\n', { encoding: 'utf8', mode: 0o600 });
+  }
+
+  private fileName(): string {
+    return path.basename(this.filePath);
+  }
+
+  private readFile(): VaultFile {
+    let parsed: VaultFile;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Secrets vault ${this.fileName()} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (parsed.version !== VAULT_VERSION || !parsed.salt || !parsed.verifier || typeof parsed.secrets !== 'object') {
+      throw new Error(`Secrets vault ${this.fileName()} has an unsupported format (expected version ${VAULT_VERSION})`);
+    }
+    return parsed;
+  }
+
+  private createVault(masterKey: string): VaultFile {
+    const salt = crypto.randomBytes(16).toString('base64');
+    return {
+      version: VAULT_VERSION,
+      salt,
+      verifier: encrypt(deriveKey(masterKey, salt), VERIFIER_TEXT, 'verifier'),
+      secrets: {}
+    };
+  }
+
+  private requireMasterKey(): string {
+    if (!this.masterKey) {
+      throw new Error(`Secrets vault ${this.fileName()} is locked: set ${MASTER_KEY_ENV} to resolve secrets`);
+    }
+    return this.masterKey;
+  }
+
+  private unlock(data: VaultFile): Buffer {
+    if (this.key) {
+      return this.key;
+    }
+    const masterKey = this.requireMasterKey();
+    const key = deriveKey(masterKey, data.salt);
+    try {
+      decrypt(key, data.verifier, 'verifier');
+    } catch {
+      throw new Error(`Unable to unlock secrets vault ${this.fileName()}: wrong ${MASTER_KEY_ENV}`);
+    }
+    this.key = key;
+    return key;
+  }
+}
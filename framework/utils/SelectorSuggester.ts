@@ -0,0 +1,136 @@
+/**
+ * SelectorSuggester.ts
+ *
+ * Derives robust selectors from an element found on the page, in the order Playwright recommends:
+ * test id, role and accessible name (which covers the label), placeholder, then visible text.
+ * Suggestions use Playwright's public selector syntax (`data-testid=`, `role=`, `text=`, CSS), so they
+ * can be pasted into the locator files, and only selectors that match exactly one element are returned.
+ *
+ * @example
+ * const suggestions = await suggestSelectors(page, page.locator("//input[@id='mobile']"));
+ * // ['role=textbox[name="Mobile Number"i]', '[placeholder="Mobile Number"]']
+ */
+
+import { Locator, Page } from '@playwright/test';
+
+/** Element facts read in the browser */
+interface ElementFacts {
+  testIdAttribute?: string;
+  testId?: string;
+  role?: string;
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  text?: string;
+}
+
+const MAX_TEXT_LENGTH = 50;
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-qa'];
+/** Test id attributes with a Playwright selector engine of their own (`data-testid=checkout`) */
+const TEST_ID_ENGINES = ['data-testid', 'data-test-id', 'data-test'];
+
+/** The parts of a DOM element readElementFacts uses (the tsconfig has no DOM lib) */
+interface FactsElement {
+  tagName: string;
+  textContent: string | null;
+  innerText?: string;
+  htmlFor?: string;
+  ownerDocument: {
+    querySelectorAll(selector: string): ArrayLike<FactsElement>;
+    getElementById(id: string): FactsElement | null;
+  };
+  getAttribute(name: string): string | null;
+  hasAttribute(name: string): boolean;
+  closest(selector: string): FactsElement | null;
+}
+
+/** Runs in the browser */
+function readElementFacts(el: FactsElement, testIdAttributes: string[]): ElementFacts {
+  const clean = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.replace(/\s+/g, ' ').trim() ? value.replace(/\s+/g, ' ').trim() : undefined;
+  const doc = el.ownerDocument;
+  const tag = String(el.tagName).toLowerCase();
+  const type = String(el.getAttribute('type') || '').toLowerCase();
+
+  let role = clean(el.getAttribute('role'));
+  if (!role) {
+    if (tag === 'button' || (tag === 'input' && ['button', 'submit', 'reset'].includes(type))) role = 'button';
+    else if (tag === 'a' && el.hasAttribute('href')) role = 'link';
+    else if (tag === 'input' && type === 'checkbox') role = 'checkbox';
+    else if (tag === 'input' && type === 'radio') role = 'radio';
+    else if (tag === 'select') role = 'combobox';
+    else if (tag === 'textarea' || (tag === 'input' && ['', 'text', 'email', 'tel', 'url', 'search'].includes(type))) role = 'textbox';
+    else if (/^h[1-6]$/.test(tag)) role = 'heading';
+    else if (tag === 'img' && el.getAttribute('alt')) role = 'img';
+  }
+
+  const id = el.getAttribute('id');
+  const labelledBy = clean(el.getAttribute('aria-labelledby'))
+    ?.split(' ')
+    .map((ref: string) => doc.getElementById(ref)?.textContent ?? '')
+    .join(' ');
+  const forLabel = id ? Array.from(doc.querySelectorAll('label')).find(label => label.htmlFor === id) : undefined;
+  const label =
+    clean(el.getAttribute('aria-label')) ??
+    clean(labelledBy) ??
+    clean(forLabel?.textContent) ??
+    clean(el.closest('label')?.textContent);
+
+  const text = clean(el.innerText ?? el.textContent);
+  const testIdAttribute = testIdAttributes.find(name => el.hasAttribute(name));
+  const nameFromContent = role && ['button', 'link', 'heading', 'checkbox', 'radio'].includes(role) ? text : undefined;
+  return {
+    testIdAttribute,
+    testId: testIdAttribute ? el.getAttribute(testIdAttribute) ?? undefined : undefined,
+    role,
+    name: label ?? nameFromContent ?? clean(el.getAttribute('alt')) ?? clean(el.getAttribute('title')),
+    label,
+    placeholder: clean(el.getAttribute('placeholder')),
+    text
+  };
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function candidateSelectors(facts: ElementFacts): string[] {
+  const selectors: string[] = [];
+  if (facts.testIdAttribute && facts.testId) {
+    selectors.push(
+      TEST_ID_ENGINES.includes(facts.testIdAttribute)
+        ? `${facts.testIdAttribute}=${facts.testId}`
+        : `[${facts.testIdAttribute}=${quote(facts.testId)}]`
+    );
+  }
+  if (facts.role && facts.name && facts.name.length <= MAX_TEXT_LENGTH) {
+    selectors.push(`role=${facts.role}[name=${quote(facts.name)}i]`);
+  }
+  if (facts.placeholder) {
+    selectors.push(`[placeholder=${quote(facts.placeholder)}]`);
+  }
+  if (facts.text && facts.text.length <= MAX_TEXT_LENGTH) {
+    selectors.push(`text=${quote(facts.text)}`);
+  }
+  return selectors;
+}
+
+/**
+ * Suggest selectors for the first element of a locator; selectors that do not resolve to exactly
+ * one element are dropped. Returns an empty list when the element is gone.
+ */
+export async function suggestSelectors(page: Page, locator: Locator): Promise<string[]> {
+  let facts: ElementFacts;
+  try {
+    facts = await locator.first().evaluate(readElementFacts, TEST_ID_ATTRIBUTES);
+  } catch {
+    return [];
+  }
+
+  const selectors = candidateSelectors(facts);
+  const counts = await Promise.all(
+    // A selector the page cannot evaluate counts as no match
+    selectors.map(selector => page.locator(selector).count().catch(() => 0))
+  );
+  return selectors.filter((_selector, index) => counts[index] === 1);
+}
@@ -0,0 +1,209 @@
+/**
+ * SoftAssertions.ts
+ *
+ * Collects the soft assertion failures of the running test. Inside a softly() block, or for a page
+ * object check called with `softAssert = true`, a failing check is recorded together with a
+ * screenshot of the page at that moment instead of stopping the test. When the test ends the
+ * failures are reported as one table (test output and `soft-assertions` attachment) and the test
+ * fails with their count.
+ *
+ * BaseTest creates one collector per test (the `softAssertions` auto fixture); page objects and the
+ * softly()/check() helpers reach it through SoftAssertions.current.
+ *
+ * @example
+ * await softly(async () => {
+ *   await cartPage.getTextAndCompare(locators.subTotal, productPrice, false);
+ *   await check('cart badge shows one item', () => expect(badge).toHaveText('1'));
+ *   await cartPage.verifyTitle('Cart');
+ * });
+ * // the test goes on; at the end: "2 soft assertion(s) failed" and the table of failures
+ */
+
+import { Page, TestInfo } from '@playwright/test';
+import { Logger } from './Logger';
+
+export interface SoftFailure {
+  index: number;
+  /** What was checked */
+  description: string;
+  /** Assertion error on one line, without terminal colors */
+  message: string;
+  /** file:line of the failing call in the page object or spec, when found in the stack */
+  location?: string;
+  /** Name of the screenshot attachment taken at the failure */
+  screenshot?: string;
+  at: Date;
+}
+
+const ANSI_COLORS = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+const MAX_MESSAGE_LENGTH = 120;
+
+/**
+ * One-line failure message: the assertion message (or matcher) plus its Expected/Received lines
+ */
+function summarizeError(error: unknown): string {
+  const raw = error instanceof Error ? error.message : String(error);
+  const lines = raw.replace(ANSI_COLORS, '').split('\n').map(text => text.replace(/\s+/g, ' ').trim()).filter(text => text !== '');
+  const values = lines.filter(text => /^(Expected|Received)( string| substring| value)?:/.test(text));
+  const headline = values.length > 0 && /^expect\(/.test(lines[0] ?? '') ? [] : lines.slice(0, 1);
+  const line = [...headline, ...values].join('; ');
+  return line.length > MAX_MESSAGE_LENGTH ? `${line.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : line;
+}
+
+/**
+ * First stack frame outside the framework and node_modules (the page object or spec that checked)
+ */
+function callerLocation(stack: string | undefined): string | undefined {
+  const frames = (stack ?? '').split('\n').slice(1);
+  for (const frame of frames) {
+    const match = frame.match(/\(?([^\s()]+\.[jt]s):(\d+):\d+\)?$/);
+    if (!match) continue;
+    const file = match[1].split('\\').join('/');
+    if (file.includes('/node_modules/') || file.includes('/framework/') || file.startsWith('node:')) continue;
+    return `${file.replace(`${process.cwd().split('\\').join('/')}/`, '')}:${match[2]}`;
+  }
+  return undefined;
+}
+
+export class SoftAssertions {
+  private static active: SoftAssertions | undefined;
+
+  private readonly failures: SoftFailure[] = [];
+  private readonly logger: Logger;
+  private page: Page | undefined;
+  private depth = 0;
+
+  constructor(private readonly testInfo: TestInfo) {
+    this.logger = new Logger('SoftAssertions');
+  }
+
+  /**
+   * Collector of the running test, undefined outside BaseTest (a worker runs one test at a time)
+   */
+  static get current(): SoftAssertions | undefined {
+    return SoftAssertions.active;
+  }
+
+  static start(testInfo: TestInfo): SoftAssertions {
+    SoftAssertions.active = new SoftAssertions(testInfo);
+    return SoftAssertions.active;
+  }
+
+  stop(): void {
+    if (SoftAssertions.active === this) {
+      SoftAssertions.active = undefined;
+    }
+  }
+
+  /**
+   * Page to screenshot when a check fails (page objects register their page on creation)
+   */
+  usePage(page: Page): void {
+    this.page = page;
+  }
+
+  /**
+   * Whether the code runs inside a softly() block
+   */
+  isCollecting(): boolean {
+    return this.depth > 0;
+  }
+
+  getFailures(): SoftFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Run a block whose page object checks are soft. An error that still escapes the block (a failed
+   * action, a plain expect) ends the block and is recorded as one more failure; the test goes on.
+   */
+  async softly(block: () => Promise<void> | void): Promise<void> {
+    this.depth++;
+    try {
+      await block();
+    } catch (error) {
+      await this.record('softly() block stopped', error);
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /**
+   * Run one assertion softly
+   * @param description What is checked, shown in the summary table
+   * @param assertion Throws when the check fails (e.g. an expect call)
+   * @param page Page to screenshot instead of the registered one
+   * @returns true when the assertion passed
+   */
+  async check(description: string, assertion: () => unknown, page?: Page): Promise<boolean> {
+    try {
+      await assertion();
+      return true;
+    } catch (error) {
+      await this.record(description, error, page);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failure and attach a screenshot of the page as it is now
+   */
+  async record(description: string, error: unknown, page?: Page): Promise<SoftFailure> {
+    const failure: SoftFailure = {
+      index: this.failures.length + 1,
+      description,
+      message: summarizeError(error),
+      location: callerLocation(error instanceof Error ? error.stack : new Error().stack),
+      at: new Date()
+    };
+    this.failures.push(failure);
+    this.logger.error(`Soft assertion #${failure.index} failed: ${description} - ${failure.message}`);
+
+    const target = page ?? this.page;
+    if (target && !target.isClosed()) {
+      try {
+        const name = `soft-assertion-${failure.index}`;
+        await this.testInfo.attach(name, { body: await target.screenshot(), contentType: 'image/png' });
+        failure.screenshot = name;
+      } catch (screenshotError) {
+        this.logger.warn(`Could not take a screenshot for soft assertion #${failure.index}: ${summarizeError(screenshotError)}`);
+      }
+    }
+    return failure;
+  }
+
+  /**
+   * The failures as a text table: #, check, failure, location, screenshot
+   */
+  formatSummary(): string {
+    const header = ['#', 'Check', 'Failure', 'Location', 'Screenshot'];
+    const rows = this.failures.map(failure => [
+      String(failure.index),
+      failure.description,
+      failure.message,
+      failure.location ?? '-',
+      failure.screenshot ?? '-'
+    ]);
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const format = (cells: string[]) => `| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+    const separator = `|${widths.map(width => '-'.repeat(width + 2)).join('|')}|`;
+    return [format(header), separator, ...rows.map(format)].join('\n');
+  }
+
+  /**
+   * End of test: attach the summary and fail the test with the failure count. A test that already
+   * failed keeps its own error; the summary attachment and annotation explain the rest.
+   */
+  async finish(): Promise<void> {
+    if (this.failures.length === 0) return;
+
+    const summary = `${this.failures.length} soft assertion(s) failed\n\n${this.formatSummary()}`;
+    await this.testInfo.attach('soft-assertions', { body: summary, contentType: 'text/plain' });
+    this.testInfo.annotations.push({ type: 'soft-assertions', description: `${this.failures.length} soft assertion(s) failed` });
+
+    if (this.testInfo.status === this.testInfo.expectedStatus) {
+      throw new Error(summary);
+    }
+    this.logger.warn(summary);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Step.ts
+ *
+ * Report steps for page objects and specs. A step runs inside Playwright's test.step, so it shows up
+ * nested in the HTML report, the trace viewer and Allure (allure-playwright turns test.step into
+ * Allure steps), and is also logged with its duration like Logger.step. The step title carries the
+ * call parameters, redacted by the Redactor (a `password` parameter shows as [REDACTED]). When a step
+ * fails, a screenshot of the page is attached to it (once, to the innermost failing step).
+ *
+ * - `@step` / `@step('Log in')` decorates an async page object method; the title defaults to
+ *   `<Class>.<method>` and the page is the object's `page`.
+ * - `step(title, body, options)` wraps any block.
+ * Outside a running test the body runs with logging only.
+ *
+ * @example
+ * class LoginPage extends BasePage {
+ *   @step
+ *   async enterPassword(password: string): Promise<void> { ... } // LoginPage.enterPassword(password: [REDACTED])
+ * }
+ *
+ * await step('Open the cart', () => cartPage.open(), { page });
+ */
+
+import { Page, test } from '@playwright/test';
+import { Logger } from './Logger';
+import { logManager } from './LogManager';
+import { redactor } from './Redactor';
+
+export interface StepOptions {
+  /** Shown in the step title after redaction, e.g. `{ username: 'standard_user' }` */
+  parameters?: Record<string, unknown>;
+  /** Page to screenshot when the step fails */
+  page?: Page;
+  /** Attach a screenshot when the step fails (default: true, needs a page) */
+  screenshotOnFailure?: boolean;
+  /** Logger for the step lines (default: a 'Step' logger) */
+  logger?: Logger;
+}
+
+const MAX_VALUE_LENGTH = 60;
+
+/** Errors a screenshot was already taken for, so enclosing steps do not take another */
+const capturedErrors = new WeakSet<object>();
+
+// Created on first use: Logger imports this module for Logger.step
+let defaultLogger: Logger | undefined;
+
+function stepLogger(): Logger {
+  defaultLogger = defaultLogger ?? new Logger('Step');
+  return defaultLogger;
+}
+
+function formatValue(value: unknown): string {
+  let text: string;
+  if (typeof value === 'string') {
+    text = value === '[REDACTED]' ? value : JSON.stringify(value);
+  } else if (typeof value === 'function') {
+    text = 'fn';
+  } else if (typeof value === 'object' && value !== null) {
+    const name = value.constructor?.name;
+    // Locators, pages and other class instances: the class name is enough
+    text = name && name !== 'Object' && name !== 'Array' ? name : JSON.stringify(value) ?? String(value);
+  } else {
+    text = String(value);
+  }
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Step title with its redacted parameters: `LoginPage.login(username: "standard_user", password: [REDACTED])`
+ */
+export function formatStepTitle(title: string, parameters?: Record<string, unknown>): string {
+  const entries = Object.entries(parameters ?? {}).filter(([, value]) => value !== undefined);
+  if (entries.length === 0) return title;
+  const redacted = redactor.redactValue(Object.fromEntries(entries));
+  return `${title}(${Object.entries(redacted).map(([name, value]) => `${name}: ${formatValue(value)}`).join(', ')})`;
+}
+
+/** A decorated page object method; only called through `apply` */
+type PageObjectMethod = (...args: unknown[]) => unknown;
+
+/**
+ * Parameter names of a function, from its source (`arg<i>` for destructured ones)
+ */
+function parameterNames(fn: PageObjectMethod): string[] {
+  const source = fn.toString();
+  const start = source.indexOf('(');
+  if (start < 0) return [];
+  let depth = 0;
+  let current = '';
+  const params: string[] = [];
+  for (const char of source.slice(start + 1)) {
+    if (depth === 0 && (char === ',' || char === ')')) {
+      params.push(current.trim());
+      current = '';
+      if (char === ')') break;
+      continue;
+    }
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    current += char;
+  }
+  return params
+    .filter(param => param !== '')
+    .map(param => param.replace(/^\.\.\./, '').split('=')[0].trim())
+    .map((name, index) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : `arg${index}`));
+}
+
+function inRunningTest(): boolean {
+  try {
+    test.info();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function attachFailureScreenshot(title: string, error: unknown, options: StepOptions): Promise<void> {
+  const { page } = options;
+  if (options.screenshotOnFailure === false || !page || page.isClosed() || !inRunningTest()) return;
+  if (typeof error === 'object' && error !== null) {
+    if (capturedErrors.has(error)) return;
+    capturedErrors.add(error);
+  }
+  try {
+    await test.info().attach(`${title} - failure`, { body: await page.screenshot(), contentType: 'image/png' });
+  } catch (screenshotError) {
+    (options.logger ?? stepLogger()).warn(`Could not take a failure screenshot for step ${title}: ${(screenshotError as Error).message}`);
+  }
+}
+
+function runStep<T>(title: string, body: () => Promise<T> | T, options: StepOptions = {}): Promise<T> {
+  const fullTitle = formatStepTitle(title, options.parameters);
+  const logger = options.logger ?? stepLogger();
+  const run = async (): Promise<T> => {
+    const started = Date.now();
+    logger.info(`🔹 Step: ${fullTitle}`);
+    logManager.pushStep(fullTitle);
+    try {
+      const result = await body();
+      logger.info(`✅ Step completed: ${fullTitle} (${Date.now() - started}ms)`);
+      return result;
+    } catch (error) {
+      logger.error(`❌ Step failed: ${fullTitle} (${Date.now() - started}ms)`, error as Error);
+      await attachFailureScreenshot(fullTitle, error, options);
+      throw error;
+    } finally {
+      logManager.popStep(fullTitle);
+    }
+  };
+  return inRunningTest() ? test.step(fullTitle, run) : run();
+}
+
+function isPage(value: unknown): value is Page {
+  return typeof value === 'object' && value !== null && typeof (value as Page).screenshot === 'function';
+}
+
+/**
+ * Wrap a page object method so that each call runs as a step
+ */
+function stepMethod(original: PageObjectMethod, title: string | undefined, methodName: string): PageObjectMethod {
+  const names = parameterNames(original);
+  return function (this: { page?: unknown; logger?: unknown }, ...args: unknown[]) {
+    const page = isPage(this.page) ? this.page : undefined;
+    const logger = this.logger instanceof Logger ? this.logger : undefined;
+    const parameters = Object.fromEntries(args.map((arg, index) => [names[index] ?? `arg${index}`, arg]));
+    return runStep(title ?? `${this.constructor.name}.${methodName}`, () => original.apply(this, args), { parameters, page, logger });
+  };
+}
+
+/**
+ * Apply the decorator. tsc type-checks legacy decorators (experimentalDecorators: target, key,
+ * descriptor) while Playwright's Babel transform emits standard ones (method, context), so both
+ * call shapes are handled.
+ */
+function decorate(title: string | undefined, target: unknown, keyOrContext: unknown, descriptor?: PropertyDescriptor): unknown {
+  if (typeof target === 'function' && typeof keyOrContext === 'object' && keyOrContext !== null) {
+    const context = keyOrContext as { kind: string; name: string | symbol };
+    if (context.kind !== 'method') throw new Error(`@step can only decorate methods (${String(context.name)})`);
+    return stepMethod(target as PageObjectMethod, title, String(context.name));
+  }
+  if (!descriptor || typeof descriptor.value !== 'function') {
+    throw new Error(`@step can only decorate methods (${String(keyOrContext)})`);
+  }
+  descriptor.value = stepMethod(descriptor.value, title, String(keyOrContext));
+  return descriptor;
+}
+
+/**
+ * `@step` decorator: report an async method call as a step titled `<Class>.<method>(params)`
+ */
+export function step(target: object, propertyKey: string | symbol, descriptor: PropertyDescriptor): PropertyDescriptor;
+/**
+ * `@step('Title')` decorator: report an async method call as a step with the given title plus its parameters
+ */
+export function step(title: string): MethodDecorator;
+/**
+ * Run a block as a report step
+ * @param title Step title (parameters from options are appended, redacted)
+ * @param body The step's work; its result is returned
+ * @param options Parameters, page for the failure screenshot, logger
+ */
+export function step<T>(title: string, body: () => Promise<T> | T, options?: StepOptions): Promise<T>;
+export function step(first: unknown, second?: unknown, third?: unknown): unknown {
+  if (typeof first === 'string') {
+    if (typeof second === 'function') {
+      return runStep(first, second as () => unknown, third as StepOptions | undefined);
+    }
+    return (target: unknown, keyOrContext: unknown, descriptor?: PropertyDescriptor) => decorate(first, target, keyOrContext, descriptor);
+  }
+  return decorate(undefined, first, second, third as PropertyDescriptor | undefined);
+}
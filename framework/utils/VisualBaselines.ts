@@ -0,0 +1,493 @@
+/**
+ * VisualBaselines.ts
+ *
+ * Baseline store for visual regression checks (ScreenshotHelper.compareWithBaseline), used by
+ * `npm run visual-baselines`. Images live under screenshots/:
+ *   - baseline/<id>.png                     approved reference images (tracked in git)
+ *   - baseline/<id>.json                    sidecar metadata: the ignore regions of the baseline
+ *   - actual/<id>_<timestamp>.png           screenshots taken by the runs
+ *   - diff/<id>_<timestamp>_diff.png        pixel differences
+ *   - results/<id>.json                     outcome of the last run of a check that still needs review
+ * where <id> is `<key>/<test>_<project>_<viewport>_<name>`.
+ *
+ * The key keeps renderings apart that never match pixel for pixel: browser, OS platform, device
+ * scale factor and mobile device (`chromium-linux-1x`, `webkit-darwin-3x-iphone12`); the profile
+ * `visual.baselineKey` picks the parts. A key without a baseline yet falls back along
+ * `visual.baselineFallback`: first to keys differing only in the device, then also in the scale (by
+ * default), and the baseline found is compared; approving or updating always writes the full key. Baselines from
+ * before keying sit directly in baseline/ and can be moved into a key with migrate().
+ *
+ * A check that fails or has no baseline leaves a result behind. approve() promotes its actual
+ * image to the baseline, reject() discards it and keeps the baseline. findOrphans() lists the
+ * baselines of tests (or projects) that no longer exist.
+ *
+ * Every comparison is also attached to its test (`visual-comparison`); VisualReporter turns them
+ * into an HTML review page whose approve/reject buttons save a decisions file for applyDecisions().
+ *
+ * Ignore regions given to a check are saved in the baseline's sidecar file and applied to every
+ * later comparison of that baseline, also by calls that pass none.
+ *
+ * Modes, resolved per check by ScreenshotHelper:
+ *   - update: UPDATE_BASELINES=true or `npx playwright test -u` overwrites differing baselines
+ *   - strict: profile `visual.strict` (default: on when CI is set) fails a check that has no
+ *     baseline instead of creating it
+ *
+ * @example
+ * const store = new VisualBaselines();
+ * store.listPending().forEach(result => console.log(result.id, result.status));
+ * store.approve(['Login_page_*']);
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { IgnoreRegion } from './VisualComparator';
+import { VisualDiffAlgorithm } from './VisualDiff';
+import { BaselineKeyPart } from './ProfileConfig';
+import { BASELINE_KEY_PARTS } from './ProfileValidator';
+
+/** Test attachment carrying the VisualResultRecord of a comparison, read by VisualReporter */
+export const VISUAL_COMPARISON_ATTACHMENT = 'visual-comparison';
+
+/** Decisions file written by the HTML review report */
+export const VISUAL_DECISIONS_FILE = 'visual-decisions.json';
+
+export type VisualCompareStatus = 'passed' | 'failed' | 'created' | 'updated' | 'missing';
+
+/** Key parts dropped, in order, when the full key has no baseline */
+export const DEFAULT_BASELINE_FALLBACK: BaselineKeyPart[] = ['device', 'scale'];
+
+/** What the current run renders with */
+export interface BaselineKeyValues {
+  /** Browser engine: chromium, firefox or webkit */
+  browser: string;
+  /** OS platform of the rendering machine (process.platform: linux, darwin, win32) */
+  platform: string;
+  /** Device pixel ratio */
+  scale: number;
+  /** Mobile device (deviceKey), absent on desktop runs */
+  device?: string;
+}
+
+export interface VisualResultRecord {
+  id: string;
+  /** Test title */
+  test: string;
+  project: string;
+  /** Screenshot name passed to compareWithBaseline */
+  name: string;
+  status: VisualCompareStatus;
+  /** Paths relative to the screenshots folder; `baseline` is the one of the full key, written on approval */
+  baseline: string;
+  actual: string;
+  diff?: string;
+  /** Less specific baseline the check was compared with, while the full key has none */
+  fallback?: string;
+  diffPixels: number;
+  diffRatio: number;
+  algorithm?: VisualDiffAlgorithm;
+  /** Similarity (0-1) the algorithm scored */
+  score?: number;
+  at: string;
+}
+
+export interface BaselineEntry {
+  id: string;
+  file: string;
+  size: number;
+  modified: Date;
+  /** Result of the last run when it needs review (failed or missing) */
+  pending?: VisualResultRecord;
+}
+
+/** Sidecar file stored next to a baseline image */
+export interface BaselineMetadata {
+  id: string;
+  /** Regions masked out of every comparison, in pixels of the baseline image */
+  ignoreRegions: IgnoreRegion[];
+  updatedAt: string;
+}
+
+export interface VisualDecision {
+  id: string;
+  decision: 'approve' | 'reject';
+}
+
+export interface VisualDecisions {
+  /** generatedAt of the report the decisions were taken in */
+  report?: string;
+  decisions: VisualDecision[];
+}
+
+export interface VisualTestRef {
+  title: string;
+  project: string;
+}
+
+/** Suffix ScreenshotHelper adds to actual and diff images: `_2024-05-01T10-20-30-123Z` */
+const TIMESTAMP_SUFFIX = /_\d{4}-\d{2}-\d{2}T[\d-]+Z(_diff)?\.png$/;
+
+/**
+ * Test title or project name as it appears in a baseline id
+ */
+export function sanitizeIdPart(value: string): string {
+  return value.replace(/[^a-zA-Z0-9]/g, '_');
+}
+
+/**
+ * Screenshot name as it appears in a baseline id
+ */
+export function sanitizeScreenshotName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+export function baselineId(test: string, project: string, viewport: string, name: string): string {
+  return `${sanitizeIdPart(test)}_${sanitizeIdPart(project || 'default')}_${viewport}_${sanitizeScreenshotName(name)}`;
+}
+
+/**
+ * Baseline key of the given parts, in their order: `chromium-linux-2x-pixel7`. Desktop runs have no
+ * device part; no parts at all give '' (baselines directly in baseline/).
+ */
+export function baselineKey(values: BaselineKeyValues, parts: readonly BaselineKeyPart[] = BASELINE_KEY_PARTS): string {
+  return keyPattern(values, parts, []);
+}
+
+/**
+ * Keys to look for a baseline under, most specific first: the full key, then patterns with each
+ * fallback part dropped in turn, where `*` stands for any value or none
+ * (`chromium-linux-2x-pixel7`, `chromium-linux-2x-*`, `chromium-linux-*-*`)
+ */
+export function baselineKeyChain(
+  values: BaselineKeyValues,
+  parts: readonly BaselineKeyPart[] = BASELINE_KEY_PARTS,
+  fallback: readonly BaselineKeyPart[] = DEFAULT_BASELINE_FALLBACK
+): string[] {
+  const chain = [baselineKey(values, parts)];
+  fallback.forEach((_part, index) => chain.push(keyPattern(values, parts, fallback.slice(0, index + 1))));
+  return Array.from(new Set(chain));
+}
+
+/**
+ * Whether a baseline key matches a pattern of baselineKeyChain
+ */
+export function matchesBaselineKey(key: string, pattern: string): boolean {
+  const regex = pattern.split('-').map((segment, index) => {
+    const separator = index > 0 ? '-' : '';
+    return segment === '*' ? `(?:${separator}[^-/]+)?` : `${separator}${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&')}`;
+  }).join('');
+  return new RegExp(`^${regex}$`).test(key);
+}
+
+function keyPattern(values: BaselineKeyValues, parts: readonly BaselineKeyPart[], dropped: readonly BaselineKeyPart[]): string {
+  const byPart: Record<BaselineKeyPart, string | undefined> = {
+    browser: sanitizeIdPart(values.browser),
+    platform: sanitizeIdPart(values.platform),
+    scale: `${values.scale}x`,
+    device: values.device
+  };
+  return parts.map(part => dropped.includes(part) ? '*' : byPart[part]).filter(Boolean).join('-');
+}
+
+/**
+ * Store id of a baseline under a key: `<key>/<test>_<project>_<viewport>_<name>`
+ */
+export function keyedBaselineId(key: string, id: string): string {
+  return key ? `${key}/${id}` : id;
+}
+
+/**
+ * Whether a baseline id matches a CLI pattern: `*` wildcards, otherwise a substring of the id.
+ * Wildcard patterns match the whole id or the part after the key (`Login_page_*` matches every key).
+ */
+export function matchesPattern(id: string, pattern: string): boolean {
+  if (!pattern.includes('*')) return id.includes(pattern);
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(id) || regex.test(id.slice(id.lastIndexOf('/') + 1));
+}
+
+/**
+ * Update mode: UPDATE_BASELINES=true, or Playwright's `-u` / `--update-snapshots` ('all' or 'changed')
+ */
+export function isUpdateMode(updateSnapshots?: string): boolean {
+  return process.env.UPDATE_BASELINES === 'true' || updateSnapshots === 'all' || updateSnapshots === 'changed';
+}
+
+/**
+ * Strict mode: the profile `visual.strict` setting, on by default in CI
+ */
+export function isStrictMode(strict?: boolean): boolean {
+  return strict ?? Boolean(process.env.CI);
+}
+
+export class VisualBaselines {
+  readonly baselineDir: string;
+  readonly actualDir: string;
+  readonly diffDir: string;
+  readonly resultsDir: string;
+
+  constructor(readonly rootDir: string = path.join(process.cwd(), 'screenshots')) {
+    this.baselineDir = path.join(rootDir, 'baseline');
+    this.actualDir = path.join(rootDir, 'actual');
+    this.diffDir = path.join(rootDir, 'diff');
+    this.resultsDir = path.join(rootDir, 'results');
+  }
+
+  /**
+   * Store the outcome of a check: failed and missing ones wait for review, the others clear it
+   */
+  recordResult(record: VisualResultRecord): void {
+    const file = this.resultFile(record.id);
+    if (record.status === 'failed' || record.status === 'missing') {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(record, null, 2));
+    } else if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+
+  /**
+   * Path relative to the screenshots folder, as stored in result records
+   */
+  relative(file: string): string {
+    return path.relative(this.rootDir, file).split(path.sep).join('/');
+  }
+
+  baselineFile(id: string): string {
+    return path.join(this.baselineDir, `${id}.png`);
+  }
+
+  readMetadata(id: string): BaselineMetadata | undefined {
+    const file = this.metadataFile(id);
+    if (!fs.existsSync(file)) return undefined;
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as BaselineMetadata;
+  }
+
+  /**
+   * Save the ignore regions of a baseline; an empty list removes the sidecar file
+   */
+  writeIgnoreRegions(id: string, ignoreRegions: IgnoreRegion[]): void {
+    const file = this.metadataFile(id);
+    if (ignoreRegions.length === 0) {
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+      return;
+    }
+    const metadata: BaselineMetadata = { id, ignoreRegions, updatedAt: new Date().toISOString() };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(metadata, null, 2));
+  }
+
+  listBaselines(): BaselineEntry[] {
+    const pending = new Map(this.listPending().map(result => [result.id, result]));
+    return this.keyedFiles(this.baselineDir, '.png').map(file => {
+      const id = file.replace(/\.png$/, '');
+      const stat = fs.statSync(path.join(this.baselineDir, file));
+      return { id, file: this.relative(path.join(this.baselineDir, file)), size: stat.size, modified: stat.mtime, pending: pending.get(id) };
+    });
+  }
+
+  /**
+   * Baseline keys that hold baselines ('' for the ones from before keying, directly in baseline/)
+   */
+  listKeys(): string[] {
+    return Array.from(new Set(this.listBaselines().map(baseline => baseline.id.includes('/') ? baseline.id.split('/')[0] : ''))).sort();
+  }
+
+  /**
+   * Key of the most specific baseline of a check along a key chain (see baselineKeyChain); of several
+   * keys matching one step, the one with the fewest parts. Undefined when no key has the baseline.
+   * @param id Baseline id without the key
+   */
+  findBaselineKey(id: string, chain: string[]): string | undefined {
+    const keys = this.listKeys()
+      .filter(key => fs.existsSync(this.baselineFile(keyedBaselineId(key, id))))
+      .sort((a, b) => a.split('-').length - b.split('-').length || a.localeCompare(b));
+    for (const pattern of chain) {
+      const found = keys.find(key => matchesBaselineKey(key, pattern));
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  }
+
+  /**
+   * Move the baselines from before keying (directly in baseline/) with their metadata under a key;
+   * baselines the key already has are left where they are
+   */
+  migrate(key: string): { moved: string[]; skipped: string[] } {
+    if (!key || key.includes('/')) {
+      throw new Error(`Invalid baseline key "${key}" (expected e.g. chromium-linux-1x)`);
+    }
+    const outcome = { moved: [] as string[], skipped: [] as string[] };
+    this.pngFiles(this.baselineDir).map(file => file.replace(/\.png$/, '')).forEach(id => {
+      const target = keyedBaselineId(key, id);
+      if (fs.existsSync(this.baselineFile(target))) {
+        outcome.skipped.push(id);
+        return;
+      }
+      fs.mkdirSync(path.dirname(this.baselineFile(target)), { recursive: true });
+      fs.renameSync(this.baselineFile(id), this.baselineFile(target));
+      const metadata = this.readMetadata(id);
+      if (metadata) {
+        fs.writeFileSync(this.metadataFile(target), JSON.stringify({ ...metadata, id: target }, null, 2));
+        fs.unlinkSync(this.metadataFile(id));
+      }
+      outcome.moved.push(target);
+    });
+    return outcome;
+  }
+
+  /**
+   * Checks that failed or had no baseline in their last run, oldest first
+   */
+  listPending(): VisualResultRecord[] {
+    return this.keyedFiles(this.resultsDir, '.json')
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.resultsDir, file), 'utf-8')) as VisualResultRecord)
+      .sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  /**
+   * Promote the actual image of pending checks to their baseline
+   * @param patterns Baseline id patterns; empty approves every pending check
+   * @returns The approved checks
+   */
+  approve(patterns: string[] = []): VisualResultRecord[] {
+    return this.selectPending(patterns).map(result => this.promote(result));
+  }
+
+  /**
+   * Discard the actual and diff images of pending checks; their baselines stay as they are
+   * @param patterns Baseline id patterns; empty rejects every pending check
+   * @returns The rejected checks
+   */
+  reject(patterns: string[] = []): VisualResultRecord[] {
+    return this.selectPending(patterns).map(result => {
+      this.discard(result);
+      return result;
+    });
+  }
+
+  /**
+   * Apply the decisions saved from the HTML review report. Ids are matched exactly; decisions for
+   * checks that are no longer pending (already reviewed, or passed since) are skipped.
+   */
+  applyDecisions(decisions: VisualDecisions): { approved: VisualResultRecord[]; rejected: VisualResultRecord[]; skipped: string[] } {
+    const pending = new Map(this.listPending().map(result => [result.id, result]));
+    const outcome = { approved: [] as VisualResultRecord[], rejected: [] as VisualResultRecord[], skipped: [] as string[] };
+    decisions.decisions.forEach(({ id, decision }) => {
+      const result = pending.get(id);
+      if (!result) {
+        outcome.skipped.push(id);
+      } else if (decision === 'approve') {
+        outcome.approved.push(this.promote(result));
+      } else if (decision === 'reject') {
+        this.discard(result);
+        outcome.rejected.push(result);
+      } else {
+        throw new Error(`Unknown decision '${String(decision)}' for ${id} (expected approve or reject)`);
+      }
+      pending.delete(id);
+    });
+    return outcome;
+  }
+
+  /**
+   * Baselines of the given tests' projects whose test is not among them (renamed or deleted tests).
+   * Project names depend on the environment the tests were listed in (BROWSER, RUN), so baselines
+   * of projects that were not listed are never orphans, and neither is a baseline whose id starts
+   * with a listed test title. Screenshot names a test stopped using can only be found by running it.
+   * @param otherProjects Names of projects that were not listed (`development-chromium` while
+   *   `chromium` was), so that their baselines are told apart from the listed projects' ones
+   */
+  findOrphans(tests: VisualTestRef[], otherProjects: string[] = []): BaselineEntry[] {
+    const listed = new Set(tests.map(test => sanitizeIdPart(test.project || 'default')));
+    // Longest name first: `X_development_chromium_...` belongs to development-chromium, not chromium
+    const projects = Array.from(new Set([...listed, ...otherProjects.map(sanitizeIdPart)])).sort((a, b) => b.length - a.length);
+    const titles = Array.from(new Set(tests.map(test => `${sanitizeIdPart(test.title)}_`)));
+    return this.listBaselines().filter(baseline => {
+      const unkeyed = baseline.id.slice(baseline.id.lastIndexOf('/') + 1);
+      const project = projects.find(name => new RegExp(`_${name}_(\\d+x\\d+|auto)_`).test(unkeyed));
+      return project !== undefined && listed.has(project) && !titles.some(title => unkeyed.startsWith(title));
+    });
+  }
+
+  /**
+   * Delete orphaned baselines with their metadata, actual, diff and result files
+   * @returns The deleted baselines
+   */
+  prune(tests: VisualTestRef[], otherProjects: string[] = []): BaselineEntry[] {
+    const orphans = this.findOrphans(tests, otherProjects);
+    orphans.forEach(orphan => {
+      fs.unlinkSync(path.join(this.rootDir, orphan.file));
+      if (fs.existsSync(this.metadataFile(orphan.id))) fs.unlinkSync(this.metadataFile(orphan.id));
+      this.removeRunFiles(orphan.id);
+      if (fs.existsSync(this.resultFile(orphan.id))) fs.unlinkSync(this.resultFile(orphan.id));
+    });
+    return orphans;
+  }
+
+  private selectPending(patterns: string[]): VisualResultRecord[] {
+    const pending = this.listPending();
+    if (patterns.length === 0) return pending;
+    const selected = pending.filter(result => patterns.some(pattern => matchesPattern(result.id, pattern)));
+    const unmatched = patterns.filter(pattern => !pending.some(result => matchesPattern(result.id, pattern)));
+    if (unmatched.length > 0) {
+      throw new Error(`No pending visual check matches ${unmatched.map(pattern => `"${pattern}"`).join(', ')}`);
+    }
+    return selected;
+  }
+
+  private promote(result: VisualResultRecord): VisualResultRecord {
+    const actual = path.join(this.rootDir, result.actual);
+    if (!fs.existsSync(actual)) {
+      throw new Error(`Actual image ${result.actual} of ${result.id} no longer exists; re-run the test`);
+    }
+    const baseline = path.join(this.rootDir, result.baseline);
+    fs.mkdirSync(path.dirname(baseline), { recursive: true });
+    fs.copyFileSync(actual, baseline);
+    this.discard(result);
+    return result;
+  }
+
+  private discard(result: VisualResultRecord): void {
+    this.removeRunFiles(result.id);
+    fs.unlinkSync(this.resultFile(result.id));
+  }
+
+  /**
+   * Remove the actual and diff images every run of a check left behind
+   */
+  private removeRunFiles(id: string): void {
+    const name = path.basename(id);
+    [this.actualDir, this.diffDir].map(dir => path.join(dir, path.dirname(id))).forEach(dir => {
+      this.pngFiles(dir)
+        .filter(file => file.startsWith(`${name}_`) && file.slice(name.length).match(TIMESTAMP_SUFFIX)?.index === 0)
+        .forEach(file => fs.unlinkSync(path.join(dir, file)));
+    });
+  }
+
+  private metadataFile(id: string): string {
+    return path.join(this.baselineDir, `${id}.json`);
+  }
+
+  private resultFile(id: string): string {
+    return path.join(this.resultsDir, `${id}.json`);
+  }
+
+  private pngFiles(dir: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir).filter(file => file.endsWith('.png')).sort();
+  }
+
+  /**
+   * Files directly in the folder and in its key folders, as `<file>` and `<key>/<file>`
+   */
+  private keyedFiles(dir: string, extension: string): string[] {
+    if (!fs.existsSync(dir)) return [];
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+    const keyed = entries
+      .filter(entry => entry.isDirectory())
+      .flatMap(entry => fs.readdirSync(path.join(dir, entry.name)).map(file => `${entry.name}/${file}`));
+    return [...entries.filter(entry => entry.isFile()).map(entry => entry.name), ...keyed]
+      .filter(file => file.endsWith(extension))
+      .sort();
+  }
+}
@@ -2,6 +2,18 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { PNG } from 'pngjs';
 import { Logger } from './Logger';
+import { VisualCompareStatus } from './VisualBaselines';
+import { DEFAULT_VISUAL_DIFF, Pixelmatch, VisualDiffAlgorithm, VisualDiffSettings, runVisualDiff } from './VisualDiff';
+
+/** Rectangle of the screenshot left out of the comparison, in image pixels */
+export interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Where the region came from (selector or locator), for the baseline metadata */
+  source?: string;
+}
 
 export interface VisualCompareResult {
   baselinePath: string;
@@ -10,9 +22,24 @@ export interface VisualCompareResult {
   diffPixels: number;
   diffRatio: number;
   passed: boolean;
+  /**
+   * 'created' / 'updated': the actual image was written as the baseline;
+   * 'missing': no baseline and missingBaseline is 'fail'
+   */
+  status: VisualCompareStatus;
+  /** Diff algorithm used */
+  algorithm: VisualDiffAlgorithm;
+  /** Similarity (0-1, 1 = identical) from the algorithm; absent when there was no baseline to compare */
+  score?: number;
+  /** Store id of the baseline, `<key>/<test>_<project>_<viewport>_<name>` (set by ScreenshotHelper) */
+  id?: string;
+  /** Baseline keys looked up, most specific first (set by ScreenshotHelper) */
+  baselineKeys?: string[];
+  /** Key of the less specific baseline that was compared, while the full key has none */
+  fallbackKey?: string;
 }
 
-export interface VisualCompareOptions {
+export interface VisualCompareOptions extends VisualDiffSettings {
   /**
    * Threshold for considering images equal.
    * If thresholdType is 'percent', this is a value between 0 and 1 (e.g. 0.01 = 1% pixels may differ).
@@ -20,6 +47,12 @@ export interface VisualCompareOptions {
    */
   threshold?: number;
   thresholdType?: 'pixel' | 'percent';
+  /** No baseline yet: create it from the actual image ('create', default) or fail the check ('fail', strict mode) */
+  missingBaseline?: 'create' | 'fail';
+  /** Overwrite the baseline with the actual image when they differ (update mode) */
+  updateBaseline?: boolean;
+  /** Regions (timestamps, carousels, ads) masked out of both images before comparing */
+  ignoreRegions?: IgnoreRegion[];
 }
 
 export class VisualComparator {
@@ -30,8 +63,9 @@ export class VisualComparator {
   }
 
   /**
-   * Compare two PNG images on disk using pixelmatch.
-   * If baseline does not exist, it will be created from actual and comparison will be skipped (first-run behaviour).
+   * Compare two PNG images on disk with the selected diff algorithm (see VisualDiff.ts).
+   * If baseline does not exist, it will be created from actual and comparison will be skipped (first-run behaviour),
+   * unless missingBaseline is 'fail'.
    */
   async compareOrCreateBaseline(
     baselinePath: string,
@@ -39,15 +73,27 @@ export class VisualComparator {
     diffPath: string,
     options: VisualCompareOptions = {}
   ): Promise<VisualCompareResult> {
-    const { threshold = 0.01, thresholdType = 'percent' } = options;
+    const { threshold = 0.01, thresholdType = 'percent', missingBaseline = 'create', updateBaseline = false, ignoreRegions = [] } = options;
+    const settings: Required<VisualDiffSettings> = {
+      algorithm: options.algorithm ?? DEFAULT_VISUAL_DIFF.algorithm,
+      colorTolerance: options.colorTolerance ?? DEFAULT_VISUAL_DIFF.colorTolerance,
+      ssimThreshold: options.ssimThreshold ?? DEFAULT_VISUAL_DIFF.ssimThreshold,
+      shiftTolerance: options.shiftTolerance ?? DEFAULT_VISUAL_DIFF.shiftTolerance
+    };
+    const { algorithm } = settings;
 
     // Ensure directories exist
     this.ensureDirectory(path.dirname(baselinePath));
     this.ensureDirectory(path.dirname(actualPath));
     this.ensureDirectory(path.dirname(diffPath));
 
-    // If no baseline yet, take this actual as baseline and treat as passed
+    // If no baseline yet, take this actual as baseline and treat as passed (update mode always does)
     if (!fs.existsSync(baselinePath)) {
+      if (missingBaseline === 'fail' && !updateBaseline) {
+        this.logger.error(`Baseline image not found: ${baselinePath} (strict mode, not creating it)`);
+        return { baselinePath, actualPath, diffPath, diffPixels: 0, diffRatio: 0, passed: false, status: 'missing', algorithm };
+      }
+
       this.logger.info(`Baseline image not found. Creating new baseline at: ${baselinePath}`);
       fs.copyFileSync(actualPath, baselinePath);
 
@@ -58,6 +104,8 @@ export class VisualComparator {
         diffPixels: 0,
         diffRatio: 0,
         passed: true,
+        status: 'created',
+        algorithm,
       };
     }
 
@@ -93,26 +141,21 @@ export class VisualComparator {
 
     const baselinePrepared = prepareForCompare(baselinePng, width, height);
     const actualPrepared = prepareForCompare(actualPng, width, height);
+    const ignoreMask = this.buildIgnoreMask(ignoreRegions, width, height);
+    const ignoredPixels = this.applyIgnoreMask(ignoreMask, baselinePrepared, actualPrepared);
 
     // Use dynamic import for pixelmatch to support both CommonJS and ESM
     // We use Function constructor to bypass TypeScript transpilation of import() to require()
     // which causes "require() of ES Module" error in CommonJS environment
-    const { default: pixelmatch } = await (new Function('return import("pixelmatch")')()) as typeof import('pixelmatch');
-
-    const diffPixels = pixelmatch(
-      baselinePrepared.data,
-      actualPrepared.data,
-      diffPng.data,
-      width,
-      height,
-      {
-        threshold: 0.1, // pixelmatch internal threshold (sensitivity), not our pass/fail one
-      }
-    );
+    const { default: pixelmatch } = await (new Function('return import("pixelmatch")')()) as { default: Pixelmatch };
 
-    const totalPixels = width * height;
+    // colorTolerance is the per-pixel sensitivity of the algorithm, not our pass/fail threshold
+    const { diffPixels, score } = runVisualDiff(pixelmatch, baselinePrepared, actualPrepared, diffPng, settings, ignoreMask);
+
+    const totalPixels = width * height - ignoredPixels;
     const diffRatio = totalPixels > 0 ? diffPixels / totalPixels : 0;
 
+    this.shadeIgnoredPixels(ignoreMask, diffPng);
     fs.writeFileSync(diffPath, PNG.sync.write(diffPng));
 
     let passed: boolean;
@@ -123,11 +166,29 @@ export class VisualComparator {
     }
 
     this.logger.info(
-      `Visual comparison result – diffPixels: ${diffPixels}, diffRatio: ${(diffRatio * 100).toFixed(
+      `Visual comparison result (${algorithm}) – diffPixels: ${diffPixels}, diffRatio: ${(diffRatio * 100).toFixed(
         3
-      )}%, passed: ${passed}`
+      )}%, score: ${score.toFixed(4)}, ignoredPixels: ${ignoredPixels}, passed: ${passed}`
     );
 
+    const sizeChanged = baselinePng.width !== actualPng.width || baselinePng.height !== actualPng.height;
+    if (updateBaseline && (!passed || sizeChanged)) {
+      this.logger.info(`Updating baseline image: ${baselinePath}`);
+      fs.copyFileSync(actualPath, baselinePath);
+
+      return {
+        baselinePath,
+        actualPath,
+        diffPath,
+        diffPixels,
+        diffRatio,
+        passed: true,
+        status: 'updated',
+        algorithm,
+        score
+      };
+    }
+
     return {
       baselinePath,
       actualPath,
@@ -135,9 +196,54 @@ export class VisualComparator {
       diffPixels,
       diffRatio,
       passed,
+      status: passed ? 'passed' : 'failed',
+      algorithm,
+      score,
     };
   }
 
+  /**
+   * One flag per pixel: 1 inside an ignore region (regions are clipped to the image)
+   */
+  private buildIgnoreMask(regions: IgnoreRegion[], width: number, height: number): Uint8Array | undefined {
+    if (regions.length === 0) return undefined;
+    const mask = new Uint8Array(width * height);
+    regions.forEach(region => {
+      const left = Math.max(0, Math.floor(region.x));
+      const top = Math.max(0, Math.floor(region.y));
+      const right = Math.min(width, Math.ceil(region.x + region.width));
+      const bottom = Math.min(height, Math.ceil(region.y + region.height));
+      for (let y = top; y < bottom; y++) {
+        mask.fill(1, y * width + left, Math.max(y * width + left, y * width + right));
+      }
+    });
+    return mask;
+  }
+
+  /**
+   * Paint the ignored pixels the same in both images so they never count as different
+   * @returns Number of ignored pixels
+   */
+  private applyIgnoreMask(mask: Uint8Array | undefined, ...images: PNG[]): number {
+    if (!mask) return 0;
+    let ignored = 0;
+    mask.forEach((flag, index) => {
+      if (!flag) return;
+      ignored++;
+      images.forEach(image => image.data.set([0, 0, 0, 255], index * 4));
+    });
+    return ignored;
+  }
+
+  /**
+   * Show the ignored regions in the diff image as a light blue overlay
+   */
+  private shadeIgnoredPixels(mask: Uint8Array | undefined, diff: PNG): void {
+    mask?.forEach((flag, index) => {
+      if (flag) diff.data.set([200, 220, 255, 255], index * 4);
+    });
+  }
+
   private ensureDirectory(dir: string): void {
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
@@ -0,0 +1,219 @@
+/**
+ * VisualDiff.ts
+ *
+ * Diff algorithms of VisualComparator. Each one counts the differing pixels of two equally sized
+ * images, draws them into the diff image and scores the similarity (0-1, 1 = identical):
+ *   - yiq: per-pixel color distance in YIQ space; pixels closer than `colorTolerance` match
+ *   - antialias: yiq, but anti-aliased pixels (font and edge smoothing) do not count (default)
+ *   - ssim: structural similarity of 8x8 luminance windows; windows scoring below `ssimThreshold`
+ *     count as different, the score is the mean SSIM
+ *   - layout-shift: yiq, but a pixel matching one within `shiftTolerance` px in the other image
+ *     (content moved by a few pixels) does not count
+ * Pixels of the ignore mask never count and are left out of the score.
+ *
+ * @example
+ * // config.<profile>.yaml: defaults for every comparison
+ * visual:
+ *   algorithm: ssim
+ *   ssimThreshold: 0.9
+ *
+ * // per page
+ * await screenshotHelper.compareWithBaseline('blog', { algorithm: 'layout-shift', shiftTolerance: 4 });
+ */
+
+import { PNG } from 'pngjs';
+import { VISUAL_DIFF_ALGORITHMS } from './ProfileValidator';
+
+export type VisualDiffAlgorithm = (typeof VISUAL_DIFF_ALGORITHMS)[number];
+
+export interface VisualDiffSettings {
+  /** Comparison strategy (default: 'antialias') */
+  algorithm?: VisualDiffAlgorithm;
+  /** YIQ color distance (0-1) under which two pixels match; default 0.1 */
+  colorTolerance?: number;
+  /** ssim: minimum SSIM (0-1) of a window to match; default 0.95 */
+  ssimThreshold?: number;
+  /** layout-shift: distance in pixels a pixel may have moved; default 3 */
+  shiftTolerance?: number;
+}
+
+export interface VisualDiffOutcome {
+  diffPixels: number;
+  /** Similarity, 0-1 */
+  score: number;
+}
+
+export type Pixelmatch = typeof import('pixelmatch').default;
+
+export const DEFAULT_VISUAL_DIFF: Required<VisualDiffSettings> = {
+  algorithm: 'antialias',
+  colorTolerance: 0.1,
+  ssimThreshold: 0.95,
+  shiftTolerance: 3
+};
+
+/** Largest possible YIQ distance (black against white), as in pixelmatch */
+const MAX_YIQ_DELTA = 35215;
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+const DIFF_COLOR = [255, 0, 0, 255];
+const TOLERATED_COLOR = [255, 255, 0, 255];
+
+/**
+ * Channel of a pixel blended over white (screenshots may have transparent areas)
+ */
+function channel(data: Uint8Array, index: number, offset: number): number {
+  return 255 + (data[index + offset] - 255) * (data[index + 3] / 255);
+}
+
+/**
+ * Squared YIQ distance of two pixels (pixelmatch's perceptual color metric)
+ */
+function yiqDelta(a: Uint8Array, i: number, b: Uint8Array, j: number): number {
+  const red = channel(a, i, 0) - channel(b, j, 0);
+  const green = channel(a, i, 1) - channel(b, j, 1);
+  const blue = channel(a, i, 2) - channel(b, j, 2);
+  const y = red * 0.29889531 + green * 0.58662247 + blue * 0.11448223;
+  const iq = red * 0.59597799 - green * 0.2741761 - blue * 0.32180189;
+  const q = red * 0.21147017 - green * 0.52261711 + blue * 0.31114694;
+  return 0.5053 * y * y + 0.299 * iq * iq + 0.1957 * q * q;
+}
+
+function luminance(png: PNG): Float64Array {
+  const values = new Float64Array(png.width * png.height);
+  for (let pixel = 0; pixel < values.length; pixel++) {
+    const index = pixel * 4;
+    values[pixel] = 0.299 * channel(png.data, index, 0) + 0.587 * channel(png.data, index, 1) + 0.114 * channel(png.data, index, 2);
+  }
+  return values;
+}
+
+/**
+ * Faded grayscale copy of the image as the diff background, like pixelmatch draws it
+ */
+function drawBackground(source: PNG, diff: PNG): void {
+  const gray = luminance(source);
+  gray.forEach((value, pixel) => {
+    const faded = 255 + (value - 255) * 0.1;
+    diff.data.fill(faded, pixel * 4, pixel * 4 + 3);
+    diff.data[pixel * 4 + 3] = 255;
+  });
+}
+
+function countedPixels(width: number, height: number, mask?: Uint8Array): number {
+  return width * height - (mask ? mask.reduce((sum, flag) => sum + flag, 0) : 0);
+}
+
+function pixelScore(diffPixels: number, counted: number): number {
+  return counted > 0 ? 1 - diffPixels / counted : 1;
+}
+
+function ssim(baseline: PNG, actual: PNG, diff: PNG, settings: Required<VisualDiffSettings>, mask?: Uint8Array): VisualDiffOutcome {
+  const { width, height } = baseline;
+  const x = luminance(baseline);
+  const y = luminance(actual);
+  drawBackground(actual, diff);
+
+  let diffPixels = 0;
+  let weightedScore = 0;
+  let weight = 0;
+  for (let top = 0; top < height; top += SSIM_WINDOW) {
+    for (let left = 0; left < width; left += SSIM_WINDOW) {
+      const pixels: number[] = [];
+      for (let row = top; row < Math.min(top + SSIM_WINDOW, height); row++) {
+        for (let column = left; column < Math.min(left + SSIM_WINDOW, width); column++) {
+          if (!mask?.[row * width + column]) pixels.push(row * width + column);
+        }
+      }
+      if (pixels.length === 0) continue;
+
+      const meanX = pixels.reduce((sum, pixel) => sum + x[pixel], 0) / pixels.length;
+      const meanY = pixels.reduce((sum, pixel) => sum + y[pixel], 0) / pixels.length;
+      let varianceX = 0;
+      let varianceY = 0;
+      let covariance = 0;
+      pixels.forEach(pixel => {
+        varianceX += (x[pixel] - meanX) ** 2;
+        varianceY += (y[pixel] - meanY) ** 2;
+        covariance += (x[pixel] - meanX) * (y[pixel] - meanY);
+      });
+      varianceX /= pixels.length;
+      varianceY /= pixels.length;
+      covariance /= pixels.length;
+      const score = ((2 * meanX * meanY + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanX ** 2 + meanY ** 2 + SSIM_C1) * (varianceX + varianceY + SSIM_C2));
+
+      weightedScore += score * pixels.length;
+      weight += pixels.length;
+      if (score < settings.ssimThreshold) {
+        diffPixels += pixels.length;
+        pixels.forEach(pixel => diff.data.set(DIFF_COLOR, pixel * 4));
+      }
+    }
+  }
+  // SSIM ranges from -1 (inverted) to 1; anything uncorrelated scores 0
+  return { diffPixels, score: weight > 0 ? Math.max(0, weightedScore / weight) : 1 };
+}
+
+/**
+ * Whether the pixel of `source` at (column, row) matches a pixel of `target` at most `radius` away
+ */
+function matchesNearby(source: PNG, target: PNG, column: number, row: number, radius: number, maxDelta: number): boolean {
+  const { width, height } = source;
+  const index = (row * width + column) * 4;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      const x = column + dx;
+      const y = row + dy;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      if (yiqDelta(source.data, index, target.data, (y * width + x) * 4) <= maxDelta) return true;
+    }
+  }
+  return false;
+}
+
+function layoutShift(baseline: PNG, actual: PNG, diff: PNG, settings: Required<VisualDiffSettings>, mask?: Uint8Array): VisualDiffOutcome {
+  const { width, height } = baseline;
+  const maxDelta = MAX_YIQ_DELTA * settings.colorTolerance * settings.colorTolerance;
+  drawBackground(actual, diff);
+
+  let diffPixels = 0;
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const pixel = row * width + column;
+      if (mask?.[pixel] || yiqDelta(baseline.data, pixel * 4, actual.data, pixel * 4) <= maxDelta) continue;
+      // Moved content: each image still has the pixel close by in the other one
+      const shifted = matchesNearby(baseline, actual, column, row, settings.shiftTolerance, maxDelta) &&
+        matchesNearby(actual, baseline, column, row, settings.shiftTolerance, maxDelta);
+      diff.data.set(shifted ? TOLERATED_COLOR : DIFF_COLOR, pixel * 4);
+      if (!shifted) diffPixels++;
+    }
+  }
+  return { diffPixels, score: pixelScore(diffPixels, countedPixels(width, height, mask)) };
+}
+
+/**
+ * Run a diff algorithm on two images of the same size, drawing into `diff`
+ * @param mask Ignored pixels (1 = ignored); they must already be painted the same in both images
+ */
+export function runVisualDiff(
+  pixelmatch: Pixelmatch,
+  baseline: PNG,
+  actual: PNG,
+  diff: PNG,
+  settings: Required<VisualDiffSettings>,
+  mask?: Uint8Array
+): VisualDiffOutcome {
+  const { width, height } = baseline;
+  if (settings.algorithm === 'ssim') return ssim(baseline, actual, diff, settings, mask);
+  if (settings.algorithm === 'layout-shift') return layoutShift(baseline, actual, diff, settings, mask);
+  if (settings.algorithm !== 'yiq' && settings.algorithm !== 'antialias') {
+    throw new Error(`Unknown visual diff algorithm '${String(settings.algorithm)}' (expected ${VISUAL_DIFF_ALGORITHMS.join(', ')})`);
+  }
+  const diffPixels = pixelmatch(baseline.data, actual.data, diff.data, width, height, {
+    threshold: settings.colorTolerance,
+    includeAA: settings.algorithm === 'yiq'
+  });
+  return { diffPixels, score: pixelScore(diffPixels, countedPixels(width, height, mask)) };
+}
@@ -1,13 +1,14 @@
 import { FullConfig } from '@playwright/test';
 import { emailService } from './EmailService';
+import { getProfile } from './ProfileContext';
 
 async function globalSetup(config: FullConfig) {
   console.log('Setting up email reporting...');
   
-  // Access profile configuration from global
-  const selectedProfile = (global as any).selectedProfile;
+  // Profile resolved by playwright.config.ts
+  const selectedProfile = getProfile(config);
   
-  if (selectedProfile?.reportEmail?.email && selectedProfile?.reportSmtp?.smtp) {
+  if (selectedProfile.reportEmail?.email && selectedProfile.reportSmtp?.smtp) {
     try {
       await emailService.sendNotification(
         selectedProfile.reportEmail,
@@ -1,12 +1,13 @@
 import { FullConfig } from '@playwright/test';
 import { emailService } from './EmailService';
 import { envConfig } from './EnvConfig';
+import { getProfile } from './ProfileContext';
 
 async function globalTeardown(config: FullConfig) {
   console.log('Sending test report email with Playwright report...');
   
-  // Access profile configuration from global
-  const selectedProfile = (global as any).selectedProfile;
+  // Profile resolved by playwright.config.ts
+  const selectedProfile = getProfile(config);
   console.log('Selected profile:', selectedProfile ? 'found' : 'not found');
   
   /*
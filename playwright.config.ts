@@ -1,33 +1,50 @@
-import { defineConfig, devices } from '@playwright/test';
-import * as fs from 'fs';
-import * as yaml from 'js-yaml';
-import * as path from 'path';
+import { defineConfig, devices, Project } from '@playwright/test';
+import {
+  loadProfile,
+  formatResolvedProfile,
+  resolveProfileNames,
+  BrowserName,
+  GridConfig,
+  LoadedProfile,
+  MobileConfig,
+  ProfileConfig
+} from './framework/utils/ProfileConfig';
+import { BROWSERS } from './framework/utils/ProfileValidator';
+import { PROFILE_METADATA_KEY, ProfileOptions, setActiveProfiles } from './framework/utils/ProfileContext';
 import { envConfig } from './framework/utils/EnvConfig';
+import { redactor } from './framework/utils/Redactor';
+import { logManager } from './framework/utils/LogManager';
+import { resolveDeviceName } from './framework/utils/DeviceAliases';
+
+// Mask secrets and sensitive data (see framework/utils/Redactor.ts) in console output, and so in the reports
+redactor.installConsoleRedaction();
 
 // Environment profiles inspired by user's desired schema
 // Select via RUN (preferred) or NODE_ENV. Defaults to 'development'.
-function substituteEnvVars(content: string): string {
-  return content.replace(/\${([A-Z0-9_]+)(?::-([^}]+))?}/g, (match, key, defaultValue) => {
-    return envConfig.get(key, defaultValue || '');
-  });
-}
+// RUN may list several profiles (RUN=development,preprod): every profile gets its own projects in one run.
+// `extends` chains and config.<profile>.local.yaml overrides are merged, and the result is validated
+// on load, so a malformed profile fails here with file:line details.
+const loadedProfiles = resolveProfileNames().map(name => loadProfile(name));
+const isMultiProfileRun = loadedProfiles.length > 1;
+// The first profile drives run-wide settings (workers, reporters, email)
+const primaryProfile = loadedProfiles[0];
+const selectedProfile = primaryProfile.profile;
 
-const selectedProfileName = (process.env.RUN || process.env.NODE_ENV || 'development') as string;
-const configFileName = `config.${selectedProfileName}.yaml`;
-const configPath = path.join(process.cwd(), configFileName);
-
-if (!fs.existsSync(configPath)) {
-  throw new Error(`Configuration file not found: ${configFileName}. Please check your RUN or NODE_ENV environment variables.`);
+// Print the resolved (merged) profiles for debugging: PRINT_PROFILE=true npx playwright test
+if ((process.env.PRINT_PROFILE || '').toLowerCase() === 'true') {
+  loadedProfiles.forEach(loaded => console.log(formatResolvedProfile(loaded)));
 }
 
-const rawConfig = fs.readFileSync(configPath, 'utf8');
-const substitutedConfig = substituteEnvVars(rawConfig);
-const selectedProfile = yaml.load(substitutedConfig) as any;
+if (isMultiProfileRun) {
+  console.log(`🌍 Multi-environment run: ${loadedProfiles.map(loaded => loaded.name).join(', ')}`);
+}
 
 // Override browser from command line if BROWSER environment variable is set
-const commandLineBrowser = process.env.BROWSER;
+const commandLineBrowser = process.env.BROWSER?.trim().toLowerCase();
 if (commandLineBrowser) {
-  (selectedProfile as any).browser = commandLineBrowser;
+  if (!(BROWSERS as readonly string[]).includes(commandLineBrowser)) {
+    throw new Error(`Unknown BROWSER '${process.env.BROWSER}'. Use one of: ${BROWSERS.join(', ')}`);
+  }
   console.log(`🔧 Browser overridden from command line: ${commandLineBrowser}`);
 }
 
@@ -36,50 +53,66 @@ const commandLineMobileDevice = process.env.MOBILE_DEVICE;
 const commandLineViewportWidth = process.env.VIEWPORT_WIDTH;
 const commandLineViewportHeight = process.env.VIEWPORT_HEIGHT;
 
-if (commandLineMobileDevice || commandLineViewportWidth || commandLineViewportHeight) {
-  // Enable mobile mode if device is specified
-  if (commandLineMobileDevice) {
-    if (!(selectedProfile as any).mobile) {
-      (selectedProfile as any).mobile = { mobile: { isMobile: true } };
-    }
-    (selectedProfile as any).mobile.mobile.device = commandLineMobileDevice;
-    // Disable grid when mobile device is specified (mobile tests should run locally)
-    if ((selectedProfile as any).grid) {
-      (selectedProfile as any).grid.isGrid = false;
-      console.log('📱 Disabled grid mode for mobile testing');
-    }
-    console.log(`📱 Mobile device overridden from command line: ${commandLineMobileDevice}`);
+const hasGridConfig = loadedProfiles.some(loaded => !!loaded.profile.grid);
+
+if (commandLineMobileDevice) {
+  if (hasGridConfig) {
+    console.log('📱 Disabled grid mode for mobile testing');
   }
-  
-  // Add custom viewport dimensions if specified
-  if (commandLineViewportWidth || commandLineViewportHeight) {
-    if (!(selectedProfile as any).mobile) {
-      (selectedProfile as any).mobile = { mobile: { isMobile: true } };
+  console.log(`📱 Mobile device overridden from command line: ${commandLineMobileDevice}`);
+} else if ((commandLineViewportWidth || commandLineViewportHeight) && hasGridConfig) {
+  console.log('📱 Disabled grid mode for mobile viewport testing');
+}
+if (commandLineViewportWidth) {
+  console.log(`📐 Viewport width set: ${commandLineViewportWidth}px`);
+}
+if (commandLineViewportHeight) {
+  console.log(`📐 Viewport height set: ${commandLineViewportHeight}px`);
+}
+
+// Apply the command line overrides (BROWSER, MOBILE_DEVICE, VIEWPORT_*) to a profile
+function applyCommandLineOverrides(profile: ProfileConfig) {
+  if (commandLineBrowser) {
+    profile.browser = commandLineBrowser as BrowserName;
+  }
+
+  if (commandLineMobileDevice || commandLineViewportWidth || commandLineViewportHeight) {
+    // The inherited base profile sets isMobile: false, so enable mobile mode explicitly
+    profile.mobile = profile.mobile ?? {};
+    const mobile = profile.mobile.mobile = { ...profile.mobile.mobile, isMobile: true };
+    // Enable mobile mode if device is specified
+    if (commandLineMobileDevice) {
+      mobile.device = commandLineMobileDevice;
     }
-    // Disable grid when using custom viewport (mobile mode)
-    if ((selectedProfile as any).grid && !commandLineMobileDevice) {
-      (selectedProfile as any).grid.isGrid = false;
-      console.log('📱 Disabled grid mode for mobile viewport testing');
+    // Disable grid when a mobile device or custom viewport is specified (mobile tests should run locally)
+    if (profile.grid) {
+      profile.grid.isGrid = false;
     }
+    // Add custom viewport dimensions if specified
     if (commandLineViewportWidth) {
-      (selectedProfile as any).mobile.mobile.viewportWidth = parseInt(commandLineViewportWidth);
-      console.log(`📐 Viewport width set: ${commandLineViewportWidth}px`);
+      mobile.viewportWidth = parseInt(commandLineViewportWidth);
     }
     if (commandLineViewportHeight) {
-      (selectedProfile as any).mobile.mobile.viewportHeight = parseInt(commandLineViewportHeight);
-      console.log(`📐 Viewport height set: ${commandLineViewportHeight}px`);
+      mobile.viewportHeight = parseInt(commandLineViewportHeight);
     }
   }
 }
 
-// Expose profile baseURL to rest of code via env for utilities
+loadedProfiles.forEach(loaded => applyCommandLineOverrides(loaded.profile));
+
+// Extend the central redaction policy with each profile's `redaction` rules
+loadedProfiles.forEach(loaded => redactor.configure(loaded.profile.redaction));
+// Log level and sinks of the primary profile; BaseTest applies each test's own profile
+logManager.configure(loadedProfiles[0].profile.logging);
+
+// Expose the primary profile baseURL to rest of code via env for utilities
 process.env.BASE_URL = selectedProfile.baseURL;
 
-// Add selectedProfile to config for global setup/teardown
-(global as any).selectedProfile = selectedProfile;
+// Make the resolved profiles available to getProfile() (global setup/teardown, reporters, page objects)
+setActiveProfiles(loadedProfiles);
 
 // Function to build grid capabilities based on provider
-function buildGridCapabilities(gridConfig: any, browser: string) {
+function buildGridCapabilities(gridConfig: GridConfig, browser: string) {
   const provider = gridConfig?.provider || 'lambdatest';
   const providerConfig = gridConfig?.[provider];
   
@@ -116,7 +149,7 @@ function buildGridCapabilities(gridConfig: any, browser: string) {
   throw new Error(`Unsupported grid provider: ${provider}`);
 }
 
-function mapBrowserToProject(browser: string, gridConfig?: any) {
+function mapBrowserToProject(browser: string, gridConfig?: GridConfig): Project {
   const b = browser?.toLowerCase();
   
   // If grid is enabled, return grid configuration
@@ -136,7 +169,7 @@ function mapBrowserToProject(browser: string, gridConfig?: any) {
       
       console.log('   Provider: LambdaTest');
       console.log('   WebSocket Endpoint: wss://cdp.lambdatest.com/playwright?capabilities=...');
-      console.log(`   Credentials: Embedded in capabilities JSON (user: ${providerConfig.user})`);
+      console.log(`   Credentials: Embedded in capabilities JSON (user: ${providerConfig?.user})`);
     } else if (provider === 'browserstack') {
       // BrowserStack WebSocket endpoint
       const capabilitiesStr = encodeURIComponent(JSON.stringify(capabilities));
@@ -145,7 +178,7 @@ function mapBrowserToProject(browser: string, gridConfig?: any) {
       
       console.log('   Provider: BrowserStack');
       console.log('   WebSocket Endpoint: wss://cdp.browserstack.com/playwright?caps=...');
-      console.log(`   Credentials: Embedded in capabilities JSON (user: ${providerConfig.user})`);
+      console.log(`   Credentials: Embedded in capabilities JSON (user: ${providerConfig?.user})`);
     } else {
       throw new Error(`Unsupported grid provider: ${provider}`);
     }
@@ -291,39 +324,23 @@ function mapBrowserToProject(browser: string, gridConfig?: any) {
 
 // Environment variables are loaded by EnvConfig
 
-// Mobile device aliases to Playwright device descriptors
-const MOBILE_DEVICE_ALIASES: Record<string, keyof typeof devices> = {
-  'pixel 5': 'Pixel 5',
-  'pixel5': 'Pixel 5',
-  'pixel 7': 'Pixel 7',
-  'pixel7': 'Pixel 7',
-  // approximate mapping for convenience
-  'pixel 9': 'Pixel 7',
-  'samsung s9': 'Galaxy S9+',
-  'galaxy s9+': 'Galaxy S9+',
-  'iphone12': 'iPhone 12',
-  'iphone 14 pro': 'iPhone 14 Pro',
-  'ipad mini': 'iPad Mini'
-};
-
-function resolveMobileUse(mobile: any) {
+function resolveMobileUse(mobile: MobileConfig | undefined) {
   // Support nested shape like { mobile: { isMobile: true, device: '...' } }
   const m = mobile?.mobile ?? mobile;
   const deviceName: string | undefined = m?.device;
-  let baseDevice: any = devices['Pixel 5'];
+  let baseDevice = devices['Pixel 5'];
   if (deviceName) {
-    const alias = MOBILE_DEVICE_ALIASES[`${deviceName}`.toLowerCase()];
-    const key = alias || (devices as any)[deviceName] ? deviceName : undefined;
-    if (key && (devices as any)[key]) {
-      baseDevice = (devices as any)[key];
+    const key = resolveDeviceName(`${deviceName}`);
+    if (key) {
+      baseDevice = devices[key];
     }
   }
   // Exclude control fields when spreading overrides
   const overrides: Record<string, unknown> = { ...(m || {}) };
-  delete (overrides as any).isMobile;
-  delete (overrides as any).device;
-  delete (overrides as any).viewportWidth;
-  delete (overrides as any).viewportHeight;
+  delete overrides.isMobile;
+  delete overrides.device;
+  delete overrides.viewportWidth;
+  delete overrides.viewportHeight;
   
   // Support custom viewport dimensions from environment or config
   const customViewportWidth = process.env.VIEWPORT_WIDTH 
@@ -333,7 +350,7 @@ function resolveMobileUse(mobile: any) {
     ? parseInt(process.env.VIEWPORT_HEIGHT) 
     : m?.viewportHeight;
   
-  const viewport: any = {};
+  const viewport: { width?: number; height?: number } = {};
   if (customViewportWidth) viewport.width = customViewportWidth;
   if (customViewportHeight) viewport.height = customViewportHeight;
   
@@ -348,66 +365,38 @@ function resolveMobileUse(mobile: any) {
 }
 
 // Log grid configuration status
-if ((selectedProfile as any).grid?.isGrid) {
-  const gridConfig = (selectedProfile as any).grid;
-  const provider = gridConfig?.provider || 'lambdatest';
-  const providerConfig = gridConfig?.[provider];
-  
-  if (provider === 'lambdatest') {
-    const ltOptions = providerConfig?.capabilities?.['LT:Options'];
-    console.log('🌐 Grid Mode: ENABLED - Tests will run on LambdaTest');
-    console.log(`   Platform: ${ltOptions?.platform}`);
-    console.log(`   Browser: ${ltOptions?.browserName} ${ltOptions?.browserVersion}`);
-    console.log(`   Build: ${ltOptions?.build}`);
-  } else if (provider === 'browserstack') {
-    const bsOptions = providerConfig?.capabilities?.['bstack:options'];
-    console.log('🌐 Grid Mode: ENABLED - Tests will run on BrowserStack');
-    console.log(`   Platform: ${bsOptions?.os} ${bsOptions?.osVersion}`);
-    console.log(`   Browser: ${bsOptions?.browserName} ${bsOptions?.browserVersion}`);
-    console.log(`   Build: ${bsOptions?.buildName}`);
-  }
-} else {
-  console.log('💻 Grid Mode: DISABLED - Tests will run locally');
-}
-
-// Build projects conditionally: keep project names stable (chromium/firefox/webkit) for IDE compatibility
-const isMobileMode = ((selectedProfile as any).mobile?.mobile ?? (selectedProfile as any).mobile)?.isMobile;
-const gridCfg = (selectedProfile as any).grid;
-const baseProject = mapBrowserToProject(selectedProfile.browser, gridCfg);
-let computedProjects: any[] = [];
-
-if (isMobileMode) {
-  computedProjects = [{
-    ...baseProject,
-    use: {
-      ...(baseProject as any).use,
-      ...resolveMobileUse((selectedProfile as any).mobile)
+function logGridStatus(profile: ProfileConfig) {
+  if (profile.grid?.isGrid) {
+    const gridConfig = profile.grid;
+    const provider = gridConfig?.provider || 'lambdatest';
+    const providerConfig = gridConfig?.[provider];
+    
+    if (provider === 'lambdatest') {
+      const ltOptions = providerConfig?.capabilities?.['LT:Options'];
+      console.log('🌐 Grid Mode: ENABLED - Tests will run on LambdaTest');
+      console.log(`   Platform: ${ltOptions?.platform}`);
+      console.log(`   Browser: ${ltOptions?.browserName} ${ltOptions?.browserVersion}`);
+      console.log(`   Build: ${ltOptions?.build}`);
+    } else if (provider === 'browserstack') {
+      const bsOptions = providerConfig?.capabilities?.['bstack:options'];
+      console.log('🌐 Grid Mode: ENABLED - Tests will run on BrowserStack');
+      console.log(`   Platform: ${bsOptions?.os} ${bsOptions?.osVersion}`);
+      console.log(`   Browser: ${bsOptions?.browserName} ${bsOptions?.browserVersion}`);
+      console.log(`   Build: ${bsOptions?.buildName}`);
     }
-  }];
-} else {
-  // If BROWSER is explicitly set, keep a single project. Otherwise:
-  // - Respect the browser from the selected profile by default
-  // - Allow opting into all three browsers via RUN_ALL_BROWSERS=true
-  const cliBrowser = (process.env.BROWSER || '').toLowerCase();
-  const runAllBrowsers = (process.env.RUN_ALL_BROWSERS || '').toLowerCase() === 'true';
-  if (cliBrowser) {
-    computedProjects = [mapBrowserToProject(cliBrowser, gridCfg)];
-  } else if (runAllBrowsers) {
-    computedProjects = [
-      mapBrowserToProject('chromium', gridCfg),
-      mapBrowserToProject('firefox', gridCfg),
-      mapBrowserToProject('webkit', gridCfg)
-    ];
   } else {
-    computedProjects = [baseProject];
+    console.log('💻 Grid Mode: DISABLED - Tests will run locally');
   }
 }
 
 // Log mobile configuration if enabled
-if (isMobileMode) {
-  const mobileConfig = (selectedProfile as any).mobile?.mobile ?? (selectedProfile as any).mobile;
+function logMobileStatus(profile: ProfileConfig) {
+  const mobileConfig = profile.mobile?.mobile ?? profile.mobile;
+  if (!mobileConfig?.isMobile) {
+    return;
+  }
   const deviceName = mobileConfig?.device || 'default';
-  const viewport = mobileConfig?.viewport || {};
+  const viewport = (mobileConfig?.viewport || {}) as { width?: number; height?: number };
   console.log('📱 Mobile Mode: ENABLED');
   console.log(`   Device: ${deviceName}`);
   if (viewport.width || mobileConfig?.viewportWidth) {
@@ -415,10 +404,91 @@ if (isMobileMode) {
   }
 }
 
+// Per-profile `use` options: each project gets its own profile, baseURL and artifacts settings
+function profileUseOptions(profile: ProfileConfig) {
+  const isGrid = profile.grid?.isGrid;
+  const keepAllArtifacts = profile.Artifacts === 'on';
+  return {
+    /* Resolved environment profile, exposed through the `profile` fixture and getProfile() */
+    profile,
+
+    /* Base URL to use in actions like `await page.goto('/')`. */
+    baseURL: profile.baseURL,
+
+    /* Browser headless mode - force headless in CI environments */
+    headless: process.env.HEADLESS === 'true' ? true : process.env.HEADLESS === 'false' ? false : (process.env.CI ? true : profile.headless),
+
+    trace: isGrid ? 'off' : (keepAllArtifacts ? 'on' : 'retain-on-failure'),
+
+    screenshot: isGrid ? 'off' : (keepAllArtifacts ? 'on' : 'only-on-failure'),
+
+    video: isGrid ? 'off' : (keepAllArtifacts ? 'on' : 'retain-on-failure')
+  } as const;
+}
+
+// Build projects conditionally: keep project names stable (chromium/firefox/webkit) for IDE compatibility.
+// In a multi-environment run the names are prefixed with the profile (development-chromium, preprod-chromium).
+function buildProfileProjects(loaded: LoadedProfile) {
+  const profile = loaded.profile;
+  const isMobileMode = (profile.mobile?.mobile ?? profile.mobile)?.isMobile;
+  const gridCfg = profile.grid;
+  const baseProject = mapBrowserToProject(profile.browser, gridCfg);
+  let projects: Project[] = [];
+
+  if (isMobileMode) {
+    projects = [{
+      ...baseProject,
+      use: {
+        ...baseProject.use,
+        ...resolveMobileUse(profile.mobile)
+      }
+    }];
+  } else {
+    // If BROWSER is explicitly set, keep a single project. Otherwise:
+    // - Respect the browser from the selected profile by default
+    // - Allow opting into all three browsers via RUN_ALL_BROWSERS=true
+    const cliBrowser = (process.env.BROWSER || '').toLowerCase();
+    const runAllBrowsers = (process.env.RUN_ALL_BROWSERS || '').toLowerCase() === 'true';
+    if (cliBrowser) {
+      projects = [mapBrowserToProject(cliBrowser, gridCfg)];
+    } else if (runAllBrowsers) {
+      projects = [
+        mapBrowserToProject('chromium', gridCfg),
+        mapBrowserToProject('firefox', gridCfg),
+        mapBrowserToProject('webkit', gridCfg)
+      ];
+    } else {
+      projects = [baseProject];
+    }
+  }
+
+  // Every project carries the profile name in its metadata so reporters can tell which profile it ran against
+  return projects.map(project => ({
+    ...project,
+    name: isMultiProfileRun ? `${loaded.name}-${project.name}` : project.name,
+    retries: profile.retries,
+    metadata: { ...project.metadata, [PROFILE_METADATA_KEY]: loaded.name },
+    use: {
+      ...project.use,
+      ...profileUseOptions(profile)
+    }
+  }));
+}
+
+const computedProjects = loadedProfiles.flatMap(loaded => {
+  if (isMultiProfileRun) {
+    console.log(`\n🌍 Profile: ${loaded.name} (${loaded.profile.baseURL})`);
+  }
+  logGridStatus(loaded.profile);
+  const projects = buildProfileProjects(loaded);
+  logMobileStatus(loaded.profile);
+  return projects;
+});
+
 /**
  * @see https://playwright.dev/docs/test-configuration
  */
-export default defineConfig({
+export default defineConfig<ProfileOptions>({
   testDir: './test/specs',
   /* Global timeout for each test */
   timeout: process.env.CI ? 600000 : 600000, // 10 minutes for CI, 10 minutes for local
@@ -429,10 +499,14 @@ export default defineConfig({
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
   forbidOnly: !!process.env.CI,
-  /* Retry on CI only - increase retries for stability */
+  /* Only the profile name goes into report metadata; the profile itself may hold credentials */
+  metadata: { [PROFILE_METADATA_KEY]: primaryProfile.name, profiles: loadedProfiles.map(loaded => loaded.name) },
+  /* Retry on CI only - increase retries for stability (each profile's projects use their own retries) */
   retries: selectedProfile.retries,
   /* Opt out of parallel tests on CI - but allow 2 workers for better resource utilization */
-  workers: selectedProfile.parallel,
+  workers: isMultiProfileRun
+    ? Math.max(...loadedProfiles.map(loaded => loaded.profile.parallel ?? 1))
+    : selectedProfile.parallel,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
     ['list'],
@@ -440,11 +514,14 @@ export default defineConfig({
     ['allure-playwright', { detail: true, outputFolder: 'allure-results', suiteTitle: false }],
     ['json', { outputFile: 'test-results/report.json' }],
     ['./framework/reporters/EmailReporter.ts'],
+    ['./framework/reporters/HealingReporter.ts', { outputFolder: 'healing-report' }],
+    ['./framework/reporters/VisualReporter.ts', { outputFolder: 'visual-report' }],
     ['json', {  outputFile: 'test-results.json' }],
     [
       './reporters/tesbo-uploader-v3',  // Uploads after run from json report
       {
-        apiKey: 'tesbo_vChVaxeIW18DY_-6QVZa_WylpAN6JXd5', // Local API key for testing
+        // From the secrets vault (npm run secrets -- add tesbo_api_key), otherwise the TESBO_API_KEY env variable
+        apiKey: envConfig.hasSecret('tesbo_api_key') ? envConfig.getSecret('tesbo_api_key') : undefined,
         apiKeyEnv: 'TESBO_API_KEY',
         reportingPortalUrl: 'https://whitebox.bettercases.ai/',  // Use HTTPS to avoid redirect/downgrade issues
         runTitle: process.env.TESBO_RUN_TITLE || 'Local Playwright Test Run'
@@ -454,24 +531,8 @@ export default defineConfig({
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
-    /* Base URL to use in actions like `await page.goto('/')`. */
-    baseURL: selectedProfile.baseURL,
-
-    /* Browser headless mode - force headless in CI environments */
-    headless: process.env.HEADLESS === 'true' ? true : process.env.HEADLESS === 'false' ? false : (process.env.CI ? true : selectedProfile.headless),
+    /* Profile-specific options (profile, baseURL, headless, trace/screenshot/video) are set per project */
 
-    trace: (selectedProfile as any).grid?.isGrid
-      ? 'off'
-      : (String(((selectedProfile as any).Artifacts) || '').toLowerCase() === 'on' ? 'on' : 'retain-on-failure'),
-    
-    screenshot: (selectedProfile as any).grid?.isGrid
-      ? 'off'
-      : (String(((selectedProfile as any).Artifacts) || '').toLowerCase() === 'on' ? 'on' : 'only-on-failure'),
-    
-    video: (selectedProfile as any).grid?.isGrid
-      ? 'off'
-      : (String(((selectedProfile as any).Artifacts) || '').toLowerCase() === 'on' ? 'on' : 'retain-on-failure'),
-    
     /* Global timeout for each action - reduce for local to speed up failures */
     actionTimeout: process.env.CI ? 120000 : 30000,
     
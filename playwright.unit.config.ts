@@ -0,0 +1,13 @@
+import { defineConfig } from '@playwright/test';
+
+/**
+ * Unit specs of the framework utilities (test/unit): plain functions and files, no browser and no profile.
+ * Run with `npm run test:unit`.
+ */
+export default defineConfig({
+  testDir: './test/unit',
+  timeout: 30000,
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  reporter: [['list']]
+});
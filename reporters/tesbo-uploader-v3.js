@@ -28,7 +28,14 @@ class BetterCasesUploaderV2 {
     this.attachResultsDirTo = options.attachResultsDirTo || (process.env.TESBO_ATTACH_RESULTS_DIR_TO || "each"); // "first" | "each" | "none"
   }
 
-  onBegin() {}
+  onBegin(config) {
+    // The profile(s) the run was configured with (see framework/utils/ProfileContext.ts)
+    const { getProfile, getProfileNames } = require("../framework/utils/ProfileContext");
+    // Masks secret values resolved from the vault before anything is uploaded
+    this.redactor = require("../framework/utils/Redactor").redactor;
+    this.profileName = getProfileNames(config).join(",");
+    this.profileBaseUrl = getProfile(config).baseURL;
+  }
 
   async onEnd() {
     if (!this.projectAccessKey) {
@@ -75,6 +82,8 @@ class BetterCasesUploaderV2 {
       runName: this._resolveRunTitle(extracted, report),
       status: "COMPLETED",
       sourceType: "PLAYWRIGHT",
+      environment: this.profileName,
+      environmentUrl: this.profileBaseUrl,
       branchName: process.env.GITHUB_REF_NAME || process.env.CI_COMMIT_REF_NAME,
       pullRequest: process.env.GITHUB_PR_NUMBER || process.env.CI_MERGE_REQUEST_IID,
       commitAuthor: process.env.GITHUB_ACTOR || process.env.CI_COMMIT_AUTHOR,
@@ -171,7 +180,7 @@ class BetterCasesUploaderV2 {
         "content-type": "application/json",
         "x-project-access-key": this.projectAccessKey,
       },
-      body: JSON.stringify(payload),
+      body: JSON.stringify(this.redactor ? this.redactor.redactValue(payload) : payload),
     });
     const text = await res.text();
     if (!res.ok) {
@@ -84,11 +84,10 @@ function offlineTemplate(prompt, outfile) {
   const defaultContent = `
 import { test } from '../../framework/core/BaseTest';
 import { LoginPage } from '../pages/LoginPage';
-const BASE_URL = (global as any).selectedProfile?.baseURL;
 test.describe('AI Generated', () => {
   let loginPage: LoginPage;
-  test.beforeEach(async ({ page }, testInfo) => {
-    loginPage = new LoginPage(page, BASE_URL, testInfo);
+  test.beforeEach(async ({ page, profile }, testInfo) => {
+    loginPage = new LoginPage(page, profile.baseURL, testInfo);
     await loginPage.navigateToLogin();
   });
   test('Login with valid credentials', async ({ logger }) => {
@@ -187,7 +186,7 @@ async function main() {
         'Ensure imports are relative to this repo:',
         `import { test } from '${baseTestImport}';`,
         "Use Page objects from '../pages' when applicable.",
-        'Use selectedProfile.baseURL from global if a URL is needed.',
+        'Use profile.baseURL from the profile fixture if a URL is needed.',
         'No comments; keep code concise and idiomatic.'
       ].join('\n');
 
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+/**
+ * Locator Registry Check
+ *
+ * Loads every locator file under test/locators, collects the named locators created with
+ * defineLocators() and reports:
+ *   - duplicate names (two maps declaring the same "<Page>.<key>")
+ *   - duplicate selectors (two locators with the same frame and candidates)
+ *   - unused locators (not referenced by any page object, spec or fixture under test/)
+ * Plain selector maps that do not use defineLocators() are skipped.
+ *
+ * Issues listed in test/locators/locator-issues.baseline.json are known and reported as such;
+ * --update-baseline rewrites the file with the current issues.
+ *
+ * Usage: node scripts/check-locators.js [--unused-only|--duplicates-only] [--update-baseline]
+ * Exits with 1 when an issue not in the baseline is found.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// The registry lives in TypeScript; compile it on the fly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+const { compareWithBaseline, findLocatorIssues, locatorIssueKey, locatorsOfModule } = require('../framework/utils/LocatorRegistry');
+
+const projectRoot = path.resolve(__dirname, '..');
+const locatorsDir = path.join(projectRoot, 'test', 'locators');
+const baselineFile = path.join(locatorsDir, 'locator-issues.baseline.json');
+const sourcesDir = path.join(projectRoot, 'test');
+const args = process.argv.slice(2);
+
+function listTsFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listTsFiles(fullPath);
+    return entry.name.endsWith('.ts') ? [fullPath] : [];
+  });
+}
+
+const relative = file => path.relative(projectRoot, file).split(path.sep).join('/');
+
+const locatorFiles = listTsFiles(locatorsDir);
+const locators = [];
+let loadFailures = 0;
+
+locatorFiles.forEach(file => {
+  try {
+    locators.push(...locatorsOfModule(relative(file), require(file)));
+  } catch (error) {
+    loadFailures++;
+    console.error(`❌ ${relative(file)}: ${error.message}`);
+  }
+});
+
+const sources = listTsFiles(sourcesDir)
+  .filter(file => !file.startsWith(locatorsDir + path.sep))
+  .map(file => ({ file: relative(file), content: fs.readFileSync(file, 'utf8') }));
+
+const allIssues = findLocatorIssues(locators, sources);
+
+if (args.includes('--update-baseline')) {
+  const baseline = {
+    description: 'Known locator issues accepted by npm run check-locators; regenerate with --update-baseline',
+    issues: allIssues.map(issue => locatorIssueKey(issue)).filter((key, index, keys) => keys.indexOf(key) === index).sort()
+  };
+  fs.writeFileSync(baselineFile, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+  console.log(`\n📝 Wrote ${baseline.issues.length} known issue(s) to ${relative(baselineFile)}`);
+  process.exit(loadFailures > 0 ? 1 : 0);
+}
+
+const baselineIssues = fs.existsSync(baselineFile) ? JSON.parse(fs.readFileSync(baselineFile, 'utf8')).issues ?? [] : [];
+let issues = allIssues;
+if (args.includes('--unused-only')) issues = issues.filter(issue => issue.type === 'unused');
+if (args.includes('--duplicates-only')) issues = issues.filter(issue => issue.type !== 'unused');
+const { fresh, known } = compareWithBaseline(issues, baselineIssues);
+const { resolved } = compareWithBaseline(allIssues, baselineIssues);
+
+const labels = {
+  'duplicate-name': 'Duplicate names',
+  'duplicate-selector': 'Duplicate selectors',
+  unused: 'Unused locators'
+};
+
+Object.keys(labels).forEach(type => {
+  const ofType = fresh.filter(issue => issue.type === type);
+  if (ofType.length === 0) return;
+  console.log(`\n${labels[type]} (${ofType.length}):`);
+  ofType.forEach(issue => console.log(`  ⚠️  ${issue.file}: ${issue.message}`));
+});
+
+if (known.length > 0) {
+  console.log(`\nKnown issues (${known.length}, in ${relative(baselineFile)}):`);
+  known.forEach(issue => console.log(`  ·  ${issue.file}: ${issue.message}`));
+}
+if (resolved.length > 0) {
+  console.log(`\n✅ Fixed since the baseline (run with --update-baseline to drop them): ${resolved.join(', ')}`);
+}
+
+const mapCount = new Set(locators.map(located => `${located.file}#${located.exportName}`)).size;
+console.log(`\n${locators.length} named locator(s) in ${mapCount} map(s), ${fresh.length} new issue(s), ${known.length} known`);
+process.exit(fresh.length > 0 || loadFailures > 0 ? 1 : 0);
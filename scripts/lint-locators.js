@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+/**
+ * Locator Linter & Live Validation
+ *
+ * Static pass (default): flags brittle selectors in the locator files - index-based and absolute
+ * XPaths, long class chains, text-only selectors - with a suggested role/label/test id alternative.
+ *
+ * Live pass (--live): opens the page in Chromium and counts the elements every candidate selector
+ * matches: ❌ zero, ✅ exactly one, ⚠️ many. The page is the profile baseURL (RUN/NODE_ENV or
+ * --profile), --url (absolute, or relative to the baseURL), or a saved HTML snapshot (--html).
+ *
+ * Usage: node scripts/lint-locators.js [locator files...] [--live] [--url <url>] [--html <file>]
+ *                                      [--profile <name>] [--include-plain] [--strict] [--headed]
+ * Without files every file under test/locators is checked. Only defineLocators() maps are checked
+ * unless --include-plain is given (plain maps may hold names or URLs rather than selectors).
+ * Exits with 1 when a live selector matches nothing (or fails), or with --strict on any lint finding.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+// The linter lives in TypeScript; compile it on the fly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+const { locatorsOfModule } = require('../framework/utils/LocatorRegistry');
+const { countLocatorMatches, lintSelector, locatorTargetsOfModule } = require('../framework/utils/LocatorLinter');
+const { loadProfile, resolveProfileName } = require('../framework/utils/ProfileConfig');
+
+const projectRoot = path.resolve(__dirname, '..');
+const args = process.argv.slice(2);
+
+function option(name) {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const valueOptions = ['--url', '--html', '--profile'];
+const files = args.filter((arg, index) => !arg.startsWith('--') && !valueOptions.includes(args[index - 1]));
+const live = args.includes('--live') || args.includes('--url') || args.includes('--html');
+const strict = args.includes('--strict');
+const includePlain = args.includes('--include-plain');
+
+function listTsFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listTsFiles(fullPath);
+    return entry.name.endsWith('.ts') ? [fullPath] : [];
+  });
+}
+
+const relative = file => path.relative(projectRoot, file).split(path.sep).join('/');
+
+function loadTargets() {
+  const locatorFiles = files.length > 0
+    ? files.map(file => path.resolve(file))
+    : listTsFiles(path.join(projectRoot, 'test', 'locators'));
+
+  return locatorFiles.flatMap(file => {
+    try {
+      const moduleExports = require(file);
+      const named = locatorsOfModule(relative(file), moduleExports);
+      return locatorTargetsOfModule(relative(file), moduleExports, named, includePlain);
+    } catch (error) {
+      console.error(`❌ ${relative(file)}: ${error.message}`);
+      process.exitCode = 1;
+      return [];
+    }
+  });
+}
+
+function runLint(targets) {
+  let findings = 0;
+  console.log('\n🔎 Static lint');
+  targets.forEach(target => {
+    target.candidates.forEach(selector => {
+      lintSelector(selector).forEach(finding => {
+        findings++;
+        console.log(`  ⚠️  ${target.name} [${finding.rule}] ${selector}`);
+        console.log(`      ${finding.message}${finding.suggestion ? `\n      suggestion: ${finding.suggestion}` : ''}`);
+      });
+    });
+  });
+  console.log(`  ${findings} finding(s) in ${targets.length} locator(s)`);
+  return findings;
+}
+
+function resolvePageSource() {
+  const htmlFile = option('--html');
+  if (htmlFile) {
+    return { html: fs.readFileSync(path.resolve(htmlFile), 'utf8'), label: htmlFile };
+  }
+  const profileName = option('--profile') || resolveProfileName();
+  const { profile } = loadProfile(profileName, projectRoot);
+  const url = new URL(option('--url') || '', profile.baseURL).toString();
+  return { url, label: `${url} (profile ${profileName})` };
+}
+
+async function runLive(targets) {
+  const { chromium } = require('@playwright/test');
+  const source = resolvePageSource();
+  console.log(`\n🌐 Live validation against ${source.label}`);
+
+  const browser = await chromium.launch({ headless: !args.includes('--headed') });
+  try {
+    const page = await browser.newPage();
+    if (source.html) {
+      await page.setContent(source.html, { waitUntil: 'domcontentloaded' });
+    } else {
+      await page.goto(source.url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+      await page.waitForLoadState('networkidle', { timeout: 15000 }).catch(() => undefined);
+    }
+
+    const matches = await countLocatorMatches(page, targets);
+    const icons = { none: '❌', unique: '✅', many: '⚠️ ', error: '💥' };
+    let failing = 0;
+    targets.forEach(target => {
+      console.log(`  ${target.name}${target.frame ? ` (frame ${target.frame})` : ''}`);
+      matches
+        .filter(match => match.target === target)
+        .forEach(match => {
+          if (match.status === 'none' || match.status === 'error') failing++;
+          const detail = match.status === 'error' ? `invalid: ${match.error}` : `${match.count} element(s)`;
+          console.log(`    ${icons[match.status]} ${detail}  ${match.selector}`);
+        });
+    });
+
+    const count = status => matches.filter(match => match.status === status).length;
+    console.log(`  ${count('unique')} unique, ${count('many')} ambiguous, ${count('none')} missing, ${count('error')} invalid`);
+    return failing;
+  } finally {
+    await browser.close();
+  }
+}
+
+async function main() {
+  const targets = loadTargets();
+  if (targets.length === 0) {
+    console.log('No named locators found (use defineLocators() or --include-plain)');
+    return;
+  }
+
+  const findings = runLint(targets);
+  const failing = live ? await runLive(targets) : 0;
+  if (failing > 0 || (strict && findings > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
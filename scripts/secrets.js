@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+/**
+ * Secrets Vault CLI
+ *
+ * Manages the encrypted vault that resolves `${secret:<name>}` placeholders in config.<profile>.yaml.
+ * The vault (.secrets.vault.json, or SECRETS_VAULT_FILE) is unlocked with SECRETS_MASTER_KEY.
+ *
+ * Usage:
+ *   node scripts/secrets.js list                   list secret names (no master key needed)
+ *   node scripts/secrets.js add <name> [value]     add a secret
+ *   node scripts/secrets.js rotate <name> [value]  replace the value of an existing secret
+ *   node scripts/secrets.js remove <name>          delete a secret
+ *   node scripts/secrets.js rotate-key             re-encrypt the vault with SECRETS_NEW_MASTER_KEY
+ *
+ * When no value is given it is read from stdin (piped) or prompted for without echo,
+ * which keeps it out of the shell history.
+ */
+
+const readline = require('readline');
+
+// The vault lives in TypeScript; compile it on the fly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+// Load .env so SECRETS_MASTER_KEY / SECRETS_VAULT_FILE can live there
+require('../framework/utils/EnvConfig');
+const { SecretsVault, MASTER_KEY_ENV } = require('../framework/utils/SecretsVault');
+
+const NEW_MASTER_KEY_ENV = 'SECRETS_NEW_MASTER_KEY';
+
+function usage() {
+  console.log('Usage: node scripts/secrets.js <list|add|rotate|remove|rotate-key> [name] [value]');
+}
+
+function readHidden(prompt) {
+  return new Promise(resolve => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    process.stdout.write(prompt);
+    // Suppress echo of the typed characters
+    rl._writeToOutput = () => {};
+    rl.question('', answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+function readStdin() {
+  return new Promise(resolve => {
+    let data = '';
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', chunk => { data += chunk; });
+    process.stdin.on('end', () => resolve(data.replace(/\r?\n$/, '')));
+  });
+}
+
+async function readValue(name, value) {
+  if (value !== undefined) return value;
+  if (process.stdin.isTTY) return readHidden(`Value for '${name}': `);
+  return readStdin();
+}
+
+function requireName(name) {
+  if (!name) {
+    usage();
+    process.exit(1);
+  }
+  return name;
+}
+
+async function main() {
+  const [command, name, value] = process.argv.slice(2);
+  const vault = SecretsVault.open();
+
+  switch (command) {
+    case 'list': {
+      const secrets = vault.list();
+      if (secrets.length === 0) {
+        console.log(`No secrets in ${vault.getFilePath()}`);
+        return;
+      }
+      console.log(`Secrets in ${vault.getFilePath()}:`);
+      secrets.forEach(secret => console.log(`  ${secret.name.padEnd(30)} updated ${secret.updatedAt}`));
+      return;
+    }
+    case 'add':
+    case 'rotate': {
+      const secretName = requireName(name);
+      if (command === 'add' && vault.has(secretName)) {
+        throw new Error(`Secret '${secretName}' already exists; use 'rotate' to change its value`);
+      }
+      if (command === 'rotate' && !vault.has(secretName)) {
+        throw new Error(`Secret '${secretName}' not found; use 'add' to create it`);
+      }
+      if (!vault.isUnlocked()) {
+        throw new Error(`Set ${MASTER_KEY_ENV} to unlock the vault`);
+      }
+      vault.set(secretName, await readValue(secretName, value));
+      vault.save();
+      console.log(`✅ Secret '${secretName}' ${command === 'add' ? 'added' : 'rotated'} (${vault.getFilePath()})`);
+      console.log(`   Reference it in a profile as \${secret:${secretName}}`);
+      return;
+    }
+    case 'remove': {
+      const secretName = requireName(name);
+      if (!vault.remove(secretName)) {
+        throw new Error(`Secret '${secretName}' not found`);
+      }
+      vault.save();
+      console.log(`🗑️  Secret '${secretName}' removed`);
+      return;
+    }
+    case 'rotate-key': {
+      const newMasterKey = process.env[NEW_MASTER_KEY_ENV];
+      if (!newMasterKey) {
+        throw new Error(`Set ${NEW_MASTER_KEY_ENV} to the new master key (and ${MASTER_KEY_ENV} to the current one)`);
+      }
+      vault.rotateMasterKey(newMasterKey);
+      vault.save();
+      console.log(`🔑 Vault re-encrypted with the new master key. Update ${MASTER_KEY_ENV} wherever tests run.`);
+      return;
+    }
+    default:
+      usage();
+      process.exit(command ? 1 : 0);
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
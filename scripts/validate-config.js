@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * Profile Configuration Validator
+ *
+ * Resolves every config.<profile>.yaml file in the project root (including `extends`
+ * inheritance and config.<profile>.local.yaml overrides), validates it against the
+ * ProfileConfig schema and prints all problems with file:line locations.
+ *
+ * Usage: node scripts/validate-config.js [--print] [profile...]
+ * With no profile names every config.*.yaml file is checked.
+ * --print  also prints the resolved (merged) profile as YAML
+ */
+
+const path = require('path');
+
+// The loader lives in TypeScript; compile it on the fly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+const {
+  formatResolvedProfile,
+  isAbstractProfile,
+  listProfileFiles,
+  loadProfile,
+  profileNameFromFile
+} = require('../framework/utils/ProfileConfig');
+const { redactor } = require('../framework/utils/Redactor');
+
+// Error messages may quote resolved values; keep secrets out of the console as the test run does
+redactor.installConsoleRedaction();
+
+const projectRoot = path.resolve(__dirname, '..');
+const args = process.argv.slice(2);
+const print = args.includes('--print');
+const requested = args.filter(arg => !arg.startsWith('--'));
+
+const names = requested.length > 0
+  ? requested
+  : listProfileFiles(projectRoot).map(profileNameFromFile);
+
+if (names.length === 0) {
+  console.error('No config.*.yaml files found in', projectRoot);
+  process.exit(1);
+}
+
+let valid = 0;
+let failed = 0;
+
+names.forEach(name => {
+  const fileName = `config.${name}.yaml`;
+  try {
+    if (requested.length === 0 && isAbstractProfile(name, projectRoot)) {
+      console.log(`⏭️  ${fileName} (abstract base, validated through the profiles that extend it)`);
+      return;
+    }
+    const loaded = loadProfile(name, projectRoot);
+    const inherited = loaded.layers.length > 1
+      ? ` (${loaded.layers.map(layer => path.basename(layer)).join(' -> ')})`
+      : '';
+    console.log(`✅ ${fileName}${inherited}`);
+    valid++;
+    if (print) {
+      console.log(formatResolvedProfile(loaded));
+    }
+  } catch (error) {
+    failed++;
+    console.error(`❌ ${error.message}`);
+  }
+});
+
+console.log(`\n${valid}/${valid + failed} profile(s) valid`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+/**
+ * Visual Baselines CLI
+ *
+ * Reviews the baselines of the visual regression checks (compareScreenshot / compareWithBaseline)
+ * kept under screenshots/. A check that failed or had no baseline in the last run stays pending
+ * until it is approved (its actual screenshot becomes the baseline) or rejected (discarded).
+ *
+ * Usage:
+ *   node scripts/visual-baselines.js list [--pending]             baselines and pending checks
+ *   node scripts/visual-baselines.js approve <pattern...> | --all  promote actual screenshots to baselines
+ *   node scripts/visual-baselines.js reject <pattern...> | --all   discard actual screenshots, keep baselines
+ *   node scripts/visual-baselines.js apply [decisions-file]       apply the decisions saved from the HTML report
+ *   node scripts/visual-baselines.js prune [--delete]             baselines of tests that no longer exist (--delete removes them)
+ *   node scripts/visual-baselines.js migrate <key>                move baselines from before keying under a key
+ *   node scripts/visual-baselines.js --update-baselines [args]    run the tests, overwriting differing baselines
+ *
+ * A pattern matches baseline ids (`<key>/<test>_<project>_<viewport>_<name>`) as a substring, or with
+ * `*` wildcards the whole id or the part after the key: `approve Login_page_*`, `approve chromium-linux-1x/*`.
+ * The key is the browser, platform, device scale factor and mobile device the baseline was rendered
+ * with (`webkit-darwin-3x-iphone12`).
+ * Extra arguments of --update-baselines go to `npx playwright test` (files, --project, --grep).
+ * prune only looks at the projects `playwright test --list` reports in the current environment
+ * (`chromium`, `firefox` with BROWSER=firefox, `development-chromium` with RUN=a,b); run it once
+ * per environment to cover the others. It only reports unless --delete is given.
+ * The review report (visual-report/index.html, written by VisualReporter) saves visual-decisions.json;
+ * `apply` reads it from the given path, visual-report/ or the current folder.
+ */
+
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// The baseline store lives in TypeScript; compile it on the fly
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+const { VISUAL_DECISIONS_FILE, VisualBaselines } = require('../framework/utils/VisualBaselines');
+const { listProfileFiles } = require('../framework/utils/ProfileConfig');
+
+function usage() {
+  console.log('Usage: node scripts/visual-baselines.js <list|approve|reject|apply|prune|migrate> [patterns|file|key] [--all|--pending|--delete]');
+  console.log('       node scripts/visual-baselines.js --update-baselines [playwright test arguments]');
+}
+
+function formatRatio(result) {
+  return `${(result.diffRatio * 100).toFixed(3)}%`;
+}
+
+function describePending(result) {
+  if (result.status === 'missing') return `missing baseline, actual ${result.actual}`;
+  const score = result.score !== undefined ? `, ${result.algorithm} score ${result.score.toFixed(4)}` : '';
+  return `${result.diffPixels} px (${formatRatio(result)}) differ${score}, diff ${result.diff || '-'}`;
+}
+
+/**
+ * Test titles and projects of the suite, from `playwright test --list`
+ */
+function listTests() {
+  const outputFile = path.join(os.tmpdir(), `visual-baselines-list-${process.pid}.json`);
+  const run = spawnSync('npx', ['playwright', 'test', '--list', '--reporter=json'], {
+    encoding: 'utf8',
+    shell: process.platform === 'win32',
+    env: { ...process.env, PLAYWRIGHT_JSON_OUTPUT_NAME: outputFile }
+  });
+  if (run.status !== 0 || !fs.existsSync(outputFile)) {
+    throw new Error(`Could not list the tests (playwright test --list exited with ${run.status}):\n${run.stderr || run.stdout}`);
+  }
+  const report = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+  fs.unlinkSync(outputFile);
+
+  const tests = [];
+  const collect = suite => {
+    (suite.specs || []).forEach(spec => {
+      (spec.tests || []).forEach(test => tests.push({ title: spec.title, project: test.projectName }));
+    });
+    (suite.suites || []).forEach(collect);
+  };
+  (report.suites || []).forEach(collect);
+  return tests;
+}
+
+/**
+ * Project names of the other environments: `<profile>-<project>` of multi-profile runs (RUN=a,b)
+ */
+function otherProjects(projects) {
+  const profiles = listProfileFiles().map(file => path.basename(file).replace(/^config\.(.+)\.yaml$/, '$1'));
+  return profiles.flatMap(profile => projects.map(project => `${profile}-${project}`)).filter(name => !projects.includes(name));
+}
+
+function selection(args) {
+  const patterns = args.filter(arg => !arg.startsWith('--'));
+  if (patterns.length === 0 && !args.includes('--all')) {
+    throw new Error('Give one or more baseline id patterns, or --all');
+  }
+  return args.includes('--all') ? [] : patterns;
+}
+
+function decisionsFile(file) {
+  const candidates = file ? [file] : [path.join('visual-report', VISUAL_DECISIONS_FILE), VISUAL_DECISIONS_FILE];
+  const found = candidates.find(candidate => fs.existsSync(candidate));
+  if (!found) {
+    throw new Error(`Decisions file not found (${candidates.join(', ')}); save it from visual-report/index.html`);
+  }
+  return found;
+}
+
+function updateBaselines(args) {
+  console.log('📸 Running the tests in update mode: differing and missing baselines are overwritten');
+  const run = spawnSync('npx', ['playwright', 'test', ...args], {
+    stdio: 'inherit',
+    shell: process.platform === 'win32',
+    env: { ...process.env, UPDATE_BASELINES: 'true' }
+  });
+  process.exit(run.status === null ? 1 : run.status);
+}
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const store = new VisualBaselines();
+
+  switch (command) {
+    case 'list': {
+      const pending = store.listPending();
+      if (!args.includes('--pending')) {
+        const baselines = store.listBaselines();
+        const keys = store.listKeys().map(key => key || '(unkeyed)');
+        console.log(baselines.length === 0 ? `No baselines in ${store.baselineDir}` : `Baselines in ${store.baselineDir} (keys: ${keys.join(', ')}):`);
+        baselines.forEach(baseline => {
+          const state = baseline.pending ? `⚠️  ${baseline.pending.status}` : '✅';
+          console.log(`  ${state} ${baseline.id.padEnd(70)} ${baseline.modified.toISOString()}`);
+        });
+        console.log('');
+      }
+      if (pending.length === 0) {
+        console.log('No visual checks waiting for review');
+        return;
+      }
+      console.log(`Waiting for review (${pending.length}):`);
+      pending.forEach(result => console.log(`  ${result.status.padEnd(7)} ${result.id}\n          ${describePending(result)}`));
+      console.log('\nApprove with `npm run visual-baselines -- approve <pattern>|--all`, or reject the same way.');
+      return;
+    }
+    case 'approve': {
+      const approved = store.approve(selection(args));
+      approved.forEach(result => console.log(`✅ Approved ${result.id} -> ${result.baseline}`));
+      console.log(`${approved.length} baseline(s) updated`);
+      return;
+    }
+    case 'reject': {
+      const rejected = store.reject(selection(args));
+      rejected.forEach(result => console.log(`🗑️  Rejected ${result.id}`));
+      console.log(`${rejected.length} pending check(s) discarded; baselines unchanged`);
+      return;
+    }
+    case 'apply': {
+      const file = decisionsFile(args[0]);
+      const { approved, rejected, skipped } = store.applyDecisions(JSON.parse(fs.readFileSync(file, 'utf8')));
+      approved.forEach(result => console.log(`✅ Approved ${result.id} -> ${result.baseline}`));
+      rejected.forEach(result => console.log(`🗑️  Rejected ${result.id}`));
+      skipped.forEach(id => console.log(`   Skipped ${id} (no longer waiting for review)`));
+      console.log(`${approved.length} approved, ${rejected.length} rejected, ${skipped.length} skipped (${file})`);
+      return;
+    }
+    case 'prune': {
+      // Deleting is opt-in; --dry-run is the default and still accepted
+      const dryRun = !args.includes('--delete');
+      const tests = listTests();
+      const projects = Array.from(new Set(tests.map(test => test.project || 'default')));
+      const others = otherProjects(projects);
+      const orphans = dryRun ? store.findOrphans(tests, others) : store.prune(tests, others);
+      console.log(`Checked the baselines of project(s) ${projects.join(', ') || '(none)'}; other projects are left alone`);
+      if (orphans.length === 0) {
+        console.log(`No orphaned baselines (${tests.length} tests listed)`);
+        return;
+      }
+      orphans.forEach(orphan => console.log(`${dryRun ? '  would delete' : '🗑️  deleted'} ${orphan.file}`));
+      console.log(`${orphans.length} orphaned baseline(s)${dryRun ? ' found; run with --delete to delete them' : ' deleted'}`);
+      return;
+    }
+    case 'migrate': {
+      if (!args[0]) throw new Error('Give the key the unkeyed baselines were rendered with, e.g. chromium-linux-1x');
+      const { moved, skipped } = store.migrate(args[0]);
+      moved.forEach(id => console.log(`📦 Moved ${id}`));
+      skipped.forEach(id => console.log(`   Kept ${id} (${args[0]} already has this baseline)`));
+      console.log(`${moved.length} baseline(s) moved under ${args[0]}, ${skipped.length} kept`);
+      return;
+    }
+    case '--update-baselines':
+      updateBaselines(args);
+      return;
+    default:
+      usage();
+      process.exit(command ? 1 : 0);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
@@ -1,4 +1,6 @@
-export const DemoPageLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const DemoPageLocators = defineLocators('DemoPage', {
   loginContainer: [
     '.orangehrm-login-slot-wrapper',
     '.orangehrm-login-form',
@@ -57,4 +59,4 @@ export const DemoPageLocators = {
     'a[href$="/auth/logout"]',
     '//a[normalize-space()="Logout"]'
   ]
-};
+});
@@ -1,4 +1,6 @@
-export const LoginPageLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const LoginPageLocators = defineLocators('LoginPage', {
   mobileNumberField: [
     "//input[@formcontrolname='email']",
     '#exampleFormControlInput1',
@@ -72,12 +74,21 @@ export const LoginPageLocators = {
   agreeButton: "//button[normalize-space()='I Agree']",
   
   
-  // Iframe selector for upload functionality
-  uploadIframe: "iframe#myIframe", // Iframe with id="myIframe"
-  uploadOwnerId: "//button[normalize-space()='Upload']",
-  continueButtonInIframe: "//button[normalize-space()='Continue']", // Continue button inside iframe
-  // Alternative selector: "button.proofPreview-continue-button"
-  uploadOwnerImage: "//button[normalize-space()='Upload']",
+  // Upload functionality inside the iframe with id="myIframe"
+  uploadOwnerId: {
+    candidates: "//button[normalize-space()='Upload']",
+    frame: 'iframe#myIframe',
+    description: 'Upload button for the owner ID document'
+  },
+  continueButtonInIframe: {
+    candidates: ["//button[normalize-space()='Continue']", 'button.proofPreview-continue-button'],
+    frame: 'iframe#myIframe'
+  },
+  uploadOwnerImage: {
+    candidates: "//button[normalize-space()='Upload']",
+    frame: 'iframe#myIframe',
+    description: 'Upload button for the owner photo'
+  },
 
 
   proceedToEsignatureButton: "//button[normalize-space()='Proceed to E-signature']",
@@ -90,4 +101,4 @@ export const LoginPageLocators = {
 
   onboardingCompleted: "//h4[normalize-space()='Your Onboarding is now Completed']",
 
-};
\ No newline at end of file
+});
@@ -1,4 +1,6 @@
-export const ProductPageLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const ProductPageLocators = defineLocators('ProductPage', {
     // Login Elements
     // Using internal:role for inputs as they are precise
     mobileNumberField: 'internal:role=textbox[name="Mobile Number"]',
@@ -33,4 +35,4 @@ export const ProductPageLocators = {
     
     // Dialog/Modal
     cancelButton: 'button:has-text("Cancel")'
-};
+});
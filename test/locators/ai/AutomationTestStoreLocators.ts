@@ -1,4 +1,6 @@
-export const AutomationTestStoreLocators = {
+import { defineLocators } from '../../../framework/utils/LocatorRegistry';
+
+export const AutomationTestStoreLocators = defineLocators('AutomationTestStorePage', {
   loginNameInput: '#loginFrm_loginname',
   passwordInput: '#loginFrm_password',
   loginButton: "//button[normalize-space()='Login']",
@@ -15,4 +17,4 @@ export const AutomationTestStoreLocators = {
   cartLink: 'a[href*="checkout/cart"]',
   cartContainer: '#cart',
   delete: "//a[@class='btn btn-sm btn-default']"
-};
+});
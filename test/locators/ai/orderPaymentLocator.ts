@@ -1,4 +1,6 @@
-export const orderPaymentLocators = {
+import { defineLocators } from '../../../framework/utils/LocatorRegistry';
+
+export const orderPaymentLocators = defineLocators('OrderPaymentPage', {
   openUserManu: "//button[@aria-label='Open user menu']",
   myOrderButton: "//span[normalize-space()='My Orders']",
   paymentPending: "(//span[text()='Payment Pending']//..//..//..//..//a[contains(text(),'AUG-')])[1]",
@@ -24,4 +26,4 @@ export const orderPaymentLocators = {
 
 
 
-};
\ No newline at end of file
+});
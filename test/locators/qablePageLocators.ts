@@ -1,5 +1,7 @@
-export const BlogPageLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const BlogPageLocators = defineLocators('BlogPage', {
   searchBox: "//input[@id='search-input']",
   blogPublishedDate: "//span[@id='current-month-year']",
   blogTitle: "//h2[contains(text(),'AI Testing Adoption: Why 75% of Organizations Talk')]"
-};
\ No newline at end of file
+});
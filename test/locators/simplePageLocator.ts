@@ -1,6 +1,7 @@
-export const SimplePageLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const SimplePageLocators = defineLocators('SimplePage', {
   clickSearchCombobox: 'textarea[name="q"]',
   searchCombobox: 'textarea[name="q"]',
   failSearchCombobox: 'textarea[name="q1"]'
-};
-
+});
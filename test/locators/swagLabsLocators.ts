@@ -1,4 +1,6 @@
-export const SwagLabsLocators = {
+import { defineLocators } from '../../framework/utils/LocatorRegistry';
+
+export const SwagLabsLocators = defineLocators('SwagLabsPage', {
   usernameInput: '[data-test="username"]',
   passwordInput: '[data-test="password"]',
   loginButton: '[data-test="login-button"]',
@@ -25,4 +27,4 @@ export const SwagLabsLocators = {
   finish: '[data-test="finish"]',
   completeHeader: '[data-test="complete-header"]',
   completeContainer: '[data-test="checkout-complete-container"]'
-};
+});
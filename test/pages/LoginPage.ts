@@ -3,6 +3,8 @@ import { BasePage } from '../../framework/core/BasePage';
 import { LoginPageLocators } from '../locators/LoginPageLocators';
 import { testData } from '../../framework/utils/DataHelper';
 import { faker } from '@faker-js/faker';
+import { getProfile } from '../../framework/utils/ProfileContext';
+import { step } from '../../framework/utils/Step';
 
 export interface LoginCredentials {
   mobileNumber: string;
@@ -13,7 +15,7 @@ export interface LoginCredentials {
 export class LoginPage extends BasePage {
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
     // Use the URL from config or fallback to the provided URL
-    const defaultUrl = process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     console.log(`🔍 LoginPage constructor - url param: ${url}, defaultUrl: ${defaultUrl}`);
     super(page, url || defaultUrl, testInfo);
     console.log(`🔍 LoginPage constructor - final URL: ${this.url}`);
@@ -42,6 +44,7 @@ export class LoginPage extends BasePage {
   /**
    * Navigate to login page
    */
+  @step
   async navigateToLogin(): Promise<void> {
     try {
       this.logger.info(`Navigating to: ${this.url}`);
@@ -60,6 +63,7 @@ export class LoginPage extends BasePage {
   //   await this.fill(LoginPageLocators.mobileNumberField, mobileNumber);
   //   this.logger.info(`Mobile number entered: ${mobileNumber}`);
   // }
+  @step
   async enterMobileNumber(mobileNumber: string): Promise<void> {
     await this.fill(LoginPageLocators.mobileNumberField, testData.validUsers[0].mobileNumber);
     this.logger.info(`Mobile number entered: ${testData.validUsers[0].mobileNumber}`);
@@ -67,6 +71,7 @@ export class LoginPage extends BasePage {
   /**
    * Enter password
    */
+  @step
   async enterPassword(password: string): Promise<void> {
     await this.fill(LoginPageLocators.passwordField, password);
     this.logger.info('Password entered');
@@ -75,6 +80,7 @@ export class LoginPage extends BasePage {
   /**
    * Click login button
    */
+  @step
   async clickLoginButton(): Promise<void> {
     await this.click(LoginPageLocators.loginButton);
     this.logger.info('Login button clicked');
@@ -83,6 +89,7 @@ export class LoginPage extends BasePage {
   /**
    * Perform complete login with credentials
    */
+  @step
   async login(credentials: LoginCredentials): Promise<void> {
     this.logger.info(`Attempting login for mobile: ${credentials.mobileNumber}`);
     
@@ -112,6 +119,7 @@ export class LoginPage extends BasePage {
   /**
    * Perform complete login with valid credentials from users.json
    */
+  @step
   async loginWithValidCredentials(): Promise<void> {
     const credentials = this.getValidUserCredentials();
     await this.login(credentials);
@@ -120,6 +128,7 @@ export class LoginPage extends BasePage {
   /**
    * Verify login page elements are present
    */
+  @step
   async verifyLoginPageElements(): Promise<void> {
     this.logger.info('Verifying login page elements');
 
@@ -132,6 +141,7 @@ export class LoginPage extends BasePage {
     this.logger.info('All login page elements verified');
     
   }
+  @step
   async verifyEnterOTPPage(): Promise<void> {
     this.logger.info('Verifying OTP page elements');
     
@@ -169,6 +179,7 @@ export class LoginPage extends BasePage {
       throw error;
     }
   }
+  @step
   async enterOTP(otp: string): Promise<void> {
     this.logger.info('Enter OTP');
     const otpValue = otp;
@@ -204,11 +215,13 @@ export class LoginPage extends BasePage {
       throw error;
     }
   }
+  @step
   async clickOnRegisterButton(): Promise<void> {
     await this.click(LoginPageLocators.loginButton);
     this.logger.info('Login button clicked');
   }
 
+  @step
   async registerUser(): Promise<void> {
     const mobileNumber = faker.string.numeric(8);
     const emailCount = faker.string.numeric(3);
@@ -224,12 +237,14 @@ export class LoginPage extends BasePage {
     this.logger.info('Register button clicked');
     await this.waitForTimeout(10000);
   }
+  @step
   async selectIntrest(): Promise<void> {
     await this.click(LoginPageLocators.sadadInvoice);
     await this.click(LoginPageLocators.createAccountButton);
     this.logger.info('Intrest selected');
   }
 
+  @step
   async verifyDashboard(): Promise<void> {
     await this.waitForVisible(LoginPageLocators.dashboardTitle,20000);
     await this.getTextAndCompare(LoginPageLocators.dashboardTitle, 'Welcome to SADAD!');
@@ -237,6 +252,7 @@ export class LoginPage extends BasePage {
     this.logger.info('Sign up successfully completed');
   }
 
+  @step
   async updateBusinessDetails(): Promise<void> {
     await this.click(LoginPageLocators.completeNowButton);
     await this.waitForVisible(LoginPageLocators.businessLegalName,20000);
@@ -257,15 +273,18 @@ export class LoginPage extends BasePage {
     await this.waitForTimeout(5000);
     await this.fill(LoginPageLocators.businessLegalName, 'Test Business');
   }
+  @step
   async clickOnSaveAndNextButton(): Promise<void> {
     await this.click(LoginPageLocators.saveAndNextButton);
     this.logger.info('Save and next button clicked');
   }
+  @step
   async businessDetailsInReview(): Promise<void> {
     await this.getTextAndCompare(LoginPageLocators.businessDetailsInReview, ' Review ');
     this.logger.info('Save and next button clicked');
   }
 
+  @step
   async commericalLicenceUpload(): Promise<void> {
     try {
       // Upload CL Document - uploadFileViaButton will click the button and handle file dialog
@@ -297,6 +316,7 @@ export class LoginPage extends BasePage {
       throw new Error(`Commercial licence upload failed: ${errorMessage}`);
     }
   }
+  @step
   async ownerPartnersIdUpload(): Promise<void> {
     try {
       // Upload CL Document - uploadFileViaButton will click the button and handle file dialog
@@ -328,10 +348,12 @@ export class LoginPage extends BasePage {
       throw new Error(`Owner ID upload failed: ${errorMessage}`);
     }
   }
+  @step
   async enterBankAccountName(): Promise<void> {
     await this.fill(LoginPageLocators.bankAccountName, 'KHALED PMAR HAZZAM');
     this.logger.info('Bank account name entered');
   }
+  @step
   async enterIBANNumber(): Promise<void> {
     const accountNumber = faker.string.numeric(10);
     await this.fill(LoginPageLocators.enterIBANNumber, `QA58DOHB1234ABCD567${accountNumber}`);
@@ -339,15 +361,18 @@ export class LoginPage extends BasePage {
   }
 
 
+  @step
   async uploadBankAccountDocument(): Promise<void> {
     await this.uploadFileViaButton(LoginPageLocators.bankAccountDocument, 
       'E:/Project/web_pw_framework/Bank_account.png');
   }
+  @step
   async clickOnConfirmButton(): Promise<void> {
     await this.click(LoginPageLocators.confirmButton);
     this.logger.info('Confirm button clicked');
   }
 
+  @step
   async addSignatory(): Promise<void> {
     await this.click(LoginPageLocators.addSignatoryButton);
     await this.fill(LoginPageLocators.addSignatoryName, 'QA Automation');
@@ -362,20 +387,21 @@ export class LoginPage extends BasePage {
     await this.waitForTimeout(5000);  
   }
 
+  @step
   async clickOnStartButton(): Promise<void> {
     await this.waitForVisible(LoginPageLocators.startButton, 10000);
     await this.click(LoginPageLocators.startButton);
     this.logger.info('Start button clicked');
   }
 
+  @step
   async uploadOwnerId(): Promise<void> {
     try {
       this.logger.info('Starting owner ID upload inside iframe');
       await this.waitForTimeout(30000);
-      // Upload file via button click inside iframe
-      await this.uploadFileViaButtonInFrame(
-        LoginPageLocators.uploadIframe,  // iframe#myIframe
-        LoginPageLocators.uploadOwnerId,  // //button[normalize-space()='Upload']
+      // Upload file via button click inside iframe (the locator carries the iframe)
+      await this.uploadFileViaButton(
+        LoginPageLocators.uploadOwnerId,
         'E:/Project/web_pw_framework/Mr_Abdulla_Id.jpg',
         15000 // timeout for file chooser
       );
@@ -393,16 +419,13 @@ export class LoginPage extends BasePage {
   /**
    * Click Continue button inside iframe
    */
+  @step
   async clickContinueButtonInIframe(): Promise<void> {
     try {
       this.logger.info('Clicking Continue button inside iframe');
       await this.waitForTimeout(60000);
-      // Click the Continue button inside the iframe
-      await this.clickInFrame(
-        LoginPageLocators.uploadIframe,  // iframe#myIframe
-        LoginPageLocators.continueButtonInIframe,  // //button[normalize-space()='Continue']
-        10000 // timeout
-      );
+      // Click the Continue button inside the iframe (the locator carries the iframe)
+      await this.click(LoginPageLocators.continueButtonInIframe, 10000);
       
       this.logger.info('Continue button clicked successfully in iframe');
       await this.takeScreenshot('continue-button-clicked-in-iframe');
@@ -413,14 +436,14 @@ export class LoginPage extends BasePage {
       throw new Error(`Failed to click Continue button in iframe: ${errorMessage}`);
     }
   }
+  @step
   async uploadOwnerImage(): Promise<void> {
     try {
       this.logger.info('Starting owner image upload inside iframe');
       await this.waitForTimeout(20000);
-      // Upload file via button click inside iframe
-      await this.uploadFileViaButtonInFrame(
-        LoginPageLocators.uploadIframe,  // iframe#myIframe
-        LoginPageLocators.uploadOwnerImage,  // //button[normalize-space()='Upload']
+      // Upload file via button click inside iframe (the locator carries the iframe)
+      await this.uploadFileViaButton(
+        LoginPageLocators.uploadOwnerImage,
         'E:/Project/web_pw_framework/Mr_Abdulla_Image.jpg',
         15000 // timeout for file chooser
       );
@@ -434,6 +457,7 @@ export class LoginPage extends BasePage {
       throw new Error(`Failed to upload owner image in iframe: ${errorMessage}`);
     }
   }
+  @step
   async clickOnESignatureButton(): Promise<void> {
     await this.waitForTimeout(20000); // 2 minutes
     await this.waitForVisible(LoginPageLocators.verifySubmission, 60000);
@@ -441,6 +465,7 @@ export class LoginPage extends BasePage {
     await this.click(LoginPageLocators.proceedToEsignatureButton);
     this.logger.info('Proceed to Esignature button clicked');
   }
+  @step
   async uploadSignDocument(): Promise<void> {
     await this.waitForTimeout(20000);
     await this.uploadFileViaButton(LoginPageLocators.uploadSignDocumentButton, 
@@ -453,6 +478,7 @@ export class LoginPage extends BasePage {
     this.logger.info('Done button clicked');
   }
 
+  @step
   async verifyOnboardingCompleted(): Promise<void> {
     await this.waitForVisible(LoginPageLocators.onboardingCompleted, 60000);
     await this.getTextAndCompare(LoginPageLocators.onboardingCompleted, 'Your Onboarding is now Completed');
@@ -1,18 +1,22 @@
 import { Page, TestInfo } from '@playwright/test';
 import { BasePage } from '../../framework/core/BasePage';
 import { SwagLabsLocators as locators } from '../locators/swagLabsLocators';
+import { getProfile } from '../../framework/utils/ProfileContext';
+import { step } from '../../framework/utils/Step';
 
 export class SwagLabsPage extends BasePage {
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
-    const defaultUrl = (global as any).selectedProfile?.baseURL || process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     super(page, url || defaultUrl, testInfo);
   }
 
+  @step
   async open(): Promise<void> {
     await this.navigate();
     await this.waitForPageLoad();
   }
 
+  @step
   async login(username: string, password: string): Promise<void> {
     //await this.click(locators.usernameInput);
     await this.fill(locators.usernameInput, username);
@@ -23,25 +27,30 @@ export class SwagLabsPage extends BasePage {
     await this.click(locators.loginButton);
   }
 
+  @step
   async waitForInventoryVisible(): Promise<void> {
     await this.waitForVisible(this.locator(locators.inventoryItemDescription).first());
   }
 
+  @step
   async getHeaderText(): Promise<string> {
     return await this.getText(locators.primaryHeader);
   }
 
+  @step
   async getInventoryListText(): Promise<string> {
     const text = await this.getText(locators.inventoryList);
     await this.takeScreenshot('inventoryList');
     return text;
   }
 
+  @step
   async getErrorMessage(): Promise<string> {
     await this.expectVisible('[data-test="error"]');
     return this.getText('[data-test="error"]');
   }
 
+  @step
   async verifyErrorMessage(expectedMessage: string): Promise<void> {
     const errorText = await this.getErrorMessage();
     if (!errorText.includes(expectedMessage)) {
@@ -49,10 +58,12 @@ export class SwagLabsPage extends BasePage {
     }
   }
 
+  @step
   async verifyInventoryPageLoaded(): Promise<void> {
     await this.expectVisible(locators.inventoryList);
   }
 
+  @step
   async verifyLoginPageDisplayed(): Promise<void> {
     await this.expectVisible(locators.usernameInput);
     await this.expectVisible(locators.passwordInput);
@@ -60,69 +71,85 @@ export class SwagLabsPage extends BasePage {
   }
 
   // Cart and product actions
+  @step
   async addBackpackToCart(): Promise<void> {
     await this.click(locators.addToCartBackpack);
   }
 
+  @step
   async addBikeLightToCart(): Promise<void> {
     await this.click(locators.addToCartBikeLight);
   }
 
+  @step
   async getRemoveBackpackText(): Promise<string> {
     return await this.getText(locators.removeBackpack);
   }
 
+  @step
   async openCart(): Promise<void> {
     await this.click(locators.shoppingCartLink);
   }
 
+  @step
   async getCartListText(): Promise<string> {
     return await this.getText(locators.cartList);
   }
 
+  @step
   async expectCartActionsVisible(): Promise<void> {
     await this.expectVisible(locators.continueShopping);
     await this.expectVisible(locators.checkout);
   }
 
+  @step
   async goToCheckout(): Promise<void> {
     await this.click(locators.checkout);
   }
 
+  @step
   async getCheckoutTitle(): Promise<string> {
     return await this.getText(locators.title);
   }
 
+  @step
   async fillCheckoutInformation(firstName: string, lastName: string, postalCode: string): Promise<void> {
     await this.fill(locators.firstName, firstName);
     await this.fill(locators.lastName, lastName);
     await this.fill(locators.postalCode, postalCode);
   }
 
+  @step
   async continueCheckout(): Promise<void> {
     await this.click(locators.continue);
   }
 
+  @step
   async getTotalLabel(): Promise<string> {
     return await this.getText(locators.totalLabel);
   }
 
+  @step
   async getSubtotalLabel(): Promise<string> {
     return await this.getText(locators.subtotalLabel);
   }
 
+  @step
   async getTaxLabel(): Promise<string> {
     return await this.getText(locators.taxLabel);
   }
 
+  @step
   async expectFinishVisible(): Promise<void> {
     await this.expectVisible(locators.finish);
   }
 
+  @step
   async finishCheckout(): Promise<void> {
     await this.click(locators.finish);
   }
 
+  @step
   async getCompleteHeader(): Promise<string> {
     return await this.getText(locators.completeHeader);
   }
@@ -130,6 +157,7 @@ export class SwagLabsPage extends BasePage {
   completeContainer() {
     return this.locator(locators.completeContainer);
   }
+  @step
   async loginWithInvalidCredentials(username: string, password: string): Promise<void> {
     await this.click(locators.usernameInput);
     await this.fill(locators.usernameInput, username);
@@ -138,18 +166,21 @@ export class SwagLabsPage extends BasePage {
     await this.click(locators.loginButton);
   }
 
+  @step
   async loginWithEmptyUsername(password: string): Promise<void> {
     await this.click(locators.passwordInput);
     await this.fill(locators.passwordInput, password);
     await this.click(locators.loginButton);
   }
 
+  @step
   async loginWithEmptyPassword(username: string): Promise<void> {
     await this.click(locators.usernameInput);
     await this.fill(locators.usernameInput, username);
     await this.click(locators.loginButton);
   }
 
+  @step
   async loginWithBothEmpty(): Promise<void> {
     await this.click(locators.loginButton);
   }
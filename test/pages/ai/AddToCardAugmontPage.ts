@@ -2,10 +2,11 @@ import { Page, TestInfo } from '@playwright/test';
 import { BasePage } from '../../../framework/core/BasePage';
 import { AddToCardAugmontLocators as locators } from '../../locators/ai/AddToCardAugmontLocators';
 import augmontData from '../../data/augmontData.json';
+import { getProfile } from '../../../framework/utils/ProfileContext';
 
 export class AddToCardAugmontPage extends BasePage {
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
-    const defaultUrl = (global as any).selectedProfile?.baseURL || process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     super(page, url || defaultUrl, testInfo);
   }
 
@@ -1,10 +1,11 @@
 import { Page, TestInfo } from '@playwright/test';
 import { BasePage } from '../../../framework/core/BasePage';
 import { LoginAgmontLocators as locators } from '../../locators/ai/LoginAgmontLocators';
+import { getProfile } from '../../../framework/utils/ProfileContext';
 
 export class LoginAgmontPage extends BasePage {
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
-    const defaultUrl = (global as any).selectedProfile?.baseURL || process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     super(page, url || defaultUrl, testInfo);
   }
 
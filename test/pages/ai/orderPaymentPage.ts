@@ -2,13 +2,14 @@ import { Page, TestInfo } from '@playwright/test';
 import { BasePage } from '../../../framework/core/BasePage';
 import { orderPaymentLocators as locators } from '../../locators/ai/orderPaymentLocator';
 import augmontData from '../../data/augmontData.json';
+import { getProfile } from '../../../framework/utils/ProfileContext';
 
 export class orderPaymentPage extends BasePage {
    orderPrice?: string;
    inrPrice?: string;
 
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
-    const defaultUrl = (global as any).selectedProfile?.baseURL || process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     super(page, url || defaultUrl, testInfo);
   }
 
@@ -1,6 +1,7 @@
 import { Page, TestInfo, expect } from '@playwright/test';
 import { BasePage } from '../../framework/core/BasePage';
 import { BlogPageLocators } from '../locators/qablePageLocators';
+import { getProfile } from '../../framework/utils/ProfileContext';
 
 
 export class BlogPage extends BasePage {
@@ -8,7 +9,7 @@ export class BlogPage extends BasePage {
 
   constructor(page: Page, url?: string, testInfo?: TestInfo) {
     // Use the URL from config or fallback to the provided URL
-    const defaultUrl = process.env.BASE_URL;
+    const defaultUrl = getProfile().baseURL;
     console.log(`🔍 LoginPage constructor - url param: ${url}, defaultUrl: ${defaultUrl}`);
     super(page, url || defaultUrl, testInfo);
     console.log(`🔍 LoginPage constructor - final URL: ${this.url}`);
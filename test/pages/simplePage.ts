@@ -1,11 +1,12 @@
 import { Page, TestInfo } from '@playwright/test';
 import { SimplePageLocators } from '../locators/simplePageLocator';
 import { BasePage } from '../../framework/core/BasePage';
+import { getProfile } from '../../framework/utils/ProfileContext';
 
 export class SimplePage extends BasePage {
     constructor(page: Page, url?: string, testInfo?: TestInfo) {
       // Use the URL from config or fallback to the provided URL
-      const defaultUrl = (global as any).selectedProfile?.baseURL || process.env.BASE_URL;
+      const defaultUrl = getProfile().baseURL;
       console.log(`🔍 SimplePage constructor - url param: ${url}, defaultUrl: ${defaultUrl}`);
       super(page, url || defaultUrl, testInfo);
       console.log(`🔍 SimplePage constructor - final URL: ${this.url}`);
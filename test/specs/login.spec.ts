@@ -1,14 +1,10 @@
 import { test, expect } from '../../framework/core/BaseTest';
 import { LoginPage } from '../pages/LoginPage';
 
-// Real application URL from profile config
-const LOGIN_URL = (global as any).selectedProfile?.baseURL;
-console.log(`🔍 LOGIN_URL from selectedProfile.baseURL: ${LOGIN_URL}`);
-
 test.describe('Login Page Tests', () => {
   let loginPage: LoginPage;
 
-  test.beforeEach(async ({ page }, testInfo) => {
+  test.beforeEach(async ({ page, profile }, testInfo) => {
     // Add extra stability for CI environments
     if (process.env.CI) {
       try {
@@ -18,11 +14,12 @@ test.describe('Login Page Tests', () => {
       }
     }
     
-    loginPage = new LoginPage(page, LOGIN_URL, testInfo);
+    // Real application URL from profile config
+    loginPage = new LoginPage(page, profile.baseURL, testInfo);
     
     // Get retry count from config
     let retryCount = 0;
-    const maxRetries = (global as any).selectedProfile?.retries || 0;
+    const maxRetries = profile.retries || 0;
     
     console.log(`🔍 Starting navigation with maxRetries: ${maxRetries}`);
     
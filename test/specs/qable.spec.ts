@@ -1,14 +1,10 @@
 import { test } from '../../framework/core/BaseTest';
 import { BlogPage } from '../pages/qablePage';
 
-// Real application URL from profile config
-const LOGIN_URL = (global as any).selectedProfile?.baseURL;
-console.log('🔍 LOGIN_URL from selectedProfile.baseURL: ' + LOGIN_URL);
-
 test.describe('Blog Page Tests', () => {
   let blogPage: BlogPage;
 
-  test.beforeEach(async ({ page }, testInfo) => {
+  test.beforeEach(async ({ page, profile }, testInfo) => {
     // Add extra stability for CI environments
     if (process.env.CI) {
       try {
@@ -18,11 +14,12 @@ test.describe('Blog Page Tests', () => {
       }
     }
     
-    blogPage = new BlogPage(page, LOGIN_URL, testInfo);
+    // Real application URL from profile config
+    blogPage = new BlogPage(page, profile.baseURL, testInfo);
     
     // Get retry count from config
     let retryCount = 0;
-    const maxRetries = (global as any).selectedProfile?.retries || 0;
+    const maxRetries = profile.retries || 0;
     
     console.log('🔍 Starting navigation with maxRetries: ' + maxRetries);
     
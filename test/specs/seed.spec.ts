@@ -1,9 +1,6 @@
 import { test } from '../../framework/core/BaseTest';
 
-test('seed', async ({ page }) => {
-  const url =
-    process.env.BASE_URL ||
-    ((global as any).selectedProfile && (global as any).selectedProfile.baseURL) ||
-    'https://www.saucedemo.com/';
+test('seed', async ({ page, profile }) => {
+  const url = profile.baseURL || 'https://www.saucedemo.com/';
   await page.goto(url, { waitUntil: 'domcontentloaded' });
 })
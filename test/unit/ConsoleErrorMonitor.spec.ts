@@ -0,0 +1,80 @@
+import { test, expect, BrowserContext } from '@playwright/test';
+import { EventEmitter } from 'events';
+import { ConsoleErrorMonitor, resolveConsoleErrorsConfig } from '../../framework/utils/ConsoleErrorMonitor';
+
+/** Pages and a context that emit console events on demand */
+class FakePage extends EventEmitter {
+  url(): string {
+    return 'https://shop.test/cart';
+  }
+
+  log(type: string, text: string): void {
+    this.emit('console', { type: () => type, text: () => text, location: () => ({ url: 'https://shop.test/app.js', lineNumber: 12 }) });
+  }
+}
+
+class FakeContext extends EventEmitter {
+  constructor(private readonly openPages: FakePage[]) {
+    super();
+  }
+
+  pages(): FakePage[] {
+    return this.openPages;
+  }
+}
+
+function monitorPages(allow: string[] = []): { monitor: ConsoleErrorMonitor; page: FakePage; context: FakeContext } {
+  const page = new FakePage();
+  const context = new FakeContext([page]);
+  const monitor = new ConsoleErrorMonitor({ mode: 'fail', allow });
+  monitor.attach(context as unknown as BrowserContext);
+  return { monitor, page, context };
+}
+
+test.describe('resolveConsoleErrorsConfig', () => {
+  test('accepts a bare mode or a mode with an allow-list', () => {
+    expect(resolveConsoleErrorsConfig(undefined)).toEqual({ mode: 'off', allow: [] });
+    expect(resolveConsoleErrorsConfig('warn')).toEqual({ mode: 'warn', allow: [] });
+    expect(resolveConsoleErrorsConfig({ mode: 'fail', allow: ['favicon'] })).toEqual({ mode: 'fail', allow: ['favicon'] });
+  });
+});
+
+test.describe('ConsoleErrorMonitor', () => {
+  test('reports errors and page exceptions that match no allow-list pattern', () => {
+    const { monitor, page } = monitorPages(['favicon\\.ico']);
+    page.log('log', 'cart loaded');
+    page.log('error', 'GET https://shop.test/favicon.ico 404');
+    page.log('error', 'TypeError: items is undefined');
+    page.emit('pageerror', new RangeError('Invalid array length'));
+
+    expect(monitor.getEntries()).toHaveLength(4);
+    expect(monitor.getUnexpectedErrors().map(entry => entry.type)).toEqual(['error', 'pageerror']);
+    expect(monitor.formatUnexpectedErrors()).toContain('2 unexpected browser console error(s) (consoleErrors: fail):');
+  });
+
+  test('listens to pages opened later', () => {
+    const { monitor, context } = monitorPages();
+    const popup = new FakePage();
+    context.emit('page', popup);
+    popup.log('error', 'popup failed');
+
+    expect(monitor.getUnexpectedErrors().map(entry => entry.text)).toEqual(['popup failed']);
+  });
+
+  test('matches the allow-list against the text as logged', () => {
+    const { monitor, page } = monitorPages(['session\\?token=\\w+ expired']);
+    page.log('error', 'GET https://shop.test/api/session?token=abc123xyz expired');
+
+    expect(monitor.getUnexpectedErrors()).toEqual([]);
+  });
+
+  test('redacts the entries, the log and the failure message', () => {
+    const { monitor, page } = monitorPages();
+    page.log('error', 'GET https://shop.test/api/session?token=abc123xyz 401');
+
+    expect(monitor.getEntries()[0].text).toBe('GET https://shop.test/api/session?token=[REDACTED] 401');
+    expect(monitor.formatLog()).not.toContain('abc123xyz');
+    expect(monitor.formatUnexpectedErrors()).not.toContain('abc123xyz');
+    expect(monitor.formatLog()).toContain('ERROR GET https://shop.test/api/session?token=[REDACTED] 401 (https://shop.test/app.js:12)');
+  });
+});
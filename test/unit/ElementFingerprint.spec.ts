@@ -0,0 +1,106 @@
+import { test, expect, Locator, Page } from '@playwright/test';
+import { ElementFingerprint, captureFingerprint, findByFingerprint, scoreFingerprint } from '../../framework/utils/ElementFingerprint';
+
+const loginButton: ElementFingerprint = {
+  tag: 'button',
+  id: 'login-button',
+  classes: ['btn', 'btn-primary'],
+  attributes: { type: 'submit', 'data-test': 'login-button' },
+  text: 'Login',
+  labels: [],
+  path: ['html:nth-of-type(1)', 'body:nth-of-type(1)', 'form:nth-of-type(1)', 'button:nth-of-type(1)']
+};
+
+/** The same button after a redesign: new id and classes, same test id, text and place */
+const redesignedButton: ElementFingerprint = {
+  ...loginButton,
+  id: 'submit',
+  classes: ['btn', 'primary-action']
+};
+
+const cancelLink: ElementFingerprint = {
+  tag: 'a',
+  classes: ['link'],
+  attributes: { href: '/cancel' },
+  text: 'Cancel',
+  labels: [],
+  path: ['html:nth-of-type(1)', 'body:nth-of-type(1)', 'a:nth-of-type(1)']
+};
+
+/** A page whose scan returns the given elements (or fails) */
+function pageWith(elements: ElementFingerprint[] | Error): Page {
+  const evaluate = () => (elements instanceof Error ? Promise.reject(elements) : Promise.resolve(elements));
+  return { locator: () => ({ evaluate }) } as unknown as Page;
+}
+
+test.describe('scoreFingerprint', () => {
+  test('scores an identical element 1', () => {
+    expect(scoreFingerprint(loginButton, loginButton).score).toBe(1);
+  });
+
+  test('scores each stored property and leaves out the missing ones', () => {
+    const { score, breakdown } = scoreFingerprint(loginButton, redesignedButton);
+
+    expect(breakdown).toEqual({ tag: 1, id: 0, classes: 1 / 3, attributes: 1, text: 1, path: 1 });
+    expect(score).toBeCloseTo((2 + 0 + 1 / 3 + 2 + 2 + 1) / (2 + 1.5 + 1 + 2 + 2 + 1), 5);
+  });
+
+  test('compares texts and labels by their words', () => {
+    const field = { ...cancelLink, tag: 'input', text: undefined, labels: ['Email address'] };
+    const relabeled = { ...field, labels: ['Your email address', 'Required'] };
+
+    expect(scoreFingerprint(field, relabeled).breakdown.labels).toBeCloseTo(2 / 3, 5);
+  });
+
+  test('scores an unrelated element low', () => {
+    expect(scoreFingerprint(loginButton, cancelLink).score).toBeLessThan(0.3);
+  });
+});
+
+test.describe('findByFingerprint', () => {
+  test('picks the best element above the threshold', async () => {
+    const result = await findByFingerprint(pageWith([cancelLink, redesignedButton]), loginButton, 0.6);
+
+    expect(result.match?.selector).toBe('html:nth-of-type(1) > body:nth-of-type(1) > form:nth-of-type(1) > button:nth-of-type(1)');
+    expect(result.candidates.map(candidate => candidate.element.tag)).toEqual(['button', 'a']);
+  });
+
+  test('heals nothing below the threshold', async () => {
+    const result = await findByFingerprint(pageWith([cancelLink]), loginButton, 0.7);
+
+    expect(result.match).toBeUndefined();
+    expect(result.reason).toMatch(/^best score 0\.\d\d is below the threshold 0\.7$/);
+  });
+
+  test('heals nothing when two elements score alike', async () => {
+    const twin = { ...redesignedButton, path: [...redesignedButton.path.slice(0, 3), 'button:nth-of-type(2)'] };
+
+    const result = await findByFingerprint(pageWith([redesignedButton, twin]), loginButton, 0.6);
+
+    expect(result.match).toBeUndefined();
+    expect(result.reason).toMatch(/^ambiguous: /);
+  });
+
+  test('reports a page that cannot be scanned', async () => {
+    const result = await findByFingerprint(pageWith(new Error('Target closed')), loginButton);
+
+    expect(result).toEqual({ candidates: [], threshold: 0.7, reason: 'page could not be scanned: Target closed' });
+  });
+});
+
+test.describe('captureFingerprint', () => {
+  test('redacts the fingerprint before it is stored', async () => {
+    const otpField = { ...cancelLink, tag: 'input', attributes: { 'data-test': 'otp', 'aria-label': 'token=abc123xyz' } };
+    const locator = { first: () => ({ evaluate: () => Promise.resolve([otpField]) }) } as unknown as Locator;
+
+    const fingerprint = await captureFingerprint(locator);
+
+    expect(fingerprint?.attributes['aria-label']).toBe('token=[REDACTED]');
+  });
+
+  test('gives undefined when the element is gone', async () => {
+    const locator = { first: () => ({ evaluate: () => Promise.reject(new Error('detached')) }) } as unknown as Locator;
+
+    expect(await captureFingerprint(locator)).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect, FrameLocator, Page } from '@playwright/test';
+import {
+  frameLocatorFor,
+  hasFrameChain,
+  hasShadowSegment,
+  locateInFrames,
+  splitSelectorChain
+} from '../../framework/utils/FrameSelector';
+
+interface FakeScope {
+  locator(selector: string): { path: string; contentFrame(): FakeScope };
+  path: string;
+}
+
+/** Records the locators and frames entered as `outer |> inner` */
+function fakeScope(path = ''): FakeScope {
+  return {
+    path,
+    locator: (selector: string) => ({
+      path: `${path}${selector}`,
+      contentFrame: () => fakeScope(`${path}${selector} |> `)
+    })
+  };
+}
+
+function resolve(selector: string): string {
+  return (locateInFrames(fakeScope() as unknown as Page, selector) as unknown as { path: string }).path;
+}
+
+test.describe('splitSelectorChain', () => {
+  test('splits on >> outside quotes, brackets and parentheses', () => {
+    expect(splitSelectorChain('frame[name=pay] >> frame#card >> input[name=cvv]')).toEqual(['frame[name=pay]', 'frame#card', 'input[name=cvv]']);
+    expect(splitSelectorChain('text="a >> b" >> [data-x=">>"] >> :has-text(">>")')).toEqual(['text="a >> b"', '[data-x=">>"]', ':has-text(">>")']);
+    expect(splitSelectorChain("text='it\\'s >> here'")).toEqual(["text='it\\'s >> here'"]);
+  });
+
+  test('drops empty segments', () => {
+    expect(splitSelectorChain(' >> #a >>  >> #b ')).toEqual(['#a', '#b']);
+  });
+});
+
+test.describe('hasFrameChain and hasShadowSegment', () => {
+  test('see frames only before the last segment and shadow hosts anywhere', () => {
+    expect(hasFrameChain('iframe.widget >> button')).toBe(true);
+    expect(hasFrameChain('div.frame-list >> button')).toBe(false);
+    expect(hasFrameChain('div >> iframe#x')).toBe(false);
+    expect(hasFrameChain('text="frame >> x"')).toBe(false);
+    expect(hasShadowSegment('shadow=payment-form >> input')).toBe(true);
+    expect(hasShadowSegment('text="shadow=x"')).toBe(false);
+  });
+});
+
+test.describe('locateInFrames', () => {
+  test('leaves plain selectors to Playwright', () => {
+    expect(resolve('div.checkout >> button')).toBe('div.checkout >> button');
+  });
+
+  test('enters each frame and resolves the rest inside it', () => {
+    expect(resolve('frame[name=pay] >> frame#card >> input[name=cvv]')).toBe(
+      ':is(iframe, frame)[name=pay] |> :is(iframe, frame)#card |> input[name=cvv]'
+    );
+    expect(resolve('div.checkout >> iframe.widget >> role=button[name="Pay"i]')).toBe(
+      'div.checkout >> iframe.widget |> role=button[name="Pay"i]'
+    );
+  });
+
+  test('replaces shadow hosts with their selector, which Playwright pierces', () => {
+    expect(resolve('shadow=payment-form >> shadow=card-input >> input[name=cvv]')).toBe('payment-form >> card-input >> input[name=cvv]');
+    expect(resolve('shadow=checkout-app >> iframe#pay >> //input[@name="cvv"]')).toBe('checkout-app >> iframe#pay |> //input[@name="cvv"]');
+  });
+
+  test('rejects XPath inside a shadow root', () => {
+    expect(() => resolve('shadow=payment-form >> //input')).toThrow("XPath cannot reach inside the shadow root of 'payment-form'");
+  });
+});
+
+test.describe('frameLocatorFor', () => {
+  test('enters every segment, the last one included', () => {
+    expect((frameLocatorFor(fakeScope() as unknown as Page, 'iframe#myIframe') as unknown as FakeScope).path).toBe('iframe#myIframe |> ');
+    expect((frameLocatorFor(fakeScope() as unknown as FrameLocator, 'frame[name=pay] >> frame#card') as unknown as FakeScope).path).toBe(
+      ':is(iframe, frame)[name=pay] |> :is(iframe, frame)#card |> '
+    );
+  });
+});
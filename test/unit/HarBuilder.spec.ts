@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import * as path from 'path';
+import { buildHar, withoutPostData } from '../../framework/utils/HarBuilder';
+import type { NetworkRequestEntry } from '../../framework/core/BasePage';
+
+const timestamp = new Date('2026-01-01T00:00:00.000Z');
+
+function entry(overrides: Partial<NetworkRequestEntry>): NetworkRequestEntry {
+  return { url: 'https://example.com/api/items?page=2', method: 'GET', status: 200, timestamp, ...overrides };
+}
+
+test.describe('buildHar', () => {
+  test('converts captured requests into HAR 1.2 entries', () => {
+    const har = buildHar([
+      entry({
+        method: 'POST',
+        requestHeaders: { 'Content-Type': 'application/json' },
+        requestBody: { name: 'item' },
+        responseHeaders: { 'content-type': 'application/json' },
+        responseBody: '{"id":1}',
+        statusText: 'Created',
+        status: 201,
+        duration: 42
+      })
+    ]);
+
+    expect(har.log.version).toBe('1.2');
+    const [harEntry] = har.log.entries;
+    expect(harEntry.startedDateTime).toBe('2026-01-01T00:00:00.000Z');
+    expect(harEntry.request.queryString).toEqual([{ name: 'page', value: '2' }]);
+    expect(harEntry.request.postData).toEqual({ mimeType: 'application/json', text: '{"name":"item"}' });
+    expect(harEntry.response).toEqual(expect.objectContaining({ status: 201, statusText: 'Created', bodySize: 8 }));
+    expect(harEntry.response.content).toEqual({ size: 8, mimeType: 'application/json', text: '{"id":1}' });
+    expect(harEntry.time).toBe(42);
+  });
+
+  test('leaves out requests still waiting for a response', () => {
+    expect(buildHar([entry({ status: undefined }), entry({})]).log.entries).toHaveLength(1);
+  });
+
+  test('keeps binary bodies base64-encoded and sizes them in bytes', () => {
+    const body = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]).toString('base64');
+    const [harEntry] = buildHar([
+      entry({ responseHeaders: { 'content-type': 'image/png' }, responseBody: body, responseBodyEncoding: 'base64' })
+    ]).log.entries;
+
+    expect(harEntry.response.content).toEqual({ size: 6, mimeType: 'image/png', text: body, encoding: 'base64' });
+  });
+
+  test('derives timings from the browser timing marks', () => {
+    const [harEntry] = buildHar([
+      entry({
+        timing: {
+          startTime: 0,
+          domainLookupStart: 1,
+          domainLookupEnd: 3,
+          connectStart: 3,
+          secureConnectionStart: 5,
+          connectEnd: 10,
+          requestStart: 10,
+          responseStart: 30,
+          responseEnd: 35
+        }
+      })
+    ]).log.entries;
+
+    expect(harEntry.timings).toEqual({ blocked: -1, dns: 2, connect: 7, ssl: 5, send: 0, wait: 20, receive: 5 });
+    expect(harEntry.time).toBe(34);
+  });
+});
+
+test.describe('withoutPostData', () => {
+  test('drops request bodies and anchors _file bodies to the original folder', () => {
+    const har = buildHar([entry({ method: 'POST', requestBody: 'a=1' })]);
+    har.log.entries[0].response.content._file = 'body.json';
+
+    const copy = withoutPostData(har, '/recordings');
+
+    expect(copy.log.entries[0].request.postData).toBeUndefined();
+    expect(copy.log.entries[0].response.content._file).toBe(path.resolve('/recordings', 'body.json'));
+    expect(har.log.entries[0].request.postData).toBeDefined();
+  });
+});
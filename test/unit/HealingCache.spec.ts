@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { HealingCache, HealingEvent, orderCandidates } from '../../framework/utils/HealingCache';
+
+const candidates = ['#user-name', '[data-test="username"]', 'role=textbox[name="Username"]'];
+const key = candidates.join(' | ');
+
+let cacheDir: string;
+let cacheFile: string;
+
+function healed(matched: string): HealingEvent {
+  return { key, profile: 'dev', page: 'LoginPage', candidates, matched, suggestions: [], count: 1 };
+}
+
+test.beforeEach(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'healing-cache-'));
+  cacheFile = path.join(cacheDir, 'healing-cache.json');
+});
+
+test.afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+test.describe('orderCandidates', () => {
+  test('tries the cached winner first, then the primary and the other candidates', () => {
+    expect(orderCandidates(candidates, candidates[2])).toEqual([candidates[2], candidates[0], candidates[1]]);
+  });
+
+  test('keeps the order without a cached winner among the candidates', () => {
+    expect(orderCandidates(candidates, undefined)).toBe(candidates);
+    expect(orderCandidates(candidates, '#gone')).toBe(candidates);
+  });
+});
+
+test.describe('HealingCache', () => {
+  test('puts the selector healed in the last run first in the next run', () => {
+    const mainProcess = new HealingCache(cacheFile);
+    mainProcess.merge([healed(candidates[1])]);
+    mainProcess.save();
+
+    const nextRun = new HealingCache(cacheFile);
+    const preferred = nextRun.getPreferredSelector('dev', key);
+
+    expect(preferred).toBe(candidates[1]);
+    expect(orderCandidates(candidates, preferred)[0]).toBe(candidates[1]);
+    expect(nextRun.getPreferredSelector('staging', key)).toBeUndefined();
+  });
+
+  test('counts repeated healings and drops recovered locators before merging new ones', () => {
+    const cache = new HealingCache(cacheFile);
+    cache.merge([{ ...healed(candidates[1]), count: 2 }]);
+    cache.merge([healed(candidates[1])]);
+    expect(cache.getEntries('dev')[key]).toEqual(expect.objectContaining({ primary: candidates[0], hits: 3 }));
+
+    cache.merge([], [], new Date(), [{ key, profile: 'dev' }]);
+    expect(cache.getPreferredSelector('dev', key)).toBeUndefined();
+  });
+
+  test('hands the events of one test over once', () => {
+    const worker = new HealingCache(cacheFile);
+    worker.recordHealing(healed(candidates[1]));
+    worker.recordHealing(healed(candidates[2]));
+
+    expect(worker.takePending().events).toEqual([{ ...healed(candidates[2]), count: 2 }]);
+    expect(worker.takePending().events).toEqual([]);
+  });
+
+  test('ignores an unreadable cache file', () => {
+    fs.writeFileSync(cacheFile, '{ not json');
+    const warn = console.warn;
+    console.warn = () => undefined;
+    try {
+      expect(new HealingCache(cacheFile).getPreferredSelector('dev', key)).toBeUndefined();
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
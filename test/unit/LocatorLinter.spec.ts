@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+import { lintSelector, locatorTargetsOfModule } from '../../framework/utils/LocatorLinter';
+import { defineLocators, locatorsOfModule } from '../../framework/utils/LocatorRegistry';
+
+function rules(selector: string): string[] {
+  return lintSelector(selector).map(finding => finding.rule);
+}
+
+test.describe('lintSelector', () => {
+  test('flags index-based and absolute XPaths', () => {
+    expect(rules("(//button[normalize-space()='Create Account'])[1]")).toEqual(['index-based-xpath', 'text-only']);
+    expect(rules('xpath=/html/body/div[2]/form/input')).toEqual(['absolute-xpath', 'index-based-xpath']);
+    expect(rules("//input[@formcontrolname='email']")).toEqual([]);
+  });
+
+  test('flags chains of three or more classes, but not dots in quoted text', () => {
+    expect(rules('div.card.card-body.shadow > button')).toEqual(['long-class-chain']);
+    expect(rules("//div[@class='card card-body shadow']")).toEqual(['long-class-chain']);
+    expect(rules("a[href='https://www.example.co.uk']")).toEqual([]);
+  });
+
+  test('suggests the role and name of elements found by their text', () => {
+    expect(lintSelector("//button[normalize-space()='Create Account']")).toEqual([
+      { rule: 'text-only', message: 'identified by its text "Create Account" only', suggestion: 'role=button[name="Create Account"i]' }
+    ]);
+    expect(lintSelector("//a[contains(text(),'Forgot password')]")[0].suggestion).toBe('role=link[name="Forgot password"i]');
+    expect(lintSelector("//label[text()='Email']")[0].suggestion).toBe('role=textbox[name="Email"i] (or the labelled control\'s role)');
+  });
+
+  test('never suggests another text selector for a text-only selector', () => {
+    ['text=Login', 'text="Sign in"', "span:has-text('Total')", "//span[text()='Pending']", "//*[normalize-space()='Next']"].forEach(selector => {
+      const [finding] = lintSelector(selector);
+      expect(finding.rule, selector).toBe('text-only');
+      expect(finding.suggestion, selector).not.toMatch(/text=|has-text/);
+      expect(finding.suggestion, selector).toMatch(/role=|data-testid=/);
+    });
+  });
+});
+
+test.describe('locatorTargetsOfModule', () => {
+  test('checks named locators, and plain maps only when asked, without URLs', () => {
+    const LoginPageLocators = defineLocators('LoginPage', { submit: ['#login', 'role=button[name="Login"i]'] });
+    const urls = { home: 'https://example.com', search: "//input[@name='q']" };
+    const moduleExports = { LoginPageLocators, urls };
+    const named = locatorsOfModule('test/locators/LoginPageLocators.ts', moduleExports);
+
+    expect(locatorTargetsOfModule('test/locators/LoginPageLocators.ts', moduleExports, named).map(target => target.name)).toEqual([
+      'LoginPage.submit'
+    ]);
+    expect(locatorTargetsOfModule('test/locators/LoginPageLocators.ts', moduleExports, named, true)).toEqual([
+      expect.objectContaining({ name: 'LoginPage.submit', candidates: ['#login', 'role=button[name="Login"i]'] }),
+      { name: 'urls.search', file: 'test/locators/LoginPageLocators.ts', candidates: ["//input[@name='q']"] }
+    ]);
+  });
+});
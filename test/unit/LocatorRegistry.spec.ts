@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+import { compareWithBaseline, defineLocators, findLocatorIssues, inferStrategy, locatorsOfModule } from '../../framework/utils/LocatorRegistry';
+
+const LoginPageLocators = defineLocators('LoginPage', {
+  usernameField: ['#user-name', "//input[@name='user']"],
+  passwordField: 'input[type="password"]',
+  submitButton: { candidates: 'role=button[name="Login"i]', frame: 'iframe#login' }
+});
+
+const CheckoutPageLocators = defineLocators('CheckoutPage', {
+  passwordField: 'input[type="password"]'
+});
+
+const locators = [
+  ...locatorsOfModule('test/locators/LoginPageLocators.ts', { LoginPageLocators }),
+  ...locatorsOfModule('test/locators/CheckoutPageLocators.ts', { CheckoutPageLocators })
+];
+
+test.describe('defineLocators', () => {
+  test('names locators after their page and infers their strategy', () => {
+    expect(LoginPageLocators.usernameField).toEqual({
+      name: 'LoginPage.usernameField',
+      page: 'LoginPage',
+      key: 'usernameField',
+      strategy: 'mixed',
+      candidates: ['#user-name', "//input[@name='user']"]
+    });
+    expect(LoginPageLocators.submitButton).toEqual(expect.objectContaining({ strategy: 'role', frame: 'iframe#login' }));
+  });
+
+  test('recognizes the public Playwright selector engines', () => {
+    expect(inferStrategy('data-testid=checkout')).toBe('testid');
+    expect(inferStrategy('[placeholder="Email"]')).toBe('placeholder');
+    expect(inferStrategy('text="Sign in"')).toBe('text');
+    expect(inferStrategy('xpath=//button')).toBe('xpath');
+    expect(inferStrategy('button.primary')).toBe('css');
+  });
+
+  test('refuses locators without a selector', () => {
+    expect(() => defineLocators('Page', { empty: [] })).toThrow('Locator Page.empty needs at least one non-empty selector');
+  });
+});
+
+test.describe('findLocatorIssues', () => {
+  test('reports selectors defined twice', () => {
+    const sources = [{ file: 'spec.ts', content: 'LoginPageLocators.usernameField; LoginPageLocators.passwordField; LoginPageLocators.submitButton; CheckoutPageLocators.passwordField' }];
+
+    expect(findLocatorIssues(locators, sources)).toEqual([
+      expect.objectContaining({ type: 'duplicate-selector', locator: 'LoginPage.passwordField' }),
+      expect.objectContaining({ type: 'duplicate-selector', locator: 'CheckoutPage.passwordField' })
+    ]);
+  });
+
+  test('reports duplicate logical names', () => {
+    const copy = locatorsOfModule('test/locators/Copy.ts', { LoginPageLocators: { submitButton: LoginPageLocators.submitButton } });
+    const sources = [{ file: 'spec.ts', content: 'LoginPageLocators.submitButton' }];
+
+    expect(findLocatorIssues([locators[2], ...copy], sources).filter(issue => issue.type === 'duplicate-name')).toHaveLength(2);
+  });
+
+  test('counts references through aliases and bracket access as usage', () => {
+    const sources = [
+      { file: 'LoginPage.ts', content: "const locators = LoginPageLocators;\nlocators.usernameField;\nlocators['passwordField'];" },
+      { file: 'spec.ts', content: 'import { LoginPageLocators as Login } from "x";\nLogin.submitButton;' }
+    ];
+
+    const unused = findLocatorIssues(locators, sources).filter(issue => issue.type === 'unused');
+
+    expect(unused.map(issue => issue.locator)).toEqual(['CheckoutPage.passwordField']);
+  });
+
+  test('does not count a longer key with the same prefix as usage', () => {
+    const sources = [{ file: 'spec.ts', content: 'LoginPageLocators.usernameFieldLabel' }];
+
+    const unused = findLocatorIssues(locators.slice(0, 1), sources).map(issue => issue.locator);
+
+    expect(unused).toEqual(['LoginPage.usernameField']);
+  });
+});
+
+test.describe('compareWithBaseline', () => {
+  test('fails only on issues missing from the baseline and lists the fixed ones', () => {
+    const issues = findLocatorIssues(locators, [{ file: 'spec.ts', content: 'LoginPageLocators.usernameField' }]);
+    const baseline = ['duplicate-selector LoginPage.passwordField', 'duplicate-selector CheckoutPage.passwordField', 'unused LoginPage.usernameField'];
+
+    const { fresh, known, resolved } = compareWithBaseline(issues, baseline);
+
+    expect(fresh.map(issue => `${issue.type} ${issue.locator}`)).toEqual([
+      'unused LoginPage.passwordField',
+      'unused LoginPage.submitButton',
+      'unused CheckoutPage.passwordField'
+    ]);
+    expect(known).toHaveLength(2);
+    expect(resolved).toEqual(['unused LoginPage.usernameField']);
+  });
+});
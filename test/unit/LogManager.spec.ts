@@ -0,0 +1,157 @@
+import { test, expect, TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LogRecord, TEST_LOG_FILE, logManager, parseLogLevelSpec, toJsonLine } from '../../framework/utils/LogManager';
+import { Logger } from '../../framework/utils/Logger';
+
+let outputDir: string;
+
+function fakeTestInfo(): TestInfo {
+  return {
+    testId: 'abc123',
+    titlePath: ['LoginPage.spec.ts', 'login', 'works with a valid user'],
+    workerIndex: 2,
+    retry: 1,
+    outputPath: (name: string) => path.join(outputDir, name)
+  } as unknown as TestInfo;
+}
+
+function readLog(file: string): LogRecord[] {
+  return fs.readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line) as LogRecord);
+}
+
+test.beforeEach(() => {
+  outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-manager-'));
+  logManager.configure({ console: 'off' });
+});
+
+test.afterEach(() => {
+  logManager.endTest();
+  logManager.configure();
+  fs.rmSync(outputDir, { recursive: true, force: true });
+});
+
+test.describe('toJsonLine', () => {
+  test('writes errors and circular values as JSON', () => {
+    const circular: Record<string, unknown> = { name: 'cart' };
+    circular.self = circular;
+    const record: LogRecord = {
+      time: '2026-01-01T00:00:00.000Z',
+      level: 'ERROR',
+      logger: 'CartPage',
+      message: 'failed',
+      args: [new TypeError('boom'), circular]
+    };
+
+    const parsed = JSON.parse(toJsonLine(record));
+
+    expect(parsed.args[0]).toEqual(expect.objectContaining({ name: 'TypeError', message: 'boom' }));
+    expect(parsed.args[1]).toEqual({ name: 'cart', self: '[Circular]' });
+  });
+});
+
+test.describe('per-test log file', () => {
+  test('writes every record with the test context and the current step', () => {
+    const logFile = logManager.startTest(fakeTestInfo(), 'development');
+    const logger = new Logger('LoginPage');
+
+    logger.info('Opening the login page');
+    logManager.pushStep('LoginPage.login');
+    logger.warn('Slow response');
+    logManager.popStep('LoginPage.login');
+    logManager.endTest();
+    logger.info('After the test');
+
+    expect(logFile).toBe(path.join(outputDir, TEST_LOG_FILE));
+    const records = readLog(logFile as string);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toEqual(expect.objectContaining({
+      level: 'INFO',
+      logger: 'LoginPage',
+      message: 'Opening the login page',
+      testId: 'abc123',
+      test: 'login › works with a valid user',
+      worker: 2,
+      retry: 1,
+      profile: 'development'
+    }));
+    expect(records[0].step).toBeUndefined();
+    expect(records[1]).toEqual(expect.objectContaining({ level: 'WARN', step: 'LoginPage.login' }));
+  });
+
+  test('writes no file when the profile turns it off', () => {
+    logManager.configure({ console: 'off', file: false });
+
+    expect(logManager.startTest(fakeTestInfo(), 'development')).toBeUndefined();
+    expect(fs.readdirSync(outputDir)).toEqual([]);
+  });
+
+  test('joins nested steps and hands records to extra sinks until removed', () => {
+    const records: LogRecord[] = [];
+    const remove = logManager.addSink({ write: record => records.push(record) });
+    const logger = new Logger('CartPage');
+
+    logManager.pushStep('Checkout');
+    logManager.pushStep('CartPage.open');
+    logger.info('inside');
+    logManager.popStep('CartPage.open');
+    logManager.popStep('Checkout');
+    remove();
+    logger.info('not seen');
+
+    expect(records.map(record => [record.message, record.step])).toEqual([['inside', 'Checkout > CartPage.open']]);
+  });
+});
+
+test.describe('parseLogLevelSpec', () => {
+  test('reads a global level, namespace overrides or both', () => {
+    expect(parseLogLevelSpec('debug')).toEqual({ level: 'DEBUG', namespaces: {} });
+    expect(parseLogLevelSpec('BasePage=warn, EmailService=Debug')).toEqual({ namespaces: { BasePage: 'WARN', EmailService: 'DEBUG' } });
+    expect(parseLogLevelSpec(' info,BasePage=warn ,')).toEqual({ level: 'INFO', namespaces: { BasePage: 'WARN' } });
+    expect(parseLogLevelSpec('')).toEqual({ namespaces: {} });
+  });
+
+  test('names the entry it cannot read', () => {
+    expect(() => parseLogLevelSpec('verbose')).toThrow('Invalid LOG_LEVEL entry "verbose": expected <level> or <namespace>=<level>');
+    expect(() => parseLogLevelSpec('=debug')).toThrow('Invalid LOG_LEVEL entry "=debug"');
+    expect(() => parseLogLevelSpec('BasePage=loud')).toThrow('Invalid LOG_LEVEL entry "BasePage=loud"');
+  });
+});
+
+test.describe('log levels', () => {
+  test.afterEach(() => {
+    delete process.env.LOG_LEVEL;
+  });
+
+  test('resolve the longest dotted prefix, then the extra namespaces, then the global level', () => {
+    logManager.configure({ console: 'off', level: 'WARN', levels: { LoginPage: 'debug', 'LoginPage.API': 'error', BasePage: 'info' } });
+
+    expect(logManager.levelFor('LoginPage.API.retry')).toBe('ERROR');
+    expect(logManager.levelFor('LoginPage.form')).toBe('DEBUG');
+    expect(logManager.levelFor('CartPage', ['BasePage'])).toBe('INFO');
+    expect(logManager.levelFor('EmailService')).toBe('WARN');
+  });
+
+  test('take LOG_LEVEL over the profile, entry by entry', () => {
+    process.env.LOG_LEVEL = 'error,BasePage=debug';
+    logManager.configure({ console: 'off', level: 'DEBUG', levels: { BasePage: 'warn', CartPage: 'info' } });
+
+    expect(logManager.getLevel()).toBe('ERROR');
+    expect(logManager.levelFor('LoginPage', ['BasePage'])).toBe('DEBUG');
+    expect(logManager.levelFor('CartPage', ['BasePage'])).toBe('INFO');
+  });
+
+  test('filter the records of a logger', () => {
+    const records: LogRecord[] = [];
+    const remove = logManager.addSink({ write: record => records.push(record) });
+    logManager.configure({ console: 'off', level: 'INFO', levels: { NoisyPage: 'error' } });
+
+    new Logger('NoisyPage').warn('dropped');
+    new Logger('QuietPage').debug('dropped too');
+    new Logger('QuietPage').info('kept');
+    remove();
+
+    expect(records.map(record => record.message)).toEqual(['kept']);
+  });
+});
@@ -0,0 +1,128 @@
+import { test, expect as baseExpect } from '@playwright/test';
+import type { NetworkRequestEntry } from '../../framework/core/BasePage';
+import { networkMatchers, validateJsonSchema } from '../../framework/utils/NetworkMatchers';
+import { redactor } from '../../framework/utils/Redactor';
+
+const expect = baseExpect.extend(networkMatchers);
+
+const timestamp = new Date('2026-01-01T00:00:00.000Z');
+
+function entry(overrides: Partial<NetworkRequestEntry>): NetworkRequestEntry {
+  return { url: 'https://shop.test/api/items', method: 'GET', status: 200, timestamp, duration: 40, ...overrides };
+}
+
+/** A page object as the matchers see it: redacted getters plus the entries as sent */
+function pageWith(requests: NetworkRequestEntry[]) {
+  return {
+    getNetworkRequests: () => requests.map(request => ({ ...request, url: redactor.redact(request.url) })),
+    getUnredactedNetworkRequests: () => requests
+  };
+}
+
+async function failureOf(assertion: Promise<unknown>): Promise<string> {
+  const error = await assertion.then(() => undefined, (caught: Error) => caught);
+  expect(error, 'the assertion should fail').toBeDefined();
+  return (error as Error).message;
+}
+
+test.describe('toHaveMadeRequest', () => {
+  const page = pageWith([
+    entry({ url: 'https://shop.test/api/login?token=abc123xyz', method: 'POST' }),
+    entry({ url: 'https://shop.test/api/cart', status: 500 })
+  ]);
+
+  test('matches URL, method and status', async () => {
+    await expect(page).toHaveMadeRequest({ url: '/api/login', method: 'post', status: 200 });
+    await expect(page).toHaveMadeRequest({ url: /\/api\/cart$/, status: 500 });
+    await expect(page).not.toHaveMadeRequest({ url: '/api/cart', status: 200, timeout: 0 });
+  });
+
+  test('matches the URL as sent, not its redacted copy', async () => {
+    await expect(page).toHaveMadeRequest({ url: 'token=abc123xyz' });
+  });
+
+  test('lists the closest requests with their differences, redacted', async () => {
+    const message = await failureOf(expect(page).toHaveMadeRequest({ url: '/api/login', method: 'GET', timeout: 0 }));
+
+    expect(message).toContain('Expected a request matching GET /api/login');
+    expect(message).toContain('Closest captured requests (2 captured):');
+    expect(message).toContain('POST https://shop.test/api/login?token=[REDACTED] → 200 (40ms)  [differs: method]');
+    expect(message).not.toContain('abc123xyz');
+  });
+
+  test('tells when nothing was captured', async () => {
+    const message = await failureOf(expect([]).toHaveMadeRequest({ url: '/api', timeout: 0 }));
+
+    expect(message).toContain('No requests were captured (is captureNetworkRequests() started before the action?)');
+  });
+});
+
+test.describe('toHaveNoFailedRequests', () => {
+  test('ignores failures of the listed URLs, matched as sent', () => {
+    const page = pageWith([entry({ url: 'https://metrics.test/collect?api_key=k-123456', status: 503 })]);
+
+    expect(page).toHaveNoFailedRequests({ ignore: ['api_key=k-123456'] });
+  });
+
+  test('lists the failed requests', async () => {
+    const message = await failureOf(Promise.resolve().then(() => {
+      expect([entry({ status: 404 }), entry({ url: 'https://shop.test/ok' })]).toHaveNoFailedRequests();
+    }));
+
+    expect(message).toContain('Expected no failed requests, found 1:\n  - GET https://shop.test/api/items → 404 (40ms)');
+  });
+});
+
+test.describe('toHaveRequestBodyMatching', () => {
+  test('validates bodies as sent and redacts sensitive values in the messages', async () => {
+    const page = pageWith([entry({ method: 'POST', url: 'https://shop.test/api/login', requestBody: '{"username":"bob","password":12,"note":"Bearer abcdefgh"}' })]);
+    const schema = {
+      type: 'object' as const,
+      required: ['username', 'otp'],
+      properties: { password: { type: 'string' as const }, note: { const: 'none' } }
+    };
+
+    const message = await failureOf(expect(page).toHaveRequestBodyMatching(schema, { url: '/api/login', timeout: 0 }));
+
+    expect(message).toContain('body.otp: is required');
+    expect(message).toContain('body.password: expected string, got integer');
+    expect(message).toContain('body.note: expected "none", got "[REDACTED]"');
+  });
+});
+
+test.describe('toCompleteWithin', () => {
+  test('names the requests slower than the limit', async () => {
+    const requests = [entry({ url: 'https://shop.test/api/search', duration: 2500 }), entry({ duration: 100 })];
+
+    await expect(requests).toCompleteWithin(1000, { url: '/api/items' });
+    const message = await failureOf(expect(requests).toCompleteWithin(1000, { timeout: 0 }));
+
+    expect(message).toContain('1 of 2 requests did not complete within 1000ms:\n  - GET https://shop.test/api/search → 200 (2500ms)');
+  });
+});
+
+test.describe('validateJsonSchema', () => {
+  test('reports every violation with its path', () => {
+    const errors = validateJsonSchema(
+      { id: 1.5, tags: ['a', 7], extra: true },
+      {
+        type: 'object',
+        additionalProperties: false,
+        properties: { id: { type: 'integer' }, tags: { type: 'array', items: { type: 'string' }, maxItems: 1 } }
+      }
+    );
+
+    expect(errors).toEqual([
+      'body.id: expected integer, got number',
+      'body.tags: more than 1 items',
+      'body.tags[1]: expected string, got integer',
+      'body.extra: is not allowed'
+    ]);
+  });
+
+  test('does not show values under sensitive keys', () => {
+    expect(validateJsonSchema({ pin: '12345' }, { properties: { pin: { pattern: '^\\d{4}$' } } })).toEqual([
+      'body.pin: [REDACTED] does not match /^\\d{4}$/'
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+import { test, expect, Page, Request, Route } from '@playwright/test';
+import { NetworkMocker } from '../../framework/utils/NetworkMocker';
+
+type RouteHandler = (route: Route, request: Request) => Promise<void>;
+
+interface Fulfilled {
+  status?: number;
+  contentType?: string;
+  body?: string | Buffer;
+}
+
+/** Just enough of a Page for the mocker: routes are kept and called by hand */
+class FakePage {
+  public routes: Array<{ url: string | RegExp; handler: RouteHandler }> = [];
+
+  route(url: string | RegExp, handler: RouteHandler): Promise<void> {
+    this.routes.push({ url, handler });
+    return Promise.resolve();
+  }
+
+  unroute(url: string | RegExp, handler: RouteHandler): Promise<void> {
+    this.routes = this.routes.filter(route => route.url !== url || route.handler !== handler);
+    return Promise.resolve();
+  }
+
+  isClosed(): boolean {
+    return false;
+  }
+
+  /** Send a request through the last registered route, as Playwright does */
+  async request(url: string, method = 'GET'): Promise<{ fulfilled?: Fulfilled; aborted?: string; fellBack: boolean }> {
+    const outcome: { fulfilled?: Fulfilled; aborted?: string; fellBack: boolean } = { fellBack: false };
+    const route = {
+      fulfill: (response: Fulfilled) => {
+        outcome.fulfilled = response;
+        return Promise.resolve();
+      },
+      abort: (reason: string) => {
+        outcome.aborted = reason;
+        return Promise.resolve();
+      },
+      fallback: () => {
+        outcome.fellBack = true;
+        return Promise.resolve();
+      }
+    };
+    const request = { url: () => url, method: () => method, postData: () => null };
+    await this.routes[this.routes.length - 1].handler(route as unknown as Route, request as unknown as Request);
+    return outcome;
+  }
+}
+
+let page: FakePage;
+let mocker: NetworkMocker;
+
+test.beforeEach(() => {
+  page = new FakePage();
+  mocker = NetworkMocker.forPage(page as unknown as Page);
+});
+
+test.describe('NetworkMocker', () => {
+  test('shares one mocker per page', () => {
+    expect(NetworkMocker.forPage(page as unknown as Page)).toBe(mocker);
+  });
+
+  test('answers each call with the next response and repeats the last one', async () => {
+    await mocker.mockApi('pay', /\/api\/payments$/, [{ status: 503 }, { json: { status: 'PAID' } }]);
+
+    const statuses = [
+      (await page.request('https://shop.test/api/payments')).fulfilled,
+      (await page.request('https://shop.test/api/payments')).fulfilled,
+      (await page.request('https://shop.test/api/payments')).fulfilled
+    ];
+
+    expect(statuses.map(response => response?.status ?? 200)).toEqual([503, 200, 200]);
+    expect(statuses[1]).toEqual(expect.objectContaining({ contentType: 'application/json', body: '{"status":"PAID"}' }));
+    expect(mocker.getMockCalls('pay')).toHaveLength(3);
+  });
+
+  test('waits for the delay before responding', async () => {
+    await mocker.mockRoute('**/slow', { body: 'done', delay: 200 });
+
+    const started = Date.now();
+    const outcome = await page.request('https://shop.test/slow');
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+    expect(outcome.fulfilled?.body).toBe('done');
+  });
+
+  test('aborts instead of responding', async () => {
+    await mocker.mockRoute('**/offline', { abort: 'internetdisconnected' });
+
+    expect((await page.request('https://shop.test/offline')).aborted).toBe('internetdisconnected');
+  });
+
+  test('lets other methods through and does not count them', async () => {
+    await mocker.mockApi('otp', /\/api\/otp$/, { json: { valid: true } }, { method: 'post' });
+
+    expect((await page.request('https://shop.test/api/otp', 'GET')).fellBack).toBe(true);
+    expect((await page.request('https://shop.test/api/otp', 'POST')).fulfilled).toBeDefined();
+    expect(mocker.getMockCalls('otp').map(call => call.method)).toEqual(['POST']);
+  });
+
+  test('asserts how often a mock was called', async () => {
+    await mocker.mockApi('cart', '**/api/cart');
+    await page.request('https://shop.test/api/cart');
+    await page.request('https://shop.test/api/cart');
+
+    await mocker.expectMockCalled('cart');
+    await mocker.expectMockCalled('cart', 2);
+    await expect(mocker.expectMockCalled('cart', 1, 200)).rejects.toThrow("Expected mock 'cart' (**/api/cart) to be called 1 time(s)");
+    await expect(mocker.expectMockCalled('missing')).rejects.toThrow("No mock named 'missing'. Active mocks: cart");
+  });
+
+  test('replaces a mock registered again under the same name and removes mocks', async () => {
+    await mocker.mockRoute('**/a', { status: 201 }, { name: 'a' });
+    await mocker.mockRoute('**/a', { status: 202 }, { name: 'a' });
+    expect(page.routes).toHaveLength(1);
+    expect((await page.request('https://shop.test/a')).fulfilled?.status).toBe(202);
+
+    await mocker.clearMocks();
+
+    expect(page.routes).toEqual([]);
+    expect(mocker.getMockNames()).toEqual([]);
+  });
+
+  test('refuses responses with more than one body', async () => {
+    await expect(mocker.mockRoute('**/x', { body: 'a', json: {} }, { name: 'x' })).rejects.toThrow(
+      "Mock 'x': use only one of body, json and jsonFile (got body, json)"
+    );
+  });
+});
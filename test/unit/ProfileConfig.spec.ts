@@ -0,0 +1,212 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatResolvedProfile, loadProfile } from '../../framework/utils/ProfileConfig';
+import { MASTER_KEY_ENV, SecretsVault, VAULT_FILE_ENV } from '../../framework/utils/SecretsVault';
+import { formatProfileIssues, indexYamlKeyLines, validateProfile } from '../../framework/utils/ProfileValidator';
+
+let rootDir: string;
+
+function writeProfile(name: string, content: string): void {
+  fs.writeFileSync(path.join(rootDir, `config.${name}.yaml`), content);
+}
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'profile-config-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+test.describe('validateProfile', () => {
+  test('accepts a minimal profile', () => {
+    expect(validateProfile({ baseURL: 'https://example.com', browser: 'chromium' })).toEqual([]);
+  });
+
+  test('reports every issue with its dotted path', () => {
+    const issues = validateProfile({ baseURL: 'example.com', browser: 'opera', parallel: 0, grid: { isGrid: 'yes' } });
+    const paths = issues.map(issue => issue.path);
+    expect(paths).toEqual(expect.arrayContaining(['baseURL', 'browser', 'parallel', 'grid.isGrid']));
+  });
+
+  test('rejects a profile that is not a mapping', () => {
+    expect(validateProfile(['a'])).toEqual([expect.objectContaining({ path: '' })]);
+  });
+
+  test('locates issues on the line of the offending key', () => {
+    const source = 'baseURL: https://example.com\nbrowser: opera\n';
+    const lines = indexYamlKeyLines(source);
+    const locations = new Map(Array.from(lines, ([key, line]) => [key, { file: 'config.x.yaml', line }]));
+    const issues = validateProfile({ baseURL: 'https://example.com', browser: 'opera' }, locations);
+    expect(formatProfileIssues('config.x.yaml', issues)).toContain('config.x.yaml:2  browser:');
+  });
+});
+
+test.describe('loadProfile', () => {
+  test('loads and validates config.<name>.yaml', () => {
+    writeProfile('dev', 'baseURL: https://dev.example.com\nbrowser: chromium\nretries: 2\n');
+
+    const loaded = loadProfile('dev', rootDir);
+
+    expect(loaded.name).toBe('dev');
+    expect(loaded.profile).toEqual({ baseURL: 'https://dev.example.com', browser: 'chromium', retries: 2 });
+  });
+
+  test('names the file and line of invalid values', () => {
+    writeProfile('broken', 'baseURL: https://example.com\nbrowser: chromium\nretries: -1\n');
+
+    expect(() => loadProfile('broken', rootDir)).toThrow(/config\.broken\.yaml:3 {2}retries:/);
+  });
+
+  test('reports a missing profile file', () => {
+    expect(() => loadProfile('missing', rootDir)).toThrow('Configuration file not found: config.missing.yaml');
+  });
+});
+
+test.describe('profile inheritance', () => {
+  test('deep-merges `extends` layers, the profile itself last', () => {
+    writeProfile('base', 'abstract: true\nbaseURL: https://base.example.com\nbrowser: chromium\nretries: 1\nmobile:\n  isMobile: false\n  device: pixel7\n');
+    writeProfile('staging', 'extends: base\nbaseURL: https://staging.example.com\nmobile:\n  isMobile: true\n');
+
+    const loaded = loadProfile('staging', rootDir);
+
+    expect(loaded.profile.baseURL).toBe('https://staging.example.com');
+    expect(loaded.profile.retries).toBe(1);
+    expect(loaded.profile.mobile).toEqual({ isMobile: true, device: 'pixel7' });
+    expect(loaded.layers.map(layer => path.basename(layer))).toEqual(['config.base.yaml', 'config.staging.yaml']);
+  });
+
+  test('merges a base shared by two parents once, at its first position', () => {
+    writeProfile('common', 'abstract: true\nbaseURL: https://common.example.com\nbrowser: chromium\nretries: 0\n');
+    writeProfile('ci', 'abstract: true\nextends: common\nretries: 2\n');
+    writeProfile('fast', 'abstract: true\nextends: common\nparallel: 4\n');
+    writeProfile('nightly', 'extends: [ci, fast]\n');
+
+    const loaded = loadProfile('nightly', rootDir);
+
+    expect(loaded.profile.retries).toBe(2);
+    expect(loaded.profile.parallel).toBe(4);
+    expect(loaded.layers.map(layer => path.basename(layer))).toEqual([
+      'config.common.yaml',
+      'config.ci.yaml',
+      'config.fast.yaml',
+      'config.nightly.yaml'
+    ]);
+  });
+
+  test('applies config.<name>.local.yaml last', () => {
+    writeProfile('dev', 'baseURL: https://dev.example.com\nbrowser: chromium\n');
+    fs.writeFileSync(path.join(rootDir, 'config.dev.local.yaml'), 'browser: firefox\n');
+
+    expect(loadProfile('dev', rootDir).profile.browser).toBe('firefox');
+  });
+
+  test('refuses circular inheritance and abstract profiles', () => {
+    writeProfile('a', 'extends: b\nbaseURL: https://a.example.com\nbrowser: chromium\n');
+    writeProfile('b', 'extends: a\n');
+    writeProfile('base', 'abstract: true\nbaseURL: https://base.example.com\nbrowser: chromium\n');
+
+    expect(() => loadProfile('a', rootDir)).toThrow('Circular profile inheritance: a -> b -> a');
+    expect(() => loadProfile('base', rootDir)).toThrow("Profile 'base' is abstract");
+  });
+
+  test('names the file and line of invalid merged values', () => {
+    writeProfile('base', 'abstract: true\nbaseURL: https://base.example.com\nbrowser: chromium\n');
+    writeProfile('broken', 'extends: base\nretries: -1\n');
+
+    expect(() => loadProfile('broken', rootDir)).toThrow(/config\.broken\.yaml:2 {2}retries:/);
+  });
+});
+
+test.describe('placeholders', () => {
+  test.beforeEach(() => {
+    process.env.UNIT_PROFILE_PORT = '2525';
+    process.env.UNIT_PROFILE_PASSWORD = "p#ss: 'word'";
+  });
+
+  test.afterEach(() => {
+    delete process.env.UNIT_PROFILE_PORT;
+    delete process.env.UNIT_PROFILE_PASSWORD;
+  });
+
+  test('types unquoted whole placeholders and keeps quoted ones as strings', () => {
+    writeProfile(
+      'typed',
+      "baseURL: https://example.com\nbrowser: chromium\nparallel: ${UNIT_PROFILE_PORT}\nreportEmail:\n  email: false\n  subject: '${UNIT_PROFILE_PORT}'\n"
+    );
+
+    const { profile } = loadProfile('typed', rootDir);
+
+    expect(profile.parallel).toBe(2525);
+    expect(profile.reportEmail?.subject).toBe('2525');
+  });
+
+  test('substitutes values without reparsing them as YAML', () => {
+    writeProfile(
+      'smtp',
+      'baseURL: https://example.com\nbrowser: chromium\nreportSmtp:\n  smtp: true\n  auth:\n    user: reports\n    pass: ${UNIT_PROFILE_PASSWORD}\n'
+    );
+
+    expect(loadProfile('smtp', rootDir).profile.reportSmtp?.auth).toEqual({ user: 'reports', pass: "p#ss: 'word'" });
+  });
+
+  test('falls back to the default value', () => {
+    writeProfile('fallback', 'baseURL: ${UNIT_PROFILE_MISSING:-https://fallback.example.com}\nbrowser: chromium\n');
+
+    expect(loadProfile('fallback', rootDir).profile.baseURL).toBe('https://fallback.example.com');
+  });
+});
+
+test.describe('formatResolvedProfile', () => {
+  test('never prints values resolved from the secrets vault', () => {
+    const vaultFile = path.join(rootDir, '.secrets.vault.json');
+    const vault = new SecretsVault(vaultFile, 'unit-master-key');
+    vault.set('unit_print_secret', 'SuperSecretValue42');
+    vault.save();
+    process.env[VAULT_FILE_ENV] = vaultFile;
+    process.env[MASTER_KEY_ENV] = 'unit-master-key';
+    writeProfile(
+      'printed',
+      'baseURL: https://example.com\nbrowser: chromium\n' +
+        'reportEmail:\n  email: false\n  subject: ${secret:unit_print_secret}\n' +
+        'reportSmtp:\n  smtp: false\n  auth:\n    user: reports\n    pass: ${secret:unit_print_secret}\n'
+    );
+
+    try {
+      const loaded = loadProfile('printed', rootDir);
+      const printed = formatResolvedProfile(loaded);
+
+      expect(loaded.profile.reportSmtp?.auth?.pass).toBe('SuperSecretValue42');
+      expect(printed).not.toContain('SuperSecretValue42');
+      expect(printed).toContain('subject: \'[REDACTED]\'');
+      expect(printed).toContain('user: reports');
+    } finally {
+      delete process.env[VAULT_FILE_ENV];
+      delete process.env[MASTER_KEY_ENV];
+    }
+  });
+
+  test('masks credentials taken from the environment', () => {
+    process.env.UNIT_GRID_KEY = 'grid-access-key-1234';
+    process.env.UNIT_SMTP_PASSWORD = 'smtp-password-5678';
+    writeProfile(
+      'grid',
+      'baseURL: https://example.com\nbrowser: chromium\n' +
+        "grid:\n  isGrid: false\n  browserstack:\n    user: builder\n    key: '${UNIT_GRID_KEY}'\n" +
+        'reportSmtp:\n  smtp: false\n  auth:\n    user: reports\n    pass: ${UNIT_SMTP_PASSWORD}\n'
+    );
+
+    try {
+      const printed = formatResolvedProfile(loadProfile('grid', rootDir));
+
+      expect(printed).not.toContain('grid-access-key-1234');
+      expect(printed).not.toContain('smtp-password-5678');
+      expect(printed).toContain('user: builder');
+    } finally {
+      delete process.env.UNIT_GRID_KEY;
+      delete process.env.UNIT_SMTP_PASSWORD;
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { test, expect, Page, TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import { ScreenshotHelper } from '../../framework/utils/ScreenshotHelper';
+import { VisualConfig } from '../../framework/utils/ProfileConfig';
+
+interface Viewport {
+  width: number;
+  height: number;
+}
+
+/**
+ * Page whose layout depends on the viewport width: below 400px the page scrolls sideways and
+ * the nav links overlap. Browser-side functions are answered by name.
+ */
+class FakePage {
+  public readonly resizes: Viewport[] = [];
+  private viewport: Viewport = { width: 1280, height: 720 };
+
+  viewportSize(): Viewport {
+    return this.viewport;
+  }
+
+  setViewportSize(viewport: Viewport): Promise<void> {
+    this.viewport = viewport;
+    this.resizes.push(viewport);
+    return Promise.resolve();
+  }
+
+  evaluate(fn: (...args: unknown[]) => unknown): Promise<unknown> {
+    const { width } = this.viewport;
+    const narrow = width < 400;
+    const answers: Record<string, unknown> = {
+      findHorizontalOverflow: narrow
+        ? { scrollWidth: 420, viewportWidth: width, elements: ['table.prices (right edge at 420px)'] }
+        : { scrollWidth: width, viewportWidth: width, elements: [] },
+      findOverlaps: narrow ? ['a.home overlaps a.blog by 12x20px'] : [],
+      readScrollAndScale: { scrollX: 0, scrollY: 0, ratio: 1 }
+    };
+    return Promise.resolve(answers[fn.name]);
+  }
+
+  context() {
+    return { browser: () => null };
+  }
+
+  screenshot(options: { path: string }): Promise<Buffer> {
+    const png = new PNG({ width: 4, height: 4 });
+    png.data.fill(255);
+    const buffer = PNG.sync.write(png);
+    fs.writeFileSync(options.path, buffer);
+    return Promise.resolve(buffer);
+  }
+}
+
+let rootDir: string;
+let page: FakePage;
+
+function helperFor(visual: VisualConfig): ScreenshotHelper {
+  const testInfo = {
+    testId: 'abc123',
+    title: 'Home',
+    project: { name: 'chromium', use: { browserName: 'chromium', profile: { visual: { strict: false, ...visual } } } },
+    config: { updateSnapshots: 'missing' },
+    annotations: [],
+    attach: () => Promise.resolve()
+  };
+  const helper = new ScreenshotHelper(page as unknown as Page, testInfo as unknown as TestInfo);
+  helper.setScreenshotDirectory(rootDir);
+  return helper;
+}
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'screenshot-helper-'));
+  page = new FakePage();
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+test.describe('sweepBreakpoints', () => {
+  test('resizes through the breakpoints in order and restores the viewport', async () => {
+    const results = await helperFor({}).sweepBreakpoints('home', [{ name: 'mobile', device: 'iphone12' }, { width: 768, height: 1024 }, 1440], {
+      compare: false
+    });
+
+    expect(results.map(result => [result.breakpoint, result.viewport])).toEqual([
+      ['mobile', { width: 390, height: 664 }],
+      ['768w', { width: 768, height: 1024 }],
+      ['1440w', { width: 1440, height: 720 }]
+    ]);
+    expect(results.every(result => result.comparison === undefined)).toBe(true);
+    expect(page.resizes.map(viewport => viewport.width)).toEqual([390, 768, 1440, 1280]);
+  });
+
+  test('reports overflow and overlaps at the widths where they happen, from the profile', async () => {
+    const helper = helperFor({ breakpoints: [360, 1024], layoutChecks: { overflow: true, overlap: ['nav a'] } });
+
+    const results = await helper.sweepBreakpoints('home', undefined, { compare: false });
+
+    expect(results.map(result => result.layoutIssues)).toEqual([
+      ['page is 420px wide in a 360px viewport: table.prices (right edge at 420px)', 'a.home overlaps a.blog by 12x20px'],
+      []
+    ]);
+  });
+
+  test('compares each breakpoint against its own baseline', async () => {
+    const results = await helperFor({ baselineKey: ['browser'] }).sweepBreakpoints('home', [{ name: 'tablet', width: 768 }, 1280]);
+
+    expect(results.map(result => [result.comparison?.status, result.comparison?.id])).toEqual([
+      ['created', 'chromium/Home_chromium_768x720_home-tablet'],
+      ['created', 'chromium/Home_chromium_1280x720_home-1280w']
+    ]);
+    expect(results.every(result => fs.existsSync(result.comparison?.baselinePath as string))).toBe(true);
+  });
+
+  test('needs breakpoints and knows their devices', async () => {
+    await expect(helperFor({}).sweepBreakpoints('home')).rejects.toThrow(
+      'No breakpoints to sweep for "home": pass them or set visual.breakpoints in the profile'
+    );
+    await expect(helperFor({}).sweepBreakpoints('home', [{ device: 'nokia3310' }])).rejects.toThrow('Unknown breakpoint device "nokia3310"');
+    expect(page.resizes).toEqual([{ width: 1280, height: 720 }]);
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SecretsVault } from '../../framework/utils/SecretsVault';
+
+let vaultDir: string;
+let vaultFile: string;
+
+test.beforeEach(() => {
+  vaultDir = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-vault-'));
+  vaultFile = path.join(vaultDir, '.secrets.vault.json');
+});
+
+test.afterEach(() => {
+  fs.rmSync(vaultDir, { recursive: true, force: true });
+});
+
+test.describe('SecretsVault', () => {
+  test('round-trips secrets through the vault file without storing plain text', () => {
+    const vault = new SecretsVault(vaultFile, 'master-key');
+    vault.set('smtp_pass', 'app-password');
+    vault.save();
+
+    expect(fs.readFileSync(vaultFile, 'utf8')).not.toContain('app-password');
+    const reopened = new SecretsVault(vaultFile, 'master-key');
+    expect(reopened.get('smtp_pass')).toBe('app-password');
+    expect(reopened.list().map(secret => secret.name)).toEqual(['smtp_pass']);
+  });
+
+  test('tells a wrong master key apart from a missing secret', () => {
+    const vault = new SecretsVault(vaultFile, 'master-key');
+    vault.set('api_key', 'abc123');
+    vault.save();
+
+    const wrongKey = new SecretsVault(vaultFile, 'other-key');
+    expect(wrongKey.has('api_key')).toBe(true);
+    expect(wrongKey.canUnlock()).toBe(false);
+    expect(() => wrongKey.get('api_key')).toThrow('wrong SECRETS_MASTER_KEY');
+    expect(() => new SecretsVault(vaultFile, 'master-key').get('missing')).toThrow("Secret 'missing' not found");
+  });
+
+  test('lists secrets without the master key but cannot decrypt them', () => {
+    const vault = new SecretsVault(vaultFile, 'master-key');
+    vault.set('token', 'secret-token');
+    vault.save();
+
+    const locked = new SecretsVault(vaultFile);
+    expect(locked.list().map(secret => secret.name)).toEqual(['token']);
+    expect(locked.canUnlock()).toBe(false);
+    expect(() => locked.get('token')).toThrow('is locked');
+  });
+
+  test('keeps every secret readable after rotating the master key', () => {
+    const vault = new SecretsVault(vaultFile, 'old-key');
+    vault.set('a', 'first-value');
+    vault.set('b', 'second-value');
+    vault.rotateMasterKey('new-key');
+    vault.save();
+
+    expect(new SecretsVault(vaultFile, 'old-key').canUnlock()).toBe(false);
+    const rotated = new SecretsVault(vaultFile, 'new-key');
+    expect([rotated.get('a'), rotated.get('b')]).toEqual(['first-value', 'second-value']);
+  });
+
+  test('binds each value to its name, so swapped entries do not decrypt', () => {
+    const vault = new SecretsVault(vaultFile, 'master-key');
+    vault.set('a', 'first-value');
+    vault.set('b', 'second-value');
+    vault.save();
+
+    const data = JSON.parse(fs.readFileSync(vaultFile, 'utf8'));
+    [data.secrets.a, data.secrets.b] = [data.secrets.b, data.secrets.a];
+    fs.writeFileSync(vaultFile, JSON.stringify(data));
+
+    expect(() => new SecretsVault(vaultFile, 'master-key').get('a')).toThrow();
+  });
+
+  test('rejects invalid names and empty values', () => {
+    const vault = new SecretsVault(vaultFile, 'master-key');
+    expect(() => vault.set('bad name', 'value')).toThrow("Invalid secret name 'bad name'");
+    expect(() => vault.set('empty', '')).toThrow("Secret 'empty' must not be empty");
+  });
+});
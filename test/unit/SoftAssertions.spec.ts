@@ -0,0 +1,95 @@
+import { test, expect, Page, TestInfo } from '@playwright/test';
+import { SoftAssertions } from '../../framework/utils/SoftAssertions';
+
+interface FakeTestInfo {
+  status: string;
+  expectedStatus: string;
+  annotations: Array<{ type: string; description?: string }>;
+  attachments: Array<{ name: string; body: unknown }>;
+  attach(name: string, options: { body: unknown }): Promise<void>;
+}
+
+function fakeTestInfo(status = 'passed'): FakeTestInfo {
+  const info: FakeTestInfo = {
+    status,
+    expectedStatus: 'passed',
+    annotations: [],
+    attachments: [],
+    attach: (name, options) => {
+      info.attachments.push({ name, body: options.body });
+      return Promise.resolve();
+    }
+  };
+  return info;
+}
+
+const page = { isClosed: () => false, screenshot: () => Promise.resolve(Buffer.from('png')) } as unknown as Page;
+
+let testInfo: FakeTestInfo;
+let collector: SoftAssertions;
+
+test.beforeEach(() => {
+  testInfo = fakeTestInfo();
+  collector = SoftAssertions.start(testInfo as unknown as TestInfo);
+});
+
+test.afterEach(() => {
+  collector.stop();
+});
+
+test.describe('SoftAssertions', () => {
+  test('is the current collector until stopped', () => {
+    expect(SoftAssertions.current).toBe(collector);
+    collector.stop();
+    expect(SoftAssertions.current).toBeUndefined();
+  });
+
+  test('records failing checks with a screenshot and lets the test go on', async () => {
+    collector.usePage(page);
+
+    expect(await collector.check('cart badge shows one item', () => expect('2').toBe('1'))).toBe(false);
+    expect(await collector.check('title', () => expect('Cart').toBe('Cart'))).toBe(true);
+
+    const [failure] = collector.getFailures();
+    expect(failure).toEqual(expect.objectContaining({ index: 1, description: 'cart badge shows one item', screenshot: 'soft-assertion-1' }));
+    expect(failure.message).toBe('Expected: "1"; Received: "2"');
+    expect(failure.location).toMatch(/^test\/unit\/SoftAssertions\.spec\.ts:\d+$/);
+    expect(testInfo.attachments.map(attachment => attachment.name)).toEqual(['soft-assertion-1']);
+  });
+
+  test('turns an error escaping a softly() block into one failure', async () => {
+    await collector.softly(async () => {
+      expect(collector.isCollecting()).toBe(true);
+      await Promise.reject(new Error('locator.click: Timeout 5000ms exceeded.\nCall log:\n  - waiting for locator'));
+    });
+
+    expect(collector.isCollecting()).toBe(false);
+    expect(collector.getFailures().map(failure => [failure.description, failure.message])).toEqual([
+      ['softly() block stopped', 'locator.click: Timeout 5000ms exceeded.']
+    ]);
+  });
+
+  test('summarizes the failures as a table and fails the test at the end', async () => {
+    await collector.check('subtotal', () => expect(10).toBe(12));
+    await collector.check('badge', () => expect('2').toBe('1'));
+
+    const lines = collector.formatSummary().split('\n');
+    expect(lines[0]).toMatch(/^\| # \| Check +\| Failure +\| Location +\| Screenshot \|$/);
+    expect(lines[2]).toMatch(/^\| 1 \| subtotal \| Expected: 12; Received: 10 +\| test\/unit\/SoftAssertions\.spec\.ts:\d+ \| - +\|$/);
+    expect(lines[3]).toContain('| 2 | badge    | Expected: "1"; Received: "2" |');
+    expect(new Set(lines.map(line => line.length)).size).toBe(1);
+    await expect(collector.finish()).rejects.toThrow(/^2 soft assertion\(s\) failed\n\n\| # \|/);
+    expect(testInfo.annotations).toEqual([{ type: 'soft-assertions', description: '2 soft assertion(s) failed' }]);
+    expect(testInfo.attachments.map(attachment => attachment.name)).toEqual(['soft-assertions']);
+  });
+
+  test('does not replace the error of a test that already failed', async () => {
+    const failedTest = fakeTestInfo('failed');
+    const failedCollector = new SoftAssertions(failedTest as unknown as TestInfo);
+    await failedCollector.check('badge', () => expect('2').toBe('1'));
+
+    await failedCollector.finish();
+
+    expect(failedTest.annotations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { test, expect } from '@playwright/test';
+import { Logger } from '../../framework/utils/Logger';
+import { formatStepTitle, step } from '../../framework/utils/Step';
+
+/** Keeps the step lines instead of printing them */
+class RecordingLogger extends Logger {
+  public readonly lines: string[] = [];
+
+  constructor() {
+    super('Step');
+  }
+
+  info(message: string): void {
+    this.lines.push(message);
+  }
+
+  error(message: string): void {
+    this.lines.push(message);
+  }
+}
+
+class CheckoutPage {
+  public readonly logger = new RecordingLogger();
+
+  @step
+  login(username: string, password: string, timeout = 5000): Promise<string> {
+    return Promise.resolve(`${username}:${password.length}:${timeout}`);
+  }
+
+  @step('Fill the address')
+  fillAddress({ street }: { street: string }, ...lines: string[]): Promise<number> {
+    return Promise.resolve(street.length + lines.length);
+  }
+
+  @step
+  payWith(card: { number: string; cvv: string }, onDone: () => void): Promise<void> {
+    onDone();
+    return Promise.reject(new Error(`declined ${card.number}`));
+  }
+}
+
+function startedSteps(page: CheckoutPage): string[] {
+  return page.logger.lines.filter(line => line.startsWith('🔹 Step: ')).map(line => line.slice('🔹 Step: '.length));
+}
+
+test.describe('formatStepTitle', () => {
+  test('appends the parameters, redacting sensitive ones', () => {
+    expect(formatStepTitle('LoginPage.login', { username: 'standard_user', password: 'secret_sauce' })).toBe(
+      'LoginPage.login(username: "standard_user", password: [REDACTED])'
+    );
+  });
+
+  test('leaves out undefined parameters and the parentheses when none are left', () => {
+    expect(formatStepTitle('Open the cart', { page: undefined })).toBe('Open the cart');
+    expect(formatStepTitle('Open the cart')).toBe('Open the cart');
+  });
+
+  test('shortens long values and names class instances by their class', () => {
+    const title = formatStepTitle('Search', { query: 'x'.repeat(100), logger: new Logger('Search'), limit: 10 });
+
+    expect(title).toBe(`Search(query: "${'x'.repeat(58)}…, logger: Logger, limit: 10)`);
+  });
+});
+
+test.describe('@step', () => {
+  test('titles the step after the class, method and parameter names', async () => {
+    const page = new CheckoutPage();
+
+    expect(await page.login('standard_user', 'secret_sauce')).toBe('standard_user:12:5000');
+
+    expect(startedSteps(page)).toEqual(['CheckoutPage.login(username: "standard_user", password: [REDACTED])']);
+    expect(page.logger.lines[1]).toMatch(/^✅ Step completed: CheckoutPage\.login\(.*\) \(\d+ms\)$/);
+  });
+
+  test('names destructured parameters by position and rest parameters by name', async () => {
+    const page = new CheckoutPage();
+
+    expect(await page.fillAddress({ street: 'Main' }, 'Apt 4', 'Floor 2')).toBe(6);
+
+    expect(startedSteps(page)).toEqual(['Fill the address(arg0: {"street":"Main"}, lines: "Apt 4", arg2: "Floor 2")']);
+  });
+
+  test('redacts nested values, shows functions as fn and logs the failure', async () => {
+    const page = new CheckoutPage();
+
+    await expect(page.payWith({ number: '4111', cvv: '123' }, () => undefined)).rejects.toThrow('declined 4111');
+
+    expect(startedSteps(page)).toEqual(['CheckoutPage.payWith(card: {"number":"4111","cvv":"[REDACTED]"}, onDone: fn)']);
+    expect(page.logger.lines[1]).toMatch(/^❌ Step failed: CheckoutPage\.payWith/);
+  });
+});
+
+test.describe('step()', () => {
+  test('runs the block and returns its result', async () => {
+    const logger = new RecordingLogger();
+
+    expect(await step('Open the cart', () => 3, { parameters: { items: 3 }, logger })).toBe(3);
+    expect(logger.lines[0]).toBe('🔹 Step: Open the cart(items: 3)');
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  VisualBaselines,
+  VisualResultRecord,
+  baselineKey,
+  baselineKeyChain,
+  keyedBaselineId,
+  matchesBaselineKey
+} from '../../framework/utils/VisualBaselines';
+
+const mobile = { browser: 'chromium', platform: 'linux', scale: 3, device: 'pixel7' };
+const desktop = { browser: 'chromium', platform: 'linux', scale: 1 };
+
+test.describe('baselineKeyChain', () => {
+  test('starts with the full key and drops the fallback parts in turn', () => {
+    expect(baselineKeyChain(mobile)).toEqual(['chromium-linux-3x-pixel7', 'chromium-linux-3x-*', 'chromium-linux-*-*']);
+  });
+
+  test('has no device part on desktop runs', () => {
+    expect(baselineKey(desktop)).toBe('chromium-linux-1x');
+    expect(baselineKeyChain(desktop)).toEqual(['chromium-linux-1x', 'chromium-linux-1x-*', 'chromium-linux-*-*']);
+  });
+
+  test('follows the configured parts and fallback', () => {
+    expect(baselineKeyChain(mobile, ['browser', 'device'], ['device'])).toEqual(['chromium-pixel7', 'chromium-*']);
+    expect(baselineKeyChain(mobile, [], [])).toEqual(['']);
+    expect(keyedBaselineId('', 'Login_page_chromium_1280x720_home')).toBe('Login_page_chromium_1280x720_home');
+  });
+});
+
+test.describe('matchesBaselineKey', () => {
+  test('lets `*` stand for any value or none', () => {
+    expect(matchesBaselineKey('chromium-linux-3x-pixel7', 'chromium-linux-3x-*')).toBe(true);
+    expect(matchesBaselineKey('chromium-linux-3x', 'chromium-linux-3x-*')).toBe(true);
+    expect(matchesBaselineKey('chromium-linux-2x-iphone12', 'chromium-linux-*-*')).toBe(true);
+    expect(matchesBaselineKey('chromium-linux', 'chromium-linux-*-*')).toBe(true);
+  });
+
+  test('keeps the fixed parts exact', () => {
+    expect(matchesBaselineKey('firefox-linux-3x', 'chromium-linux-*-*')).toBe(false);
+    expect(matchesBaselineKey('chromium-linux-1.5x', 'chromium-linux-1x-*')).toBe(false);
+    expect(matchesBaselineKey('chromium-linux-1x', 'chromium-linux-1.5x')).toBe(false);
+    expect(matchesBaselineKey('chromium-linux-3x-pixel7/extra', 'chromium-linux-3x-*')).toBe(false);
+  });
+});
+
+test.describe('applyDecisions', () => {
+  const RUN = '_2026-05-01T10-20-30-123Z';
+  let store: VisualBaselines;
+
+  /** A failed check with its baseline, actual and diff images and its result record */
+  function failedCheck(id: string): VisualResultRecord {
+    const record: VisualResultRecord = {
+      id,
+      test: 'Login page',
+      project: 'chromium',
+      name: 'home',
+      status: 'failed',
+      baseline: `baseline/${id}.png`,
+      actual: `actual/${id}${RUN}.png`,
+      diff: `diff/${id}${RUN}_diff.png`,
+      diffPixels: 12,
+      diffRatio: 0.01,
+      at: '2026-05-01T10:20:30.123Z'
+    };
+    [[record.baseline, 'old'], [record.actual, 'new'], [record.diff as string, 'diff']].forEach(([file, content]) => {
+      fs.mkdirSync(path.dirname(path.join(store.rootDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(store.rootDir, file), content);
+    });
+    store.recordResult(record);
+    return record;
+  }
+
+  function read(file: string): string | undefined {
+    return fs.existsSync(path.join(store.rootDir, file)) ? fs.readFileSync(path.join(store.rootDir, file), 'utf-8') : undefined;
+  }
+
+  test.beforeEach(() => {
+    store = new VisualBaselines(fs.mkdtempSync(path.join(os.tmpdir(), 'visual-baselines-')));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(store.rootDir, { recursive: true, force: true });
+  });
+
+  test('promotes approved checks, discards rejected ones and skips the rest', () => {
+    const approved = failedCheck('chromium-linux-1x/Login_page_chromium_1280x720_home');
+    const rejected = failedCheck('chromium-linux-1x/Login_page_chromium_1280x720_cart');
+
+    const outcome = store.applyDecisions({
+      decisions: [
+        { id: approved.id, decision: 'approve' },
+        { id: rejected.id, decision: 'reject' },
+        { id: 'chromium-linux-1x/Reviewed_already', decision: 'approve' },
+        { id: approved.id, decision: 'reject' }
+      ]
+    });
+
+    expect(outcome.approved.map(result => result.id)).toEqual([approved.id]);
+    expect(outcome.rejected.map(result => result.id)).toEqual([rejected.id]);
+    expect(outcome.skipped).toEqual(['chromium-linux-1x/Reviewed_already', approved.id]);
+    expect(read(approved.baseline)).toBe('new');
+    expect(read(rejected.baseline)).toBe('old');
+    [approved, rejected].forEach(result => {
+      expect(read(result.actual)).toBeUndefined();
+      expect(read(result.diff as string)).toBeUndefined();
+    });
+    expect(store.listPending()).toEqual([]);
+  });
+
+  test('rejects a decision it does not know', () => {
+    const check = failedCheck('Login_page_chromium_1280x720_home');
+
+    expect(() => store.applyDecisions({ decisions: [{ id: check.id, decision: 'later' as 'approve' }] })).toThrow(
+      "Unknown decision 'later' for Login_page_chromium_1280x720_home (expected approve or reject)"
+    );
+    expect(store.listPending().map(result => result.id)).toEqual([check.id]);
+  });
+});
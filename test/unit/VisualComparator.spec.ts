@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import { VisualBaselines } from '../../framework/utils/VisualBaselines';
+import { IgnoreRegion, VisualComparator } from '../../framework/utils/VisualComparator';
+
+const SIZE = 20;
+
+let rootDir: string;
+
+/** White image with the given rectangles painted black */
+function writeImage(name: string, ...blocks: IgnoreRegion[]): string {
+  const png = new PNG({ width: SIZE, height: SIZE });
+  png.data.fill(255);
+  blocks.forEach(block => {
+    for (let y = block.y; y < block.y + block.height; y++) {
+      for (let x = block.x; x < block.x + block.width; x++) png.data.set([0, 0, 0, 255], (y * SIZE + x) * 4);
+    }
+  });
+  const file = path.join(rootDir, name);
+  fs.writeFileSync(file, PNG.sync.write(png));
+  return file;
+}
+
+function compare(ignoreRegions?: IgnoreRegion[]) {
+  return new VisualComparator().compareOrCreateBaseline(
+    path.join(rootDir, 'baseline.png'),
+    path.join(rootDir, 'actual.png'),
+    path.join(rootDir, 'diff.png'),
+    { algorithm: 'layout-shift', shiftTolerance: 0, threshold: 0, ignoreRegions }
+  );
+}
+
+test.beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-comparator-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(rootDir, { recursive: true, force: true });
+});
+
+test.describe('compareOrCreateBaseline with ignore regions', () => {
+  const timestamp: IgnoreRegion = { x: 2, y: 2, width: 6, height: 2 };
+
+  test('fails on a change outside the regions', async () => {
+    writeImage('baseline.png');
+    writeImage('actual.png', timestamp);
+
+    const result = await compare();
+
+    expect(result).toEqual(expect.objectContaining({ passed: false, status: 'failed', diffPixels: 12 }));
+  });
+
+  test('masks the regions in both images and leaves them out of the ratio', async () => {
+    writeImage('baseline.png', { x: 14, y: 14, width: 2, height: 2 });
+    writeImage('actual.png', timestamp, { x: 14, y: 14, width: 1, height: 2 });
+
+    const result = await compare([{ x: 0, y: 0, width: 10, height: 5 }]);
+
+    expect(result.diffPixels).toBe(2);
+    expect(result.diffRatio).toBeCloseTo(2 / (SIZE * SIZE - 50));
+    expect(result.passed).toBe(false);
+  });
+
+  test('clips regions to the image and shades them in the diff image', async () => {
+    writeImage('baseline.png');
+    writeImage('actual.png', { x: 16, y: 0, width: 4, height: 4 });
+
+    const result = await compare([{ x: 15.5, y: -3, width: 10, height: 7.2, source: '.ad-banner' }]);
+
+    expect(result).toEqual(expect.objectContaining({ passed: true, diffPixels: 0 }));
+    const diff = PNG.sync.read(fs.readFileSync(result.diffPath));
+    const pixel = (x: number, y: number) => Array.from(diff.data.subarray((y * SIZE + x) * 4, (y * SIZE + x) * 4 + 4));
+    expect(pixel(15, 0)).toEqual([200, 220, 255, 255]);
+    expect(pixel(19, 4)).toEqual([200, 220, 255, 255]);
+    expect(pixel(15, 5)).not.toEqual([200, 220, 255, 255]);
+  });
+});
+
+test.describe('baseline ignore region metadata', () => {
+  test('is saved next to the baseline and removed with an empty list', () => {
+    const baselines = new VisualBaselines(rootDir);
+    const id = 'chromium-linux-1x/Blog_chromium_1280x720_home';
+    const regions: IgnoreRegion[] = [{ x: 0, y: 0, width: 100, height: 20, source: '.timestamp' }];
+
+    baselines.writeIgnoreRegions(id, regions);
+
+    expect(fs.existsSync(path.join(rootDir, 'baseline', `${id}.json`))).toBe(true);
+    expect(baselines.readMetadata(id)).toEqual(expect.objectContaining({ id, ignoreRegions: regions }));
+    baselines.writeIgnoreRegions(id, []);
+    expect(baselines.readMetadata(id)).toBeUndefined();
+  });
+});
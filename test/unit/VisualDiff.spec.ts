@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { PNG } from 'pngjs';
+import { DEFAULT_VISUAL_DIFF, Pixelmatch, VisualDiffSettings, runVisualDiff } from '../../framework/utils/VisualDiff';
+
+const SIZE = 32;
+
+/** White image with a black square at (left, top) */
+function imageWithSquare(left: number, top: number, side: number = 8): PNG {
+  const png = new PNG({ width: SIZE, height: SIZE });
+  for (let pixel = 0; pixel < SIZE * SIZE; pixel++) {
+    const column = pixel % SIZE;
+    const row = Math.floor(pixel / SIZE);
+    const inSquare = column >= left && column < left + side && row >= top && row < top + side;
+    png.data.set(inSquare ? [0, 0, 0, 255] : [255, 255, 255, 255], pixel * 4);
+  }
+  return png;
+}
+
+function diff(baseline: PNG, actual: PNG, settings: VisualDiffSettings, mask?: Uint8Array, pixelmatch?: Pixelmatch) {
+  const unused: Pixelmatch = () => {
+    throw new Error('pixelmatch is only used by the yiq and antialias algorithms');
+  };
+  const output = new PNG({ width: SIZE, height: SIZE });
+  return runVisualDiff(pixelmatch ?? unused, baseline, actual, output, { ...DEFAULT_VISUAL_DIFF, ...settings }, mask);
+}
+
+test.describe('runVisualDiff', () => {
+  test('scores identical images as equal with every built-in algorithm', () => {
+    (['ssim', 'layout-shift'] as const).forEach(algorithm => {
+      expect(diff(imageWithSquare(4, 4), imageWithSquare(4, 4), { algorithm }), algorithm).toEqual({ diffPixels: 0, score: 1 });
+    });
+  });
+
+  test('tolerates content moved within shiftTolerance with layout-shift', () => {
+    const baseline = imageWithSquare(10, 10);
+    const moved = imageWithSquare(12, 10);
+
+    expect(diff(baseline, moved, { algorithm: 'layout-shift', shiftTolerance: 3 }).diffPixels).toBe(0);
+    const strict = diff(baseline, moved, { algorithm: 'layout-shift', shiftTolerance: 0 });
+    expect(strict.diffPixels).toBe(32);
+    expect(strict.score).toBeCloseTo(1 - 32 / (SIZE * SIZE));
+  });
+
+  test('counts whole windows below ssimThreshold with ssim', () => {
+    const result = diff(imageWithSquare(0, 0), imageWithSquare(16, 16), { algorithm: 'ssim' });
+
+    expect(result.diffPixels).toBe(2 * 64);
+    expect(result.score).toBeLessThan(1);
+  });
+
+  test('leaves masked pixels out of the count and the score', () => {
+    const mask = new Uint8Array(SIZE * SIZE);
+    for (let row = 10; row < 18; row++) mask.fill(1, row * SIZE + 10, row * SIZE + 18);
+
+    expect(diff(imageWithSquare(30, 30, 2), imageWithSquare(10, 10), { algorithm: 'layout-shift', shiftTolerance: 0 }, mask)).toEqual({
+      diffPixels: 4,
+      score: 1 - 4 / (SIZE * SIZE - 64)
+    });
+  });
+
+  test('passes the color tolerance to pixelmatch and counts anti-aliasing only with yiq', () => {
+    const calls: Array<{ threshold?: number; includeAA?: boolean }> = [];
+    const pixelmatch: Pixelmatch = (_baseline, _actual, _output, _width, _height, options) => {
+      calls.push({ threshold: options?.threshold, includeAA: options?.includeAA });
+      return 16;
+    };
+
+    const result = diff(imageWithSquare(4, 4), imageWithSquare(4, 4), { algorithm: 'antialias', colorTolerance: 0.2 }, undefined, pixelmatch);
+    diff(imageWithSquare(4, 4), imageWithSquare(4, 4), { algorithm: 'yiq' }, undefined, pixelmatch);
+
+    expect(result).toEqual({ diffPixels: 16, score: 1 - 16 / (SIZE * SIZE) });
+    expect(calls).toEqual([{ threshold: 0.2, includeAA: false }, { threshold: 0.1, includeAA: true }]);
+  });
+
+  test('rejects an unknown algorithm', () => {
+    expect(() => diff(imageWithSquare(4, 4), imageWithSquare(4, 4), { algorithm: 'fuzzy' as VisualDiffSettings['algorithm'] })).toThrow(
+      "Unknown visual diff algorithm 'fuzzy'"
+    );
+  });
+});
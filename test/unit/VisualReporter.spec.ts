@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+import { FullResult, TestCase, TestResult } from '@playwright/test/reporter';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import VisualReporter, { VisualReport } from '../../framework/reporters/VisualReporter';
+import { VISUAL_COMPARISON_ATTACHMENT, VisualResultRecord } from '../../framework/utils/VisualBaselines';
+
+let outputFolder: string;
+
+function comparison(name: string, status: VisualResultRecord['status'], diffRatio = 0): VisualResultRecord {
+  const id = `chromium-linux-1x/Checkout_chromium_1280x720_${name}`;
+  return {
+    id,
+    test: 'Checkout',
+    project: 'chromium',
+    name,
+    status,
+    baseline: `baseline/${id}.png`,
+    actual: `actual/${id}_2026-05-01T10-20-30-123Z.png`,
+    diffPixels: Math.round(diffRatio * 921600),
+    diffRatio,
+    at: '2026-05-01T10:20:30.123Z'
+  };
+}
+
+function runTest(reporter: VisualReporter, ...records: VisualResultRecord[]): void {
+  const testCase = { title: 'Checkout', titlePath: () => ['', 'checkout.spec.ts', 'Checkout'] } as unknown as TestCase;
+  const attachments = records.map(record => ({
+    name: VISUAL_COMPARISON_ATTACHMENT,
+    contentType: 'application/json',
+    body: Buffer.from(JSON.stringify(record))
+  }));
+  reporter.onTestEnd(testCase, { attachments } as unknown as TestResult);
+}
+
+function readReport(): VisualReport {
+  return JSON.parse(fs.readFileSync(path.join(outputFolder, 'visual-report.json'), 'utf8')) as VisualReport;
+}
+
+test.beforeEach(() => {
+  outputFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'visual-report-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(outputFolder, { recursive: true, force: true });
+});
+
+test.describe('VisualReporter', () => {
+  test('lists the checks waiting for review first, with the last attempt of each', () => {
+    const reporter = new VisualReporter({ outputFolder });
+
+    runTest(reporter, comparison('header', 'passed'), comparison('cart', 'failed', 0.2));
+    runTest(reporter, comparison('cart', 'failed', 0.05), comparison('summary', 'missing'));
+    reporter.onEnd({ status: 'failed' } as FullResult);
+
+    const entries = readReport().entries.filter(entry => entry.test === 'Checkout');
+    expect(entries.map(entry => [entry.name, entry.pending, entry.earlierRun])).toEqual([
+      ['cart', true, false],
+      ['summary', true, false],
+      ['header', false, false]
+    ]);
+    expect(entries[0].diffRatio).toBe(0.05);
+    expect(entries[0].title).toBe('checkout.spec.ts › Checkout');
+  });
+
+  test('offers approve and reject only for pending checks and points to the apply step', () => {
+    const reporter = new VisualReporter({ outputFolder });
+
+    runTest(reporter, comparison('header', 'passed'), comparison('cart', 'failed', 0.2));
+    reporter.onEnd({ status: 'failed' } as FullResult);
+
+    const html = fs.readFileSync(path.join(outputFolder, 'index.html'), 'utf8');
+    const section = (name: string) => html.slice(html.indexOf(`data-id="chromium-linux-1x/Checkout_chromium_1280x720_${name}"`)).split('</section>')[0];
+    // No actual image on disk: it cannot be approved, only rejected
+    expect(section('cart')).toContain('<button data-decision="approve" disabled>');
+    expect(section('cart')).toContain('<button data-decision="reject">');
+    expect(section('header')).not.toContain('data-decision');
+    expect(section('cart')).toContain('20.000% differ');
+    expect(html).toContain('npm run visual-baselines -- apply &lt;path to visual-decisions.json&gt;');
+  });
+});